@@ -1,12 +1,36 @@
-import React, { Suspense } from 'react';
+import React, { Suspense, useEffect } from 'react';
 import { Canvas } from '@react-three/fiber';
-import Particles from './components/Particles';
+import ParticleLayers from './components/ParticleLayers';
+import RemoteHands from './components/RemoteHands';
+import ForceFields from './components/ForceFields';
+import GhostHands from './components/GhostHands';
+import TimelineDriver from './components/TimelineDriver';
+import CameraController from './components/CameraController';
+import CaptureBridge from './components/CaptureBridge';
+import PostEffects from './components/PostEffects';
+import PerformanceGovernor from './components/PerformanceGovernor';
+import StatsOverlay from './components/StatsOverlay';
 import WebcamHandTracker from './components/WebcamHandTracker';
 import Controls from './components/Controls';
 import { useStore } from './store';
+import { INPUT_HINTS, useInputProvider } from './input/inputProviders';
+import { crossfadeTo, decodePresetHash } from './services/presets';
 
 const App: React.FC = () => {
   const isHandDetected = useStore(state => state.isHandDetected);
+  const inputSource = useStore(state => state.inputSource);
+  useInputProvider();
+
+  // Shared links carry a preset in the hash (#preset=...)
+  useEffect(() => {
+    const applyHash = () => {
+      const shared = decodePresetHash(window.location.hash);
+      if (shared) crossfadeTo(shared.config, 0);
+    };
+    applyHash();
+    window.addEventListener('hashchange', applyHash);
+    return () => window.removeEventListener('hashchange', applyHash);
+  }, []);
 
   return (
     <div className="w-full h-screen bg-black relative overflow-hidden">
@@ -20,20 +44,27 @@ const App: React.FC = () => {
           <color attach="background" args={['#050505']} />
           <ambientLight intensity={0.5} />
           
-          <Particles />
-          
-          {/* Note: OrbitControls removed to allow full hand-gesture control of the sphere object itself */}
+          <ParticleLayers />
+          <RemoteHands />
+          <ForceFields />
+          <GhostHands />
+          <TimelineDriver />
+          <CameraController />
+          <CaptureBridge />
+          <PostEffects />
+          <PerformanceGovernor />
         </Suspense>
       </Canvas>
 
       {/* Overlays */}
       <Controls />
       <WebcamHandTracker />
+      <StatsOverlay />
 
       {/* Interaction Hint */}
       {!isHandDetected && (
         <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2 text-white/30 text-sm animate-pulse pointer-events-none tracking-widest uppercase">
-          Raise Hand to Spin
+          {INPUT_HINTS[inputSource]}
         </div>
       )}
     </div>
@@ -0,0 +1,118 @@
+import React from 'react';
+import { useStore } from '../store';
+import { GENERATOR_LABELS } from '../services/aiProvider';
+import { GeneratorId } from '../services/configGenerator';
+import { OpenAiSettings } from '../services/openaiCompatible';
+import Slider from './Slider';
+
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-xs focus:outline-none focus:border-cyan-500/50 placeholder:text-white/20';
+
+// Text input that only writes settings on blur, so typing does not rebuild the client per keystroke
+const SettingInput: React.FC<{
+  label: string;
+  value: string;
+  placeholder?: string;
+  secret?: boolean;
+  onCommit: (value: string) => void;
+}> = ({ label, value, placeholder, secret, onCommit }) => (
+  <label className="block">
+    <span className="text-[11px] text-white/50">{label}</span>
+    <input
+      key={value}
+      type={secret ? 'password' : 'text'}
+      defaultValue={value}
+      placeholder={placeholder}
+      onBlur={(e) => e.target.value !== value && onCommit(e.target.value.trim())}
+      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+      className={`${inputClass} mt-0.5 font-mono`}
+    />
+  </label>
+);
+
+const AiSettingsPanel: React.FC = () => {
+  const settings = useStore(state => state.aiSettings);
+  const setSettings = useStore(state => state.setAiSettings);
+
+  const setOpenAi = (patch: Partial<OpenAiSettings>) => setSettings({ openai: { ...settings.openai, ...patch } });
+
+  return (
+    <div className="space-y-3">
+      <div className="text-[10px] text-white/40 uppercase tracking-wider">Provider</div>
+      <div className="grid grid-cols-2 gap-1.5">
+        {(Object.keys(GENERATOR_LABELS) as GeneratorId[]).map(id => (
+          <button
+            key={id}
+            onClick={() => setSettings({ provider: id })}
+            className={`px-2 py-1.5 rounded-lg text-xs border transition-colors ${
+              settings.provider === id
+                ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300'
+                : 'bg-white/5 border-white/10 text-white/60 hover:bg-white/10'
+            }`}
+          >
+            {GENERATOR_LABELS[id]}
+          </button>
+        ))}
+      </div>
+
+      {settings.provider === 'gemini' && (
+        <SettingInput
+          label="API key (overrides GEMINI_API_KEY)"
+          value={settings.geminiApiKey}
+          secret
+          onCommit={(geminiApiKey) => setSettings({ geminiApiKey })}
+        />
+      )}
+
+      {settings.provider === 'openai' && (
+        <>
+          <SettingInput
+            label="Base URL"
+            value={settings.openai.baseUrl}
+            placeholder="http://localhost:11434/v1"
+            onCommit={(baseUrl) => setOpenAi({ baseUrl })}
+          />
+          <SettingInput label="Model" value={settings.openai.model} onCommit={(model) => setOpenAi({ model })} />
+          <SettingInput
+            label="API key (optional for local servers)"
+            value={settings.openai.apiKey}
+            secret
+            onCommit={(apiKey) => setOpenAi({ apiKey })}
+          />
+        </>
+      )}
+
+      {settings.provider === 'offline' && (
+        <p className="text-[11px] text-white/40">
+          Matches moods (fire, ocean, space, ice...), colors and shape names. No network needed.
+        </p>
+      )}
+
+      {settings.provider === 'mock' && (
+        <p className="text-[11px] text-white/40">Canned responses for testing the UI.</p>
+      )}
+
+      <div className="text-[10px] text-white/40 uppercase tracking-wider pt-2">Requests</div>
+      <Slider
+        label="Timeout"
+        value={settings.timeoutMs / 1000}
+        min={2}
+        max={60}
+        step={1}
+        onChange={(v) => setSettings({ timeoutMs: v * 1000 })}
+        format={(v) => `${v}s`}
+      />
+      <label className="flex items-center gap-2 text-[11px] text-white/60">
+        <input
+          type="checkbox"
+          checked={settings.offlineFallback}
+          onChange={(e) => setSettings({ offlineFallback: e.target.checked })}
+          className="accent-cyan-400"
+        />
+        Fall back to offline rules when the provider fails
+      </label>
+      <p className="text-[10px] text-white/30">Keys are stored in this browser only.</p>
+    </div>
+  );
+};
+
+export default AiSettingsPanel;
@@ -0,0 +1,167 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useStore } from '../store';
+import {
+  AUDIO_BANDS,
+  AUDIO_TARGET_LABELS,
+  AudioBand,
+  AudioFeatures,
+  AudioMapping,
+  AudioTarget,
+  audioAnalyzer,
+  DEFAULT_AUDIO_MAPPINGS
+} from '../services/audio';
+import { FolderOpen, Mic, Plus, RotateCcw, Square, Trash2 } from 'lucide-react';
+
+const selectClass = 'bg-white/5 border border-white/10 rounded-md px-1.5 py-1 text-[11px] focus:outline-none focus:border-cyan-500/50';
+const buttonClass = 'flex items-center gap-1 px-2 py-1 rounded-lg text-xs bg-white/5 text-white/70 hover:bg-white/10 disabled:opacity-40';
+
+const Meter: React.FC<{ label: string; value: number }> = ({ label, value }) => (
+  <div className="flex items-center gap-2 text-[10px] text-white/50">
+    <span className="w-10 uppercase">{label}</span>
+    <div className="flex-1 h-1.5 bg-white/5 rounded-full overflow-hidden">
+      <div className="h-full bg-cyan-400/70" style={{ width: `${Math.min(1, value) * 100}%` }} />
+    </div>
+  </div>
+);
+
+const AudioPanel: React.FC = () => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [source, setSource] = useState(audioAnalyzer.source);
+  const [features, setFeatures] = useState<AudioFeatures>(audioAnalyzer.current);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const mappings = useStore(state => state.audioMappings);
+  const setMappings = useStore(state => state.setAudioMappings);
+  const setError = useStore(state => state.setError);
+
+  // The renderer advances the analysis; the meters only read its latest result
+  useEffect(() => {
+    if (!source) return;
+    let frameId = requestAnimationFrame(function poll() {
+      setFeatures(audioAnalyzer.current);
+      frameId = requestAnimationFrame(poll);
+    });
+    return () => cancelAnimationFrame(frameId);
+  }, [source]);
+
+  const run = async (start: () => Promise<void>) => {
+    try {
+      await start();
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+    setSource(audioAnalyzer.source);
+  };
+
+  const playFile = (file: File | undefined) => {
+    if (!file) return;
+    if (!file.type.startsWith('audio/')) {
+      setError(`"${file.name}" is not an audio file.`);
+      return;
+    }
+    run(() => audioAnalyzer.startFile(file));
+  };
+
+  const stop = () => {
+    audioAnalyzer.stop();
+    setSource(null);
+  };
+
+  const update = (id: string, patch: Partial<AudioMapping>) =>
+    setMappings(mappings.map(m => (m.id === id ? { ...m, ...patch } : m)));
+
+  return (
+    <div
+      className={`space-y-4 rounded-lg ${isDragging ? 'ring-1 ring-cyan-500/50' : ''}`}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragging(false);
+        playFile(e.dataTransfer.files[0]);
+      }}
+    >
+      <div>
+        <div className="text-[10px] text-white/40 uppercase tracking-wider mb-2">Source</div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => run(() => audioAnalyzer.startMicrophone())} className={`${buttonClass} ${source?.kind === 'mic' ? 'text-cyan-300 bg-cyan-500/10' : ''}`}>
+            <Mic size={12} /> Mic
+          </button>
+          <button onClick={() => fileRef.current?.click()} className={`${buttonClass} ${source?.kind === 'file' ? 'text-cyan-300 bg-cyan-500/10' : ''}`}>
+            <FolderOpen size={12} /> File
+          </button>
+          <button onClick={stop} disabled={!source} className={buttonClass}>
+            <Square size={12} />
+          </button>
+          <input ref={fileRef} type="file" accept="audio/*" className="hidden" onChange={(e) => {
+            playFile(e.target.files?.[0]);
+            e.target.value = '';
+          }} />
+        </div>
+        <p className="text-[11px] text-white/40 mt-1.5 truncate">
+          {source ? source.name : 'Off. Drop an audio file here or use the mic.'}
+        </p>
+      </div>
+
+      {source && (
+        <div className="space-y-1">
+          <Meter label="Bass" value={features.bass} />
+          <Meter label="Mid" value={features.mid} />
+          <Meter label="Treble" value={features.treble} />
+          <Meter label="Beat" value={features.beat} />
+          <div className="text-[10px] text-white/50 text-right tabular-nums">
+            {features.tempo ? `${features.tempo} BPM` : '-- BPM'}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <div className="text-[10px] text-white/40 uppercase tracking-wider mb-2">Modulation</div>
+        <ul className="space-y-1.5">
+          {mappings.map(mapping => (
+            <li key={mapping.id} className="flex items-center gap-1.5">
+              <select value={mapping.source} onChange={(e) => update(mapping.id, { source: e.target.value as AudioBand })} className={selectClass}>
+                {AUDIO_BANDS.map(band => <option key={band} value={band}>{band}</option>)}
+              </select>
+              <span className="text-white/30 text-[11px]">→</span>
+              <select value={mapping.target} onChange={(e) => update(mapping.id, { target: e.target.value as AudioTarget })} className={`${selectClass} flex-1 min-w-0`}>
+                {(Object.keys(AUDIO_TARGET_LABELS) as AudioTarget[]).map(target => (
+                  <option key={target} value={target}>{AUDIO_TARGET_LABELS[target]}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                step={0.1}
+                min={-2}
+                max={2}
+                value={mapping.amount}
+                onChange={(e) => update(mapping.id, { amount: parseFloat(e.target.value) || 0 })}
+                className={`${selectClass} w-14`}
+              />
+              <button onClick={() => setMappings(mappings.filter(m => m.id !== mapping.id))} className="text-white/30 hover:text-red-300">
+                <Trash2 size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex items-center gap-2 mt-2">
+          <button
+            onClick={() => setMappings([...mappings, { id: crypto.randomUUID(), source: 'level', target: 'speed', amount: 0.5 }])}
+            className={buttonClass}
+          >
+            <Plus size={12} /> Add
+          </button>
+          <button onClick={() => setMappings(DEFAULT_AUDIO_MAPPINGS)} className={buttonClass}>
+            <RotateCcw size={12} /> Defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AudioPanel;
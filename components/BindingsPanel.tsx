@@ -0,0 +1,205 @@
+import React, { useRef } from 'react';
+import { HandForceMode, useStore } from '../store';
+import { BUILT_IN_GESTURES } from '../input/gestures';
+import {
+  ACTION_LABELS,
+  BindableGesture,
+  BindingAction,
+  BindingActionType,
+  BindingTrigger,
+  DEFAULT_BINDINGS,
+  defaultAction,
+  GestureBinding,
+  HOLD_ACTIONS,
+  parseBindings
+} from '../input/bindings';
+import { HAND_FORCES } from '../services/configSchema';
+import { downloadJson, readJsonFile } from '../services/files';
+import { Download, Plus, RotateCcw, Trash2, Upload } from 'lucide-react';
+
+const selectClass = 'bg-white/5 border border-white/10 rounded-md px-1.5 py-1 text-[11px] focus:outline-none focus:border-cyan-500/50';
+
+const ActionParam: React.FC<{ action: BindingAction; onChange: (a: BindingAction) => void }> = ({ action, onChange }) => {
+  switch (action.type) {
+    case 'scale':
+      return (
+        <input
+          type="number"
+          step={0.1}
+          min={0.1}
+          max={3}
+          value={action.value}
+          onChange={(e) => onChange({ ...action, value: parseFloat(e.target.value) || 1 })}
+          className={`${selectClass} w-14`}
+        />
+      );
+    case 'force':
+      return (
+        <select value={action.mode} onChange={(e) => onChange({ ...action, mode: e.target.value as HandForceMode })} className={selectClass}>
+          {HAND_FORCES.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+        </select>
+      );
+    case 'burst':
+      return (
+        <input
+          type="number"
+          step={1}
+          min={1}
+          max={30}
+          value={action.strength}
+          onChange={(e) => onChange({ ...action, strength: parseFloat(e.target.value) || 1 })}
+          className={`${selectClass} w-14`}
+        />
+      );
+    case 'prompt':
+      return (
+        <input
+          type="text"
+          value={action.prompt}
+          placeholder="e.g. 'aurora'"
+          onChange={(e) => onChange({ ...action, prompt: e.target.value })}
+          className={`${selectClass} flex-1 min-w-0`}
+        />
+      );
+    default:
+      return null;
+  }
+};
+
+const BindingsPanel: React.FC = () => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const bindings = useStore(state => state.bindings);
+  const setBindings = useStore(state => state.setBindings);
+  const samples = useStore(state => state.customGestureSamples);
+  const setError = useStore(state => state.setError);
+
+  const gestures: BindableGesture[] = [
+    'ANY',
+    ...BUILT_IN_GESTURES,
+    ...Array.from(new Set(samples.map(s => `CUSTOM:${s.label}` as const)))
+  ];
+
+  const update = (id: string, patch: Partial<GestureBinding>) =>
+    setBindings(bindings.map(b => (b.id === id ? { ...b, ...patch } : b)));
+
+  const changeAction = (binding: GestureBinding, type: BindingActionType) => {
+    const isHold = HOLD_ACTIONS.includes(type);
+    // Keep the trigger compatible with the kind of action
+    const trigger: BindingTrigger = isHold ? 'hold' : binding.trigger === 'hold' ? 'enter' : binding.trigger;
+    update(binding.id, { action: defaultAction(type), trigger });
+  };
+
+  const add = () =>
+    setBindings([
+      ...bindings,
+      { id: crypto.randomUUID(), gesture: 'PINCH', trigger: 'enter', action: { type: 'burst', strength: 8 }, enabled: true }
+    ]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setBindings(parseBindings(await readJsonFile(file)));
+      setError(null);
+    } catch (err) {
+      setError(`Could not import bindings: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div>
+      <ul className="space-y-2">
+        {bindings.map(binding => {
+          const isHold = HOLD_ACTIONS.includes(binding.action.type);
+          return (
+            <li
+              key={binding.id}
+              className={`bg-white/5 rounded-lg p-2 space-y-1.5 ${binding.enabled ? '' : 'opacity-40'}`}
+            >
+              <div className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={binding.enabled}
+                  onChange={(e) => update(binding.id, { enabled: e.target.checked })}
+                  className="accent-cyan-400"
+                />
+                <select
+                  value={binding.gesture}
+                  onChange={(e) => update(binding.id, { gesture: e.target.value as BindableGesture })}
+                  className={`${selectClass} flex-1 min-w-0`}
+                >
+                  {gestures.map(g => <option key={g} value={g}>{g}</option>)}
+                </select>
+                <select
+                  value={binding.trigger}
+                  onChange={(e) => update(binding.id, { trigger: e.target.value as BindingTrigger })}
+                  className={selectClass}
+                >
+                  {isHold
+                    ? <option value="hold">while held</option>
+                    : (
+                      <>
+                        <option value="enter">on enter</option>
+                        <option value="exit">on exit</option>
+                      </>
+                    )}
+                </select>
+                <button
+                  onClick={() => setBindings(bindings.filter(b => b.id !== binding.id))}
+                  className="text-white/40 hover:text-red-300"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+              {binding.trigger === 'enter' && (
+                <div className="flex items-center gap-1.5 pl-5 text-[11px] text-white/40">
+                  from
+                  <select
+                    value={binding.from ?? ''}
+                    onChange={(e) => update(binding.id, { from: (e.target.value || undefined) as BindableGesture | undefined })}
+                    className={selectClass}
+                  >
+                    <option value="">anything</option>
+                    {gestures.map(g => <option key={g} value={g}>{g}</option>)}
+                  </select>
+                </div>
+              )}
+              <div className="flex items-center gap-1.5 pl-5">
+                <span className="text-white/30 text-[11px]">→</span>
+                <select
+                  value={binding.action.type}
+                  onChange={(e) => changeAction(binding, e.target.value as BindingActionType)}
+                  className={selectClass}
+                >
+                  {(Object.keys(ACTION_LABELS) as BindingActionType[]).map(type => (
+                    <option key={type} value={type}>{ACTION_LABELS[type]}</option>
+                  ))}
+                </select>
+                <ActionParam action={binding.action} onChange={(action) => update(binding.id, { action })} />
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="mt-3 flex flex-wrap gap-2 text-xs">
+        <button onClick={add} className="flex items-center gap-1 px-2 py-1 rounded-lg bg-cyan-500/10 text-cyan-300 hover:bg-cyan-500/20">
+          <Plus size={12} /> Add
+        </button>
+        <button onClick={() => downloadJson(bindings, 'gesture-bindings.json')} className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white/5 text-white/60 hover:bg-white/10">
+          <Download size={12} /> Export
+        </button>
+        <button onClick={() => fileRef.current?.click()} className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white/5 text-white/60 hover:bg-white/10">
+          <Upload size={12} /> Import
+        </button>
+        <button onClick={() => setBindings(DEFAULT_BINDINGS)} className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white/5 text-white/60 hover:bg-white/10">
+          <RotateCcw size={12} /> Defaults
+        </button>
+        <input ref={fileRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+      </div>
+    </div>
+  );
+};
+
+export default BindingsPanel;
@@ -0,0 +1,45 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { useStore } from '../store';
+import { cameraRig } from '../services/camera';
+
+// Runs the camera rig for the selected mode. Mounted after TimelineDriver, so
+// camera tracks that moved the camera this frame have already told the rig.
+const CameraController: React.FC = () => {
+  const camera = useThree(state => state.camera) as THREE.PerspectiveCamera;
+  const mode = useStore(state => state.cameraSettings.mode);
+  const controls = useRef<React.ComponentRef<typeof OrbitControls>>(null);
+
+  // Leaving a moving mode eases back to the pose it started from
+  const previousMode = useRef(mode);
+  useEffect(() => {
+    if (previousMode.current === 'cinematic' || previousMode.current === 'dolly') {
+      cameraRig.settle(useStore.getState().cameraSettings.transitionSeconds);
+    }
+    previousMode.current = mode;
+  }, [mode]);
+
+  useFrame((_, delta) => {
+    const { hands, inputSource } = useStore.getState();
+    cameraRig.update(camera, delta, { mode, handDepth: hands[0]?.position.z ?? null });
+
+    if (controls.current) {
+      controls.current.target.copy(cameraRig.target);
+      // Hands keep control of the object; with mouse input the mouse already is the hand
+      controls.current.enabled = !cameraRig.isFlying && hands.length === 0 && inputSource !== 'mouse';
+    }
+  });
+
+  if (mode !== 'orbit') return null;
+  return (
+    <OrbitControls
+      ref={controls}
+      // Panning moves the point the rig looks at
+      onChange={() => controls.current && cameraRig.target.copy(controls.current.target)}
+    />
+  );
+};
+
+export default CameraController;
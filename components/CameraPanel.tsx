@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { useStore } from '../store';
+import { CAMERA_MODE_LABELS, CAMERA_MODES, CameraMode, cameraRig, DEFAULT_VIEWPOINT, Viewpoint } from '../services/camera';
+import { Home, Save, Trash2 } from 'lucide-react';
+import Slider from './Slider';
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1 rounded-lg text-xs bg-white/5 text-white/70 hover:bg-white/10 disabled:opacity-40';
+const iconClass = 'text-white/30 hover:text-white/80 shrink-0';
+
+const MODE_HINTS: Record<CameraMode, string> = {
+  fixed: 'The camera stays put.',
+  orbit: 'Drag to orbit, scroll to zoom, right-drag to pan. Paused while a hand is in view or the mouse is the input.',
+  cinematic: 'A slow automatic flythrough around the current view.',
+  dolly: 'Moving the hand toward the camera pushes the view in; pulling back pulls it out.',
+};
+
+// Camera mode, flight time and saved viewpoints
+const CameraPanel: React.FC = () => {
+  const [name, setName] = useState('');
+  const settings = useStore(state => state.cameraSettings);
+  const setCameraSettings = useStore(state => state.setCameraSettings);
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setCameraSettings({ viewpoints: [...settings.viewpoints, cameraRig.viewpoint(name.trim())] });
+    setName('');
+  };
+
+  const remove = (id: string) => setCameraSettings({ viewpoints: settings.viewpoints.filter(v => v.id !== id) });
+
+  const go = (viewpoint: Viewpoint) => cameraRig.flyTo(viewpoint, settings.transitionSeconds);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-1">
+        {CAMERA_MODES.map(mode => (
+          <button
+            key={mode}
+            onClick={() => setCameraSettings({ mode })}
+            className={`px-2 py-1 rounded-lg text-[11px] border transition-colors ${
+              settings.mode === mode
+                ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300'
+                : 'bg-white/5 border-white/10 text-white/60 hover:bg-white/10'
+            }`}
+          >
+            {CAMERA_MODE_LABELS[mode]}
+          </button>
+        ))}
+      </div>
+      <p className="text-[11px] text-white/40">{MODE_HINTS[settings.mode]}</p>
+
+      <Slider
+        label="Transition"
+        value={settings.transitionSeconds}
+        min={0}
+        max={5}
+        step={0.1}
+        onChange={(transitionSeconds) => setCameraSettings({ transitionSeconds })}
+        format={(v) => `${v.toFixed(1)}s`}
+      />
+
+      <div>
+        <div className="text-[10px] text-white/40 uppercase tracking-wider mb-2">Viewpoints</div>
+        <ul className="space-y-1">
+          <li className="flex items-center gap-2 bg-white/5 rounded-lg px-2 py-1.5">
+            <Home size={12} className="text-white/30 shrink-0" />
+            <button onClick={() => go(DEFAULT_VIEWPOINT)} className="flex-1 text-left text-xs text-white/80 hover:text-white">
+              {DEFAULT_VIEWPOINT.name}
+            </button>
+          </li>
+          {settings.viewpoints.map(viewpoint => (
+            <li key={viewpoint.id} className="flex items-center gap-2 bg-white/5 rounded-lg px-2 py-1.5">
+              <button onClick={() => go(viewpoint)} className="flex-1 min-w-0 text-left text-xs text-white/80 hover:text-white truncate">
+                {viewpoint.name}
+              </button>
+              <button onClick={() => remove(viewpoint.id)} className={`${iconClass} hover:text-red-300`}>
+                <Trash2 size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <form onSubmit={save} className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Viewpoint name"
+          className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-xs focus:outline-none focus:border-cyan-500/50"
+        />
+        <button type="submit" disabled={!name.trim()} className={buttonClass}>
+          <Save size={12} /> Save view
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default CameraPanel;
@@ -0,0 +1,23 @@
+import React, { useEffect } from 'react';
+import { useThree } from '@react-three/fiber';
+import { CaptureTarget, sceneCapture } from '../services/capture';
+
+// Hands the renderer, scene and frame controls to the export service
+const CaptureBridge: React.FC = () => {
+  const gl = useThree(state => state.gl);
+  const scene = useThree(state => state.scene);
+  const camera = useThree(state => state.camera);
+  const setFrameloop = useThree(state => state.setFrameloop);
+  const advance = useThree(state => state.advance);
+  const clock = useThree(state => state.clock);
+
+  useEffect(() => {
+    const target: CaptureTarget = { gl, scene, camera, setFrameloop, clock, advance };
+    sceneCapture.attach(target);
+    return () => sceneCapture.detach(target);
+  }, [gl, scene, camera, setFrameloop, clock, advance]);
+
+  return null;
+};
+
+export default CaptureBridge;
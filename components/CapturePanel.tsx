@@ -0,0 +1,217 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useStore } from '../store';
+import { Resolution, sceneCapture } from '../services/capture';
+import { downloadBlob } from '../services/files';
+import { Camera, Circle, Film, Loader2, X } from 'lucide-react';
+import Slider from './Slider';
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1 rounded-lg text-xs bg-white/5 text-white/70 hover:bg-white/10 disabled:opacity-40';
+const selectClass = 'bg-white/5 border border-white/10 rounded-md px-1.5 py-1 text-[11px] focus:outline-none focus:border-cyan-500/50';
+
+type ResolutionId = 'window' | '1080p' | '1440p' | '4k' | 'square' | 'custom';
+
+const RESOLUTIONS: Record<Exclude<ResolutionId, 'window' | 'custom'>, Resolution & { label: string }> = {
+  '1080p': { label: '1920 × 1080', width: 1920, height: 1080 },
+  '1440p': { label: '2560 × 1440', width: 2560, height: 1440 },
+  '4k': { label: '3840 × 2160 (4K)', width: 3840, height: 2160 },
+  square: { label: '2048 × 2048', width: 2048, height: 2048 },
+};
+
+const windowResolution = (): Resolution => ({
+  width: Math.round(window.innerWidth * window.devicePixelRatio),
+  height: Math.round(window.innerHeight * window.devicePixelRatio),
+});
+
+const timestamp = () => new Date().toISOString().replace(/[:.]/g, '-');
+
+const formatElapsed = (s: number) => `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+
+const CapturePanel: React.FC = () => {
+  const [resolutionId, setResolutionId] = useState<ResolutionId>('4k');
+  const [custom, setCustom] = useState<Resolution>({ width: 3000, height: 3000 });
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [videoFps, setVideoFps] = useState(60);
+  // Recording outlives the panel, so pick up one already running
+  const [recordingSince, setRecordingSince] = useState<number | null>(sceneCapture.recordingStartedAt);
+  const [elapsed, setElapsed] = useState(0);
+  const [sequenceFps, setSequenceFps] = useState(30);
+  const [sequenceSeconds, setSequenceSeconds] = useState(5);
+  const [progress, setProgress] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const setError = useStore(state => state.setError);
+
+  const resolution: Resolution =
+    resolutionId === 'window' ? windowResolution() : resolutionId === 'custom' ? custom : RESOLUTIONS[resolutionId];
+  const sequenceFrames = Math.round(sequenceFps * sequenceSeconds);
+
+  useEffect(() => {
+    if (recordingSince === null) return;
+    const id = setInterval(() => setElapsed(Math.floor((Date.now() - recordingSince) / 1000)), 250);
+    return () => clearInterval(id);
+  }, [recordingSince]);
+
+  const takeScreenshot = async () => {
+    setIsCapturing(true);
+    try {
+      downloadBlob(await sceneCapture.screenshot(resolution), `particles-${timestamp()}.png`);
+    } catch (err) {
+      setError(`Screenshot failed: ${(err as Error).message}`);
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const toggleRecording = async () => {
+    try {
+      if (sceneCapture.isRecording) {
+        setRecordingSince(null);
+        downloadBlob(await sceneCapture.stopRecording(), `particles-${timestamp()}.webm`);
+      } else {
+        sceneCapture.startRecording(videoFps);
+        setElapsed(0);
+        setRecordingSince(sceneCapture.recordingStartedAt);
+      }
+    } catch (err) {
+      setRecordingSince(null);
+      setError(`Recording failed: ${(err as Error).message}`);
+    }
+  };
+
+  const exportSequence = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    try {
+      const zip = await sceneCapture.recordSequence({
+        ...resolution,
+        fps: sequenceFps,
+        frames: sequenceFrames,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      downloadBlob(zip, `particles-${timestamp()}-${sequenceFps}fps.zip`);
+    } catch (err) {
+      if (!controller.signal.aborted) setError(`Frame export failed: ${(err as Error).message}`);
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const isExporting = progress !== null;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="text-[10px] text-white/40 uppercase tracking-wider mb-2">Resolution</div>
+        <div className="flex items-center gap-2">
+          <select
+            value={resolutionId}
+            onChange={(e) => setResolutionId(e.target.value as ResolutionId)}
+            disabled={isExporting}
+            className={selectClass}
+          >
+            <option value="window">Window</option>
+            {Object.entries(RESOLUTIONS).map(([id, r]) => <option key={id} value={id}>{r.label}</option>)}
+            <option value="custom">Custom</option>
+          </select>
+          {resolutionId === 'custom' ? (
+            <>
+              {(['width', 'height'] as const).map(dim => (
+                <input
+                  key={dim}
+                  type="number"
+                  min={16}
+                  step={2}
+                  value={custom[dim]}
+                  onChange={(e) => setCustom({ ...custom, [dim]: Math.max(16, parseInt(e.target.value) || 16) })}
+                  className={`${selectClass} w-16 tabular-nums`}
+                  title={dim}
+                />
+              ))}
+            </>
+          ) : (
+            <span className="text-[11px] text-white/40 tabular-nums">{resolution.width} × {resolution.height}</span>
+          )}
+        </div>
+        <p className="text-[11px] text-white/40 mt-1.5">Screenshots and frame sequences render offscreen at this size.</p>
+      </div>
+
+      <div>
+        <div className="text-[10px] text-white/40 uppercase tracking-wider mb-2">Screenshot</div>
+        <button onClick={takeScreenshot} disabled={isCapturing || isExporting} className={buttonClass}>
+          {isCapturing ? <Loader2 size={12} className="animate-spin" /> : <Camera size={12} />} Save PNG
+        </button>
+      </div>
+
+      <div>
+        <div className="text-[10px] text-white/40 uppercase tracking-wider mb-2">Video</div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={toggleRecording}
+            disabled={isExporting}
+            className={`${buttonClass} ${recordingSince !== null ? 'text-red-300 bg-red-500/10' : ''}`}
+          >
+            <Circle size={10} className={recordingSince !== null ? 'fill-red-400 animate-pulse' : ''} />
+            {recordingSince !== null ? `Stop & save ${formatElapsed(elapsed)}` : 'Record WebM'}
+          </button>
+          <select
+            value={videoFps}
+            onChange={(e) => setVideoFps(parseInt(e.target.value))}
+            disabled={recordingSince !== null}
+            className={selectClass}
+          >
+            {[30, 60].map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+          </select>
+        </div>
+        <p className="text-[11px] text-white/40 mt-1.5">Records the live canvas at window size in real time.</p>
+      </div>
+
+      <div>
+        <div className="text-[10px] text-white/40 uppercase tracking-wider mb-2">Frame sequence</div>
+        <Slider
+          label="Length"
+          value={sequenceSeconds}
+          min={1}
+          max={60}
+          step={1}
+          onChange={setSequenceSeconds}
+          format={(v) => `${v}s`}
+        />
+        <div className="flex items-center gap-2 mt-2">
+          {isExporting ? (
+            <button onClick={() => abortRef.current?.abort()} className={buttonClass}>
+              <X size={12} /> Cancel
+            </button>
+          ) : (
+            <button onClick={exportSequence} disabled={recordingSince !== null} className={buttonClass}>
+              <Film size={12} /> Export {sequenceFrames} PNGs
+            </button>
+          )}
+          <select
+            value={sequenceFps}
+            onChange={(e) => setSequenceFps(parseInt(e.target.value))}
+            disabled={isExporting}
+            className={selectClass}
+          >
+            {[24, 30, 60].map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+          </select>
+          {isExporting && (
+            <span className="ml-auto text-[11px] tabular-nums text-white/50">{progress} / {sequenceFrames}</span>
+          )}
+        </div>
+        {isExporting && (
+          <div className="h-1 mt-2 rounded bg-white/10 overflow-hidden">
+            <div className="h-full bg-cyan-400" style={{ width: `${(progress! / sequenceFrames) * 100}%` }} />
+          </div>
+        )}
+        <p className="text-[11px] text-white/40 mt-1.5">
+          Steps the simulation at exactly 1/{sequenceFps}s per frame, independent of render speed. Saved as a ZIP.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default CapturePanel;
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { useStore } from '../store';
+import { collabClient, CollabState } from '../services/collab';
+import { Crown, Lock, Unlock, Users, X } from 'lucide-react';
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1 rounded-lg text-xs bg-white/5 text-white/70 hover:bg-white/10 disabled:opacity-40';
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-xs focus:outline-none focus:border-cyan-500/50';
+
+const STATUS_LABELS: Record<CollabState['status'], string> = {
+  offline: 'Not connected',
+  connecting: 'Connecting...',
+  online: 'Connected',
+};
+
+// Joins a relay room, lists participants and handles the presenter lock
+const CollabPanel: React.FC = () => {
+  const [state, setState] = useState<CollabState>(collabClient.state);
+  const settings = useStore(state => state.collabSettings);
+  const setCollabSettings = useStore(state => state.setCollabSettings);
+
+  useEffect(() => collabClient.subscribe(setState), []);
+
+  const connected = state.status !== 'offline';
+  const presenter = state.peers.find(p => p.id === state.presenter);
+  const isPresenter = state.presenter !== null && state.presenter === state.selfId;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-[11px] text-white/40">
+        Share hands and settings with others on the same network. Start the relay with <code>npm run relay</code> on
+        one machine, then join the same room from every browser.
+      </p>
+
+      <label className="block space-y-1">
+        <span className="text-[10px] text-white/40 uppercase tracking-wider">Relay room</span>
+        <input
+          type="text"
+          value={settings.url}
+          disabled={connected}
+          onChange={(e) => setCollabSettings({ url: e.target.value })}
+          className={`${inputClass} font-mono disabled:opacity-50`}
+        />
+      </label>
+      <label className="block space-y-1">
+        <span className="text-[10px] text-white/40 uppercase tracking-wider">Your name</span>
+        <input
+          type="text"
+          value={settings.name}
+          disabled={connected}
+          onChange={(e) => setCollabSettings({ name: e.target.value })}
+          placeholder="Shown to the others"
+          className={`${inputClass} disabled:opacity-50`}
+        />
+      </label>
+
+      <div className="flex items-center gap-2">
+        {connected ? (
+          <button onClick={() => collabClient.disconnect()} className={buttonClass}>
+            <X size={12} /> Leave
+          </button>
+        ) : (
+          <button onClick={() => collabClient.connect(settings)} disabled={!settings.url.trim()} className={buttonClass}>
+            <Users size={12} /> Join
+          </button>
+        )}
+        <span className={`text-[11px] ${state.status === 'online' ? 'text-emerald-300' : 'text-white/40'}`}>
+          {STATUS_LABELS[state.status]}
+        </span>
+      </div>
+
+      {state.status === 'online' && (
+        <>
+          <div>
+            <div className="text-[10px] text-white/40 uppercase tracking-wider mb-2">Participants</div>
+            <ul className="space-y-1">
+              {state.peers.map(peer => (
+                <li key={peer.id} className="flex items-center gap-2 bg-white/5 rounded-lg px-2 py-1.5 text-xs text-white/80">
+                  <span className="w-3 h-3 rounded-full shrink-0" style={{ background: peer.color }} />
+                  <span className="flex-1 truncate">
+                    {peer.name}
+                    {peer.id === state.selfId && <span className="text-white/40"> (you)</span>}
+                  </span>
+                  {peer.id === state.presenter && <Crown size={12} className="text-amber-300" />}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="space-y-1">
+            <button
+              onClick={() => collabClient.setPresenter(!isPresenter)}
+              disabled={state.presenter !== null && !isPresenter}
+              className={buttonClass}
+            >
+              {isPresenter ? <><Unlock size={12} /> Release control</> : <><Lock size={12} /> Take control</>}
+            </button>
+            <p className="text-[11px] text-white/40">
+              {presenter
+                ? isPresenter
+                  ? 'Only you can change the settings; everyone still moves the particles.'
+                  : `${presenter.name} is presenting. Your setting changes stay on this screen until they release control.`
+                : 'Anyone can change the settings; the latest change wins.'}
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CollabPanel;
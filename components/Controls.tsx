@@ -1,14 +1,63 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { useStore } from '../store';
-import { generateParticleConfig } from '../services/gemini';
+import { GenerationCancelledError, generateConfig } from '../services/aiProvider';
+import { recordGeneration } from '../services/presets';
+import { layerContext } from '../services/layers';
 import { Sparkles, Loader2, AlertCircle, Settings2, X } from 'lucide-react';
+import ShapePicker from './ShapePicker';
+import GestureTrainer from './GestureTrainer';
+import BindingsPanel from './BindingsPanel';
+import TrackingPanel from './TrackingPanel';
+import SessionPanel from './SessionPanel';
+import AudioPanel from './AudioPanel';
+import PresetsPanel from './PresetsPanel';
+import TimelinePanel from './TimelinePanel';
+import CapturePanel from './CapturePanel';
+import ParameterPanel from './ParameterPanel';
+import DirectorPanel from './DirectorPanel';
+import AiSettingsPanel from './AiSettingsPanel';
+import PerformancePanel from './PerformancePanel';
+import CameraPanel from './CameraPanel';
+import LayersPanel from './LayersPanel';
+import CollabPanel from './CollabPanel';
+import ForcesPanel from './ForcesPanel';
+import DiagnosticsPanel from './DiagnosticsPanel';
+
+type Tab = 'create' | 'layers' | 'director' | 'params' | 'forces' | 'presets' | 'timeline' | 'camera' | 'export' | 'gestures' | 'bindings' | 'tracking' | 'diagnostics' | 'session' | 'collab' | 'audio' | 'perf' | 'ai';
+
+const TABS: { id: Tab; label: string }[] = [
+  { id: 'create', label: 'Create' },
+  { id: 'layers', label: 'Layers' },
+  { id: 'director', label: 'Director' },
+  { id: 'params', label: 'Params' },
+  { id: 'forces', label: 'Forces' },
+  { id: 'presets', label: 'Presets' },
+  { id: 'timeline', label: 'Timeline' },
+  { id: 'camera', label: 'Camera' },
+  { id: 'export', label: 'Export' },
+  { id: 'gestures', label: 'Gestures' },
+  { id: 'bindings', label: 'Bindings' },
+  { id: 'tracking', label: 'Input' },
+  { id: 'diagnostics', label: 'Hands' },
+  { id: 'session', label: 'Session' },
+  { id: 'collab', label: 'Collab' },
+  { id: 'audio', label: 'Audio' },
+  { id: 'perf', label: 'Perf' },
+  { id: 'ai', label: 'AI' }
+];
 
 const Controls: React.FC = () => {
   const [prompt, setPrompt] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isOpen, setIsOpen] = useState(true);
+  const [tab, setTab] = useState<Tab>('create');
+  // Submitting again cancels the previous request; only the latest clears the spinner
+  const requestId = useRef(0);
   
   const setConfig = useStore(state => state.setConfig);
+  const layers = useStore(state => state.layers);
+  const selectedLayerId = useStore(state => state.selectedLayerId);
+  const selectLayer = useStore(state => state.selectLayer);
   const error = useStore(state => state.error);
   const setError = useStore(state => state.setError);
 
@@ -16,17 +65,24 @@ const Controls: React.FC = () => {
     e.preventDefault();
     if (!prompt.trim()) return;
 
+    const id = ++requestId.current;
     setIsLoading(true);
     setError(null);
 
+    // The theme lands on the layer that was selected when the prompt was sent
+    const targetId = selectedLayerId;
     try {
-      const newConfig = await generateParticleConfig(prompt);
+      const newConfig = await generateConfig(prompt, layerContext(layers, targetId));
+      if (!useStore.getState().layers.some(layer => layer.id === targetId)) return;
+      selectLayer(targetId);
       setConfig(newConfig);
+      recordGeneration(prompt);
       setPrompt('');
     } catch (err) {
-      setError("Failed to generate config. Check API Key or try again.");
+      if (err instanceof GenerationCancelledError) return;
+      setError(`Failed to generate config: ${(err as Error).message}`);
     } finally {
-      setIsLoading(false);
+      if (id === requestId.current) setIsLoading(false);
     }
   };
 
@@ -43,7 +99,7 @@ const Controls: React.FC = () => {
 
   return (
     <div className="absolute top-4 left-4 z-50 w-80 max-w-[90vw]">
-      <div className="bg-black/80 backdrop-blur-xl border border-white/10 rounded-2xl p-4 shadow-2xl text-white">
+      <div className="bg-black/80 backdrop-blur-xl border border-white/10 rounded-2xl p-4 shadow-2xl text-white max-h-[90vh] overflow-y-auto">
         <div className="flex justify-between items-center mb-4">
           <div className="flex items-center gap-2">
             <Sparkles className="text-cyan-400" size={20} />
@@ -57,27 +113,77 @@ const Controls: React.FC = () => {
           </button>
         </div>
 
-        <p className="text-sm text-white/60 mb-4 leading-relaxed">
-          Wave your hand to interact. Describe a mood or theme below to reshape the universe with Gemini.
-        </p>
-
-        <form onSubmit={handleSubmit} className="relative">
-          <input
-            type="text"
-            value={prompt}
-            onChange={(e) => setPrompt(e.target.value)}
-            placeholder="e.g. 'Cyberpunk Rain' or 'Mars Dust'"
-            className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-cyan-500/50 focus:ring-1 focus:ring-cyan-500/50 transition-all placeholder:text-white/20"
-            disabled={isLoading}
-          />
-          <button
-            type="submit"
-            disabled={isLoading || !prompt.trim()}
-            className="absolute right-2 top-2 p-1.5 bg-cyan-500/10 text-cyan-400 rounded-lg hover:bg-cyan-500/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            {isLoading ? <Loader2 className="animate-spin" size={16} /> : <Sparkles size={16} />}
-          </button>
-        </form>
+        <div className="flex flex-wrap gap-1 mb-4 border-b border-white/10">
+          {TABS.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTab(t.id)}
+              className={`px-3 py-1.5 text-xs uppercase tracking-wider border-b-2 -mb-px transition-colors ${
+                tab === t.id ? 'border-cyan-400 text-white' : 'border-transparent text-white/40 hover:text-white/70'
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'create' && (
+          <>
+            <p className="text-sm text-white/60 mb-4 leading-relaxed">
+              Wave your hand to interact. Describe a mood or theme below to reshape the universe with Gemini.
+            </p>
+
+            {layers.length > 1 && (
+              <label className="flex items-center gap-2 mb-2 text-[11px] text-white/50">
+                Apply to
+                <select
+                  value={selectedLayerId}
+                  onChange={(e) => selectLayer(e.target.value)}
+                  className="flex-1 bg-white/5 border border-white/10 rounded-md px-1.5 py-1 text-[11px] focus:outline-none focus:border-cyan-500/50"
+                >
+                  {layers.map(layer => <option key={layer.id} value={layer.id}>{layer.name}</option>)}
+                </select>
+              </label>
+            )}
+
+            <form onSubmit={handleSubmit} className="relative">
+              <input
+                type="text"
+                value={prompt}
+                onChange={(e) => setPrompt(e.target.value)}
+                placeholder="e.g. 'Cyberpunk Rain' or 'Mars Dust'"
+                className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-cyan-500/50 focus:ring-1 focus:ring-cyan-500/50 transition-all placeholder:text-white/20"
+              />
+              <button
+                type="submit"
+                disabled={!prompt.trim()}
+                className="absolute right-2 top-2 p-1.5 bg-cyan-500/10 text-cyan-400 rounded-lg hover:bg-cyan-500/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isLoading ? <Loader2 className="animate-spin" size={16} /> : <Sparkles size={16} />}
+              </button>
+            </form>
+
+            <ShapePicker />
+          </>
+        )}
+
+        {tab === 'layers' && <LayersPanel />}
+        {tab === 'director' && <DirectorPanel />}
+        {tab === 'params' && <ParameterPanel />}
+        {tab === 'forces' && <ForcesPanel />}
+        {tab === 'presets' && <PresetsPanel />}
+        {tab === 'timeline' && <TimelinePanel />}
+        {tab === 'camera' && <CameraPanel />}
+        {tab === 'export' && <CapturePanel />}
+        {tab === 'gestures' && <GestureTrainer />}
+        {tab === 'bindings' && <BindingsPanel />}
+        {tab === 'tracking' && <TrackingPanel />}
+        {tab === 'diagnostics' && <DiagnosticsPanel />}
+        {tab === 'session' && <SessionPanel />}
+        {tab === 'collab' && <CollabPanel />}
+        {tab === 'audio' && <AudioPanel />}
+        {tab === 'perf' && <PerformancePanel />}
+        {tab === 'ai' && <AiSettingsPanel />}
 
         {error && (
           <div className="mt-3 p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-start gap-2 text-xs text-red-200">
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { useStore } from '../store';
+import { FINGERS } from '../input/gestures';
+import { DEFAULT_CALIBRATION, HandCalibration } from '../input/handPipeline';
+import { TrackingStats, trackingDiagnostics } from '../input/diagnostics';
+import { Crosshair, RotateCcw, X } from 'lucide-react';
+import Slider from './Slider';
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1 rounded-lg text-xs bg-white/5 text-white/70 hover:bg-white/10 disabled:opacity-40';
+
+const RANGES: { key: 'x' | 'y'; label: string }[] = [
+  { key: 'x', label: 'Horizontal' },
+  { key: 'y', label: 'Vertical' },
+];
+
+// What the tracker sees, and the reach calibration that maps it onto the scene
+const DiagnosticsPanel: React.FC = () => {
+  const [stats, setStats] = useState<TrackingStats>(trackingDiagnostics.stats);
+  const inputSource = useStore(state => state.inputSource);
+  const settings = useStore(state => state.diagnosticsSettings);
+  const setSettings = useStore(state => state.setDiagnosticsSettings);
+  const calibration = useStore(state => state.handCalibration);
+  const setCalibration = useStore(state => state.setHandCalibration);
+
+  useEffect(() => trackingDiagnostics.subscribe(setStats), []);
+
+  const setRange = (key: 'x' | 'y', end: 0 | 1, value: number) => {
+    const range = [...calibration[key]] as HandCalibration['x'];
+    range[end] = value;
+    // Keep the range from collapsing or flipping
+    if (range[1] - range[0] < 0.05) return;
+    setCalibration({ [key]: range });
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-[11px] text-white/70">
+        <input type="checkbox" checked={settings.skeleton} onChange={(e) => setSettings({ skeleton: e.target.checked })} className="accent-cyan-400" />
+        Draw the skeleton on the camera preview
+      </label>
+      <label className="flex items-center gap-2 text-[11px] text-white/70">
+        <input type="checkbox" checked={settings.ghostHand} onChange={(e) => setSettings({ ghostHand: e.target.checked })} className="accent-cyan-400" />
+        Show a ghost hand in the scene
+      </label>
+
+      <div className="text-[10px] text-white/40 uppercase tracking-wider pt-2">Tracking</div>
+      {inputSource !== 'webcam' ? (
+        <p className="text-[11px] text-white/40">Tracking numbers come from the webcam. Switch the input source to Webcam to see them.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-1 text-[11px] text-white/60">
+            <span>Tracking FPS</span>
+            <span className="text-right font-mono">{stats.fps.toFixed(0)}</span>
+            <span>Inference</span>
+            <span className="text-right font-mono">{stats.inferenceMs.toFixed(1)} ms</span>
+            <span>Running on</span>
+            <span className="text-right font-mono">{stats.delegate ?? '…'}</span>
+          </div>
+          {stats.hands.length === 0 && <p className="text-[11px] text-white/40">No hands in view.</p>}
+          {stats.hands.map((hand, i) => (
+            <div key={i} className="rounded-lg bg-white/5 px-2 py-1.5 space-y-1">
+              <div className="flex justify-between text-[11px] text-white/70">
+                <span>{hand.handedness} hand</span>
+                <span className="font-mono">{(hand.score * 100).toFixed(0)}%</span>
+              </div>
+              <div className="flex gap-1">
+                {FINGERS.map(finger => (
+                  <span
+                    key={finger}
+                    className={`flex-1 text-center rounded px-1 py-0.5 text-[10px] ${
+                      hand.folded[finger] ? 'bg-amber-500/20 text-amber-300' : 'bg-cyan-500/20 text-cyan-300'
+                    }`}
+                    title={hand.folded[finger] ? 'Folded' : 'Extended'}
+                  >
+                    {finger}
+                  </span>
+                ))}
+              </div>
+              <div className="flex justify-between text-[11px] text-white/50">
+                <span>{hand.gesture ?? 'No gesture'}</span>
+                <span className="font-mono">pinch {hand.pinchStrength.toFixed(2)}</span>
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+
+      <div className="text-[10px] text-white/40 uppercase tracking-wider pt-2">Calibration</div>
+      <p className="text-[11px] text-white/40">
+        Start a sweep, then trace the edges of your comfortable reach with your index finger, moving it toward and away from the camera too.
+      </p>
+      <div className="flex items-center gap-2">
+        {stats.calibrating !== null ? (
+          <button onClick={() => trackingDiagnostics.cancelCalibration()} className={buttonClass}>
+            <X size={12} /> Cancel ({Math.ceil(stats.calibrating)}s)
+          </button>
+        ) : (
+          <button onClick={() => trackingDiagnostics.startCalibration()} disabled={inputSource !== 'webcam'} className={buttonClass}>
+            <Crosshair size={12} /> Calibrate reach
+          </button>
+        )}
+        <button onClick={() => setCalibration(DEFAULT_CALIBRATION)} className={buttonClass}>
+          <RotateCcw size={12} /> Reset
+        </button>
+      </div>
+      {RANGES.map(({ key, label }) => (
+        <React.Fragment key={key}>
+          <Slider label={`${label} from`} value={calibration[key][0]} min={0} max={1} step={0.01} onChange={(v) => setRange(key, 0, v)} format={(v) => v.toFixed(2)} />
+          <Slider label={`${label} to`} value={calibration[key][1]} min={0} max={1} step={0.01} onChange={(v) => setRange(key, 1, v)} format={(v) => v.toFixed(2)} />
+        </React.Fragment>
+      ))}
+      <Slider
+        label="Depth scale"
+        value={calibration.depthScale}
+        min={5}
+        max={60}
+        step={1}
+        onChange={(depthScale) => setCalibration({ depthScale })}
+        format={(v) => v.toFixed(0)}
+      />
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
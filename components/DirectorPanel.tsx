@@ -0,0 +1,121 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ParticleConfig, useStore } from '../store';
+import { DirectorTurn, restoreDirectorTurn, sendDirectorMessage, undoDirectorTurn } from '../services/director';
+import { GenerationCancelledError } from '../services/aiProvider';
+import { Loader2, Send, Trash2, Undo2 } from 'lucide-react';
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1 rounded-lg text-xs bg-white/5 text-white/70 hover:bg-white/10 disabled:opacity-40';
+
+const formatValue = (value: unknown) =>
+  typeof value === 'number' ? String(Number(value.toFixed(2))) : String(value);
+
+const ChangeList: React.FC<{ turn: DirectorTurn }> = ({ turn }) => {
+  const keys = Object.keys(turn.changes) as (keyof ParticleConfig)[];
+  if (keys.length === 0) return <div className="text-[10px] text-white/30">No changes</div>;
+  return (
+    <div className="flex flex-wrap gap-1">
+      {keys.map(key => (
+        <span key={key} className="text-[10px] bg-white/5 rounded px-1.5 py-0.5 text-white/60 tabular-nums">
+          {key} {formatValue(turn.before[key])} → {formatValue(turn.after[key])}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+const DirectorPanel: React.FC = () => {
+  const [message, setMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const turns = useStore(state => state.directorTurns);
+  const setTurns = useStore(state => state.setDirectorTurns);
+  const setError = useStore(state => state.setError);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [turns.length, isSending]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!message.trim() || isSending) return;
+
+    setIsSending(true);
+    setError(null);
+    try {
+      await sendDirectorMessage(message.trim());
+      setMessage('');
+    } catch (err) {
+      if (!(err instanceof GenerationCancelledError)) {
+        setError(`The director did not respond: ${(err as Error).message}`);
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div ref={listRef} className="max-h-72 overflow-y-auto space-y-3 pr-1">
+        {turns.length === 0 && (
+          <p className="text-sm text-white/60 leading-relaxed">
+            Refine the scene step by step: "a bit slower", "more orange, fewer particles".
+          </p>
+        )}
+        {turns.map(turn => (
+          <div key={turn.id} className={`space-y-1.5 ${turn.undone ? 'opacity-40' : ''}`}>
+            <div className="ml-8 bg-cyan-500/10 border border-cyan-500/20 rounded-lg px-2.5 py-1.5 text-xs text-white/90">
+              {turn.message}
+            </div>
+            <div className="mr-8 bg-white/5 rounded-lg px-2.5 py-1.5 space-y-1.5">
+              <div className="text-xs text-white/70">{turn.reply}</div>
+              <ChangeList turn={turn} />
+              <div className="flex gap-3 text-[10px] uppercase tracking-wider">
+                <button onClick={() => restoreDirectorTurn(turn.id, 'before')} className="text-white/40 hover:text-white/80">
+                  Before
+                </button>
+                <button onClick={() => restoreDirectorTurn(turn.id, 'after')} className="text-white/40 hover:text-white/80">
+                  After
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+        {isSending && (
+          <div className="mr-8 flex items-center gap-2 text-xs text-white/40">
+            <Loader2 className="animate-spin" size={12} /> Thinking...
+          </div>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="relative">
+        <input
+          type="text"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder="e.g. 'a bit slower'"
+          disabled={isSending}
+          className="w-full bg-white/5 border border-white/10 rounded-xl pl-3 pr-10 py-2 text-sm focus:outline-none focus:border-cyan-500/50 placeholder:text-white/20"
+        />
+        <button
+          type="submit"
+          disabled={isSending || !message.trim()}
+          className="absolute right-2 top-1.5 p-1.5 bg-cyan-500/10 text-cyan-400 rounded-lg hover:bg-cyan-500/20 disabled:opacity-50"
+        >
+          <Send size={14} />
+        </button>
+      </form>
+
+      <div className="flex items-center gap-2">
+        <button onClick={undoDirectorTurn} disabled={!turns.some(t => !t.undone)} className={buttonClass}>
+          <Undo2 size={12} /> Undo
+        </button>
+        <button onClick={() => setTurns([])} disabled={turns.length === 0} className={buttonClass}>
+          <Trash2 size={12} /> Clear chat
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DirectorPanel;
@@ -0,0 +1,131 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { HandGesture, useStore } from '../store';
+import { createForce, ForceObject, MAX_FORCES } from '../services/forces';
+import { sceneCapture } from '../services/capture';
+
+const Y_AXIS = new THREE.Vector3(0, 1, 0);
+const Z_AXIS = new THREE.Vector3(0, 0, 1);
+
+const ATTRACT_COLOR = '#fbbf24';
+const REPEL_COLOR = '#f87171';
+const FLOW_COLOR = '#67e8f9';
+const COLLIDER_COLOR = '#a3a3a3';
+
+const gizmoMaterial = (color: string, opacity: number) => (
+  <meshBasicMaterial color={color} wireframe transparent opacity={opacity} depthWrite={false} />
+);
+
+// Rotation taking `from` onto the force's (normalized) direction
+const orientation = (direction: ForceObject['direction'], from: THREE.Vector3) => {
+  const dir = new THREE.Vector3().fromArray(direction);
+  if (dir.lengthSq() === 0) dir.copy(from);
+  return new THREE.Quaternion().setFromUnitVectors(from, dir.normalize());
+};
+
+const ForceGizmo: React.FC<{ force: ForceObject }> = ({ force }) => {
+  const toZ = useMemo(() => orientation(force.direction, Z_AXIS), [force.direction]);
+  const toY = useMemo(() => orientation(force.direction, Y_AXIS), [force.direction]);
+  const dimmed = force.enabled ? 1 : 0.3;
+
+  switch (force.kind) {
+    case 'attractor':
+    case 'gravity': {
+      const color = force.strength >= 0 ? ATTRACT_COLOR : REPEL_COLOR;
+      return (
+        <group position={force.position}>
+          <mesh>
+            <sphereGeometry args={[0.15, 12, 8]} />
+            {gizmoMaterial(color, 0.8 * dimmed)}
+          </mesh>
+          {force.radius > 0 && (
+            <mesh>
+              <sphereGeometry args={[force.radius, 16, 12]} />
+              {gizmoMaterial(color, 0.08 * dimmed)}
+            </mesh>
+          )}
+        </group>
+      );
+    }
+    case 'vortex':
+      return (
+        <group position={force.position} quaternion={toZ}>
+          <mesh>
+            <torusGeometry args={[Math.max(force.radius, 1) * 0.5, 0.02, 6, 32]} />
+            {gizmoMaterial(FLOW_COLOR, 0.6 * dimmed)}
+          </mesh>
+          <mesh rotation={[Math.PI / 2, 0, 0]}>
+            <cylinderGeometry args={[0.02, 0.02, 3, 6]} />
+            {gizmoMaterial(FLOW_COLOR, 0.4 * dimmed)}
+          </mesh>
+        </group>
+      );
+    case 'wind':
+      return (
+        <group position={force.position} quaternion={toY}>
+          <mesh position={[0, 0.5, 0]}>
+            <cylinderGeometry args={[0.02, 0.02, 1, 6]} />
+            {gizmoMaterial(FLOW_COLOR, 0.6 * dimmed)}
+          </mesh>
+          <mesh position={[0, 1.1, 0]}>
+            <coneGeometry args={[0.1, 0.25, 8]} />
+            {gizmoMaterial(FLOW_COLOR, 0.6 * dimmed)}
+          </mesh>
+        </group>
+      );
+    case 'plane':
+      return (
+        <mesh position={force.position} quaternion={toZ}>
+          <planeGeometry args={[8, 8, 8, 8]} />
+          {gizmoMaterial(COLLIDER_COLOR, 0.15 * dimmed)}
+        </mesh>
+      );
+    case 'sphere':
+      return (
+        <mesh position={force.position}>
+          <sphereGeometry args={[force.radius, 20, 14]} />
+          {gizmoMaterial(COLLIDER_COLOR, 0.2 * dimmed)}
+        </mesh>
+      );
+  }
+};
+
+// Draws the force objects and drops a new one where the primary hand pinches
+const ForceFields: React.FC = () => {
+  const groupRef = useRef<THREE.Group>(null);
+  const previousGesture = useRef<HandGesture>(null);
+  const forces = useStore(state => state.forces);
+  const showGizmos = useStore(state => state.showForceGizmos);
+
+  // Stills render without running a frame, so hide the moment an export starts
+  useEffect(() => sceneCapture.subscribe(exporting => {
+    if (groupRef.current) groupRef.current.visible = useStore.getState().showForceGizmos && !exporting;
+  }), []);
+
+  useFrame(() => {
+    // Gizmos are for editing; they never end up in an export
+    if (groupRef.current) groupRef.current.visible = showGizmos && !sceneCapture.isExporting;
+
+    const { hands, placingForce, forces, setForces, setPlacingForce } = useStore.getState();
+    const hand = hands[0];
+    const gesture = hand?.gesture ?? null;
+    const pinched = gesture === 'PINCH' && previousGesture.current !== 'PINCH';
+    previousGesture.current = gesture;
+    if (!placingForce || !pinched || forces.length >= MAX_FORCES) return;
+
+    const force = createForce(placingForce, hand.position.toArray() as ForceObject['position']);
+    // A level plane only takes the pinch height; centering it keeps the gizmo under the shape
+    if (placingForce === 'plane') force.position[0] = force.position[2] = 0;
+    setForces([...forces, force]);
+    setPlacingForce(null);
+  });
+
+  return (
+    <group ref={groupRef}>
+      {forces.map(force => <ForceGizmo key={force.id} force={force} />)}
+    </group>
+  );
+};
+
+export default ForceFields;
@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { useStore } from '../store';
+import { createForce, FORCE_KINDS, FORCE_LABELS, FORCE_USES, ForceKind, ForceObject, isCollider, MAX_FORCES } from '../services/forces';
+import { Eye, EyeOff, Hand, Plus, Trash2, X } from 'lucide-react';
+import Slider from './Slider';
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1 rounded-lg text-xs bg-white/5 text-white/70 hover:bg-white/10 disabled:opacity-40';
+const iconClass = 'text-white/30 hover:text-white/80 shrink-0';
+
+const AXES = ['X', 'Y', 'Z'];
+
+const KIND_HINTS: Record<ForceKind, string> = {
+  attractor: 'Pulls particles within its radius toward it; negative strength pushes them away.',
+  gravity: 'Pulls from any distance, weaker farther out. With falloff 2 it is an inverse-square well.',
+  vortex: 'Spins particles around a line through it, along the direction.',
+  wind: 'Blows particles along the direction in gusts. Radius 0 reaches the whole scene.',
+  plane: 'Particles bounce off the side the direction points to.',
+  sphere: 'Particles bounce off the outside of the sphere.',
+};
+
+// Force objects: pick a kind, drop it with a pinch (or at the center), then tweak it
+const ForcesPanel: React.FC = () => {
+  const [kind, setKind] = useState<ForceKind>('attractor');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const forces = useStore(state => state.forces);
+  const setForces = useStore(state => state.setForces);
+  const placingForce = useStore(state => state.placingForce);
+  const setPlacingForce = useStore(state => state.setPlacingForce);
+  const showGizmos = useStore(state => state.showForceGizmos);
+  const setShowGizmos = useStore(state => state.setShowForceGizmos);
+
+  const selected = forces.find(force => force.id === selectedId) ?? forces[forces.length - 1];
+  const full = forces.length >= MAX_FORCES;
+
+  const update = (id: string, patch: Partial<ForceObject>) =>
+    setForces(forces.map(force => (force.id === id ? { ...force, ...patch } : force)));
+
+  const remove = (id: string) => setForces(forces.filter(force => force.id !== id));
+
+  const addAtCenter = () => {
+    const force = createForce(kind, [0, 0, 0]);
+    setForces([...forces, force]);
+    setSelectedId(force.id);
+  };
+
+  const setVector = (key: 'position' | 'direction', axis: number, value: number) =>
+    update(selected.id, { [key]: selected[key].map((v, i) => (i === axis ? value : v)) as ForceObject['position'] });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-1">
+        {FORCE_KINDS.map(k => (
+          <button
+            key={k}
+            onClick={() => setKind(k)}
+            className={`px-2 py-1 rounded-lg text-[11px] border transition-colors ${
+              kind === k
+                ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300'
+                : 'bg-white/5 border-white/10 text-white/60 hover:bg-white/10'
+            }`}
+          >
+            {FORCE_LABELS[k]}
+          </button>
+        ))}
+      </div>
+      <p className="text-[11px] text-white/40">{KIND_HINTS[kind]}</p>
+
+      <div className="flex items-center gap-2">
+        {placingForce ? (
+          <button onClick={() => setPlacingForce(null)} className={buttonClass}>
+            <X size={12} /> Cancel
+          </button>
+        ) : (
+          <button onClick={() => setPlacingForce(kind)} disabled={full} className={buttonClass}>
+            <Hand size={12} /> Place with pinch
+          </button>
+        )}
+        <button onClick={addAtCenter} disabled={full} className={buttonClass}>
+          <Plus size={12} /> Add at center
+        </button>
+      </div>
+      {placingForce && (
+        <p className="text-[11px] text-cyan-300/80">Pinch to drop a {FORCE_LABELS[placingForce].toLowerCase()} at your fingertip.</p>
+      )}
+
+      <label className="flex items-center gap-2 text-[11px] text-white/70">
+        <input type="checkbox" checked={showGizmos} onChange={(e) => setShowGizmos(e.target.checked)} className="accent-cyan-400" />
+        Show force objects in the scene
+      </label>
+
+      {forces.length > 0 && (
+        <ul className="space-y-1">
+          {forces.map(force => (
+            <li
+              key={force.id}
+              className={`flex items-center gap-2 rounded-lg px-2 py-1.5 border ${
+                force.id === selected?.id ? 'bg-cyan-500/10 border-cyan-500/40' : 'bg-white/5 border-transparent'
+              }`}
+            >
+              <button
+                onClick={() => setSelectedId(force.id)}
+                className={`flex-1 min-w-0 text-left text-xs truncate ${force.enabled ? 'text-white/80' : 'text-white/30'} hover:text-white`}
+              >
+                {FORCE_LABELS[force.kind]}
+              </button>
+              <button onClick={() => update(force.id, { enabled: !force.enabled })} className={iconClass} title="Enable / disable">
+                {force.enabled ? <Eye size={12} /> : <EyeOff size={12} />}
+              </button>
+              <button onClick={() => remove(force.id)} className={`${iconClass} hover:text-red-300`} title="Delete">
+                <Trash2 size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selected && (
+        <div className="space-y-2">
+          <div className="text-[10px] text-white/40 uppercase tracking-wider pt-2">{FORCE_LABELS[selected.kind]}</div>
+          {AXES.map((axis, i) => (
+            <Slider
+              key={`position-${axis}`}
+              label={`Position ${axis}`}
+              value={selected.position[i]}
+              min={-8}
+              max={8}
+              step={0.1}
+              onChange={(v) => setVector('position', i, v)}
+              format={(v) => v.toFixed(1)}
+            />
+          ))}
+          {FORCE_USES[selected.kind].direction && AXES.map((axis, i) => (
+            <Slider
+              key={`direction-${axis}`}
+              label={`Direction ${axis}`}
+              value={selected.direction[i]}
+              min={-1}
+              max={1}
+              step={0.05}
+              onChange={(v) => setVector('direction', i, v)}
+              format={(v) => v.toFixed(2)}
+            />
+          ))}
+          {isCollider(selected.kind) ? (
+            <Slider
+              label="Bounce"
+              value={selected.strength}
+              min={0}
+              max={1}
+              step={0.05}
+              onChange={(strength) => update(selected.id, { strength })}
+              format={(v) => v.toFixed(2)}
+            />
+          ) : (
+            <Slider
+              label="Strength"
+              value={selected.strength}
+              min={-30}
+              max={30}
+              step={0.5}
+              onChange={(strength) => update(selected.id, { strength })}
+              format={(v) => v.toFixed(1)}
+            />
+          )}
+          {FORCE_USES[selected.kind].radius && (
+            <Slider
+              label="Radius"
+              value={selected.radius}
+              min={selected.kind === 'sphere' ? 0.2 : 0}
+              max={10}
+              step={0.1}
+              onChange={(radius) => update(selected.id, { radius })}
+              format={(v) => (v === 0 ? '∞' : v.toFixed(1))}
+            />
+          )}
+          {FORCE_USES[selected.kind].falloff && (
+            <Slider
+              label="Falloff"
+              value={selected.falloff}
+              min={0}
+              max={4}
+              step={0.1}
+              onChange={(falloff) => update(selected.id, { falloff })}
+              format={(v) => v.toFixed(1)}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ForcesPanel;
@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useStore } from '../store';
+import { extractFeatures, GestureSample } from '../input/gestures';
+import { Circle, Trash2 } from 'lucide-react';
+
+const SAMPLES_PER_RECORDING = 8;
+const SAMPLE_INTERVAL_MS = 200;
+// Gives up when the hand stays out of view this long, instead of waiting forever
+const RECORDING_TIMEOUT_MS = 10000;
+
+const GestureTrainer: React.FC = () => {
+  const [label, setLabel] = useState('');
+  const [recorded, setRecorded] = useState<number | null>(null);
+  const timerRef = useRef<number | null>(null);
+
+  const hands = useStore(state => state.hands);
+  const gesture = hands[0]?.gesture ?? null;
+  const samples = useStore(state => state.customGestureSamples);
+  const setSamples = useStore(state => state.setCustomGestureSamples);
+  const setError = useStore(state => state.setError);
+
+  const labels = Array.from(new Set(samples.map(s => s.label)));
+  const isRecording = recorded !== null;
+
+  useEffect(() => () => {
+    if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+  }, []);
+
+  // Captures a short burst of the primary hand's pose while the user holds it
+  const record = () => {
+    const name = label.trim().replace(/\s+/g, '_');
+    if (!name || isRecording) return;
+    if (!useStore.getState().hands[0]) {
+      setError('Show your hand to the camera before recording a gesture.');
+      return;
+    }
+
+    const captured: GestureSample[] = [];
+    const deadline = performance.now() + RECORDING_TIMEOUT_MS;
+    setRecorded(0);
+
+    const capture = () => {
+      timerRef.current = null;
+      const hand = useStore.getState().hands[0];
+      if (hand) {
+        captured.push({ label: name, features: extractFeatures(hand.landmarks, hand.handedness === 'Left') });
+        setRecorded(captured.length);
+      }
+      if (captured.length < SAMPLES_PER_RECORDING) {
+        if (performance.now() > deadline) {
+          setRecorded(null);
+          setError('Lost sight of your hand, so the gesture was not saved. Keep it in view while recording.');
+          return;
+        }
+        timerRef.current = window.setTimeout(capture, SAMPLE_INTERVAL_MS);
+        return;
+      }
+      setSamples([...useStore.getState().customGestureSamples, ...captured]);
+      setRecorded(null);
+      setLabel('');
+    };
+
+    capture();
+  };
+
+  return (
+    <div>
+      <div className="text-[10px] text-white/40 uppercase tracking-wider mb-2">
+        Current: <span className="text-cyan-300 normal-case">{gesture ?? 'none'}</span>
+      </div>
+
+      <p className="text-xs text-white/50 mb-2 leading-relaxed">
+        Name a pose, hold it in front of the camera and record. It will be reported as <code>CUSTOM:name</code>.
+      </p>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="e.g. rock_on"
+          disabled={isRecording}
+          className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-xs focus:outline-none focus:border-cyan-500/50"
+        />
+        <button
+          onClick={record}
+          disabled={!label.trim() || isRecording}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs bg-red-500/10 text-red-300 border border-red-500/20 hover:bg-red-500/20 disabled:opacity-50"
+        >
+          <Circle size={10} className={isRecording ? 'fill-red-400 animate-pulse' : ''} />
+          {isRecording ? `${recorded}/${SAMPLES_PER_RECORDING}` : 'Record'}
+        </button>
+      </div>
+
+      {labels.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {labels.map(l => (
+            <li key={l} className="flex items-center justify-between text-xs bg-white/5 rounded-lg px-3 py-1.5">
+              <span>
+                {l} <span className="text-white/30">({samples.filter(s => s.label === l).length})</span>
+              </span>
+              <button
+                onClick={() => setSamples(samples.filter(s => s.label !== l))}
+                className="text-white/40 hover:text-red-300"
+              >
+                <Trash2 size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default GestureTrainer;
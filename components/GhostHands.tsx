@@ -0,0 +1,63 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useStore } from '../store';
+import { FINGER_CHAINS, FINGERS, PALM_BONES } from '../input/gestures';
+import { toWorld } from '../input/handPipeline';
+import { sceneCapture } from '../services/capture';
+
+// Every bone as a pair of landmark indices: the palm, then each finger joint to joint
+const BONES: [number, number][] = [
+  ...PALM_BONES,
+  ...FINGERS.flatMap(finger => FINGER_CHAINS[finger].slice(1).map((to, i) => [FINGER_CHAINS[finger][i], to] as [number, number])),
+];
+const MAX_GHOST_HANDS = 2;
+
+// Traces the tracked hands' skeletons where the calibration puts them, to check the mapping against the particles
+const GhostHands: React.FC = () => {
+  const linesRef = useRef<THREE.LineSegments>(null);
+  const enabled = useStore(state => state.diagnosticsSettings.ghostHand);
+  const positions = useMemo(() => new Float32Array(MAX_GHOST_HANDS * BONES.length * 6), []);
+
+  // Stills render without running a frame, so hide the moment an export starts
+  useEffect(() => sceneCapture.subscribe(exporting => {
+    if (linesRef.current) linesRef.current.visible = !exporting;
+  }), []);
+
+  useFrame(() => {
+    const lines = linesRef.current;
+    if (!lines) return;
+    // A debugging aid; it never ends up in an export
+    lines.visible = !sceneCapture.isExporting;
+
+    const { hands, handCalibration } = useStore.getState();
+    const shown = hands.slice(0, MAX_GHOST_HANDS);
+    let offset = 0;
+    shown.forEach(hand => {
+      if (hand.landmarks.length < 21) return;
+      const points = hand.landmarks.map(l => toWorld(l, handCalibration));
+      BONES.forEach(([from, to]) => {
+        points[from].toArray(positions, offset);
+        points[to].toArray(positions, offset + 3);
+        offset += 6;
+      });
+    });
+
+    const geometry = lines.geometry;
+    geometry.setDrawRange(0, offset / 3);
+    geometry.attributes.position.needsUpdate = true;
+  });
+
+  if (!enabled) return null;
+
+  return (
+    <lineSegments ref={linesRef} frustumCulled={false}>
+      <bufferGeometry>
+        <bufferAttribute attach="attributes-position" args={[positions, 3]} usage={THREE.DynamicDrawUsage} />
+      </bufferGeometry>
+      <lineBasicMaterial color="#67e8f9" transparent opacity={0.6} depthWrite={false} />
+    </lineSegments>
+  );
+};
+
+export default GhostHands;
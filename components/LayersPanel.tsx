@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { useStore } from '../store';
+import { BLEND_MODES, BlendModeId, MAX_LAYERS, ParticleLayer } from '../services/layers';
+import { gradientCss, gradientStops } from '../simulation/palettes';
+import { ChevronDown, ChevronUp, Copy, Eye, EyeOff, Hand, Pencil, Plus, Trash2 } from 'lucide-react';
+import Slider from './Slider';
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1 rounded-lg text-xs bg-white/5 text-white/70 hover:bg-white/10 disabled:opacity-40';
+const iconClass = 'text-white/30 hover:text-white/80 shrink-0 disabled:opacity-30';
+const selectClass = 'bg-white/5 border border-white/10 rounded-md px-1.5 py-1 text-[11px] focus:outline-none focus:border-cyan-500/50';
+
+const AXES = ['X', 'Y', 'Z'];
+
+// Layer list (top of the list draws on top) plus the selected layer's transform and blending
+const LayersPanel: React.FC = () => {
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const layers = useStore(state => state.layers);
+  const selectedLayerId = useStore(state => state.selectedLayerId);
+  const selectLayer = useStore(state => state.selectLayer);
+  const addLayer = useStore(state => state.addLayer);
+  const removeLayer = useStore(state => state.removeLayer);
+  const moveLayer = useStore(state => state.moveLayer);
+  const updateLayer = useStore(state => state.updateLayer);
+
+  const selected = layers.find(layer => layer.id === selectedLayerId) ?? layers[0];
+
+  const commitRename = () => {
+    if (renaming && renaming.name.trim()) updateLayer(renaming.id, { name: renaming.name.trim() });
+    setRenaming(null);
+  };
+
+  const setPosition = (axis: number, value: number) =>
+    updateLayer(selected.id, { position: selected.position.map((v, i) => (i === axis ? value : v)) as ParticleLayer['position'] });
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-1">
+        {[...layers].reverse().map(layer => (
+          <li
+            key={layer.id}
+            className={`flex items-center gap-2 rounded-lg px-2 py-1.5 border ${
+              layer.id === selectedLayerId ? 'bg-cyan-500/10 border-cyan-500/40' : 'bg-white/5 border-transparent'
+            }`}
+          >
+            <span
+              className="w-4 h-4 rounded-full shrink-0 border border-white/10"
+              style={{ background: gradientCss(gradientStops(layer.config), 135) }}
+            />
+            {renaming?.id === layer.id ? (
+              <input
+                autoFocus
+                value={renaming.name}
+                onChange={(e) => setRenaming({ id: layer.id, name: e.target.value })}
+                onBlur={commitRename}
+                onKeyDown={(e) => e.key === 'Enter' && commitRename()}
+                className="flex-1 min-w-0 bg-transparent border-b border-cyan-500/50 text-xs focus:outline-none"
+              />
+            ) : (
+              <button
+                onClick={() => selectLayer(layer.id)}
+                className={`flex-1 min-w-0 text-left text-xs truncate ${layer.visible ? 'text-white/80' : 'text-white/30'} hover:text-white`}
+              >
+                {layer.name}
+              </button>
+            )}
+            <button onClick={() => setRenaming({ id: layer.id, name: layer.name })} className={iconClass} title="Rename">
+              <Pencil size={12} />
+            </button>
+            <button
+              onClick={() => updateLayer(layer.id, { interactive: !layer.interactive })}
+              className={`${iconClass} ${layer.interactive ? 'text-cyan-300/80' : ''}`}
+              title={layer.interactive ? 'Reacts to hands' : 'Ignores hands'}
+            >
+              <Hand size={12} />
+            </button>
+            <button onClick={() => updateLayer(layer.id, { visible: !layer.visible })} className={iconClass} title="Show / hide">
+              {layer.visible ? <Eye size={12} /> : <EyeOff size={12} />}
+            </button>
+            <button onClick={() => moveLayer(layer.id, 1)} className={iconClass} title="Move up">
+              <ChevronUp size={12} />
+            </button>
+            <button onClick={() => moveLayer(layer.id, -1)} className={iconClass} title="Move down">
+              <ChevronDown size={12} />
+            </button>
+            <button
+              onClick={() => removeLayer(layer.id)}
+              disabled={layers.length <= 1}
+              className={`${iconClass} hover:text-red-300`}
+              title="Delete layer"
+            >
+              <Trash2 size={12} />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center gap-2">
+        <button onClick={() => addLayer()} disabled={layers.length >= MAX_LAYERS} className={buttonClass}>
+          <Plus size={12} /> Add
+        </button>
+        <button onClick={() => addLayer(selected.config)} disabled={layers.length >= MAX_LAYERS} className={buttonClass}>
+          <Copy size={12} /> Duplicate
+        </button>
+      </div>
+
+      <div className="text-[10px] text-white/40 uppercase tracking-wider pt-2">{selected.name}</div>
+      <p className="text-[11px] text-white/40">The Create, Params and Presets tabs edit this layer.</p>
+
+      <label className="flex items-center gap-2 text-[11px] text-white/50">
+        <span className="flex-1">Blending</span>
+        <select
+          value={selected.blend}
+          onChange={(e) => updateLayer(selected.id, { blend: e.target.value as BlendModeId })}
+          className={selectClass}
+        >
+          {BLEND_MODES.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+        </select>
+      </label>
+
+      {AXES.map((axis, i) => (
+        <Slider
+          key={axis}
+          label={`Offset ${axis}`}
+          value={selected.position[i]}
+          min={-10}
+          max={10}
+          step={0.1}
+          onChange={(v) => setPosition(i, v)}
+          format={(v) => v.toFixed(1)}
+        />
+      ))}
+      <Slider
+        label="Scale"
+        value={selected.scale}
+        min={0.1}
+        max={4}
+        step={0.05}
+        onChange={(scale) => updateLayer(selected.id, { scale })}
+        format={(v) => `${v.toFixed(2)}×`}
+      />
+    </div>
+  );
+};
+
+export default LayersPanel;
@@ -0,0 +1,161 @@
+import React, { useRef } from 'react';
+import { ColorModeId, useStore } from '../store';
+import { COLOR_MODES, CONFIG_SCHEMA } from '../services/configSchema';
+import { gradientCss, gradientStops, loadColorImage, MAX_GRADIENT_STOPS, mixOklab, PALETTES } from '../simulation/palettes';
+import { Plus, Upload, X } from 'lucide-react';
+import Slider from './Slider';
+
+const MODE_LABELS: Record<ColorModeId, string> = {
+  axis: 'Axis',
+  radius: 'Radius',
+  speed: 'Speed',
+  hand: 'Hand',
+  age: 'Age',
+  image: 'Image',
+};
+
+const RANGE_FORMATS: Record<ColorModeId, (v: number) => string> = {
+  axis: v => `±${v.toFixed(1)}`,
+  radius: v => v.toFixed(1),
+  speed: v => `${v.toFixed(1)}/s`,
+  hand: v => v.toFixed(1),
+  age: v => `${v.toFixed(1)}s`,
+  image: v => `±${v.toFixed(1)}`,
+};
+
+const selectClass = 'bg-white/5 border border-white/10 rounded-md px-1.5 py-1 text-[11px] focus:outline-none focus:border-cyan-500/50';
+
+// Gradient stops, palette presets and the color mapping mode
+const PaletteEditor: React.FC = () => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const config = useStore(state => state.config);
+  const setConfig = useStore(state => state.setConfig);
+  const colorImage = useStore(state => state.colorImage);
+  const setColorImage = useStore(state => state.setColorImage);
+  const setError = useStore(state => state.setError);
+
+  const stops = gradientStops(config);
+
+  // Writes a full stop list back as color1, colorStops and color2
+  const setStops = (next: string[]) =>
+    setConfig({ color1: next[0], colorStops: next.slice(1, -1), color2: next[next.length - 1] });
+
+  const insertStop = () => {
+    const last = stops.length - 1;
+    setStops([...stops.slice(0, last), mixOklab(stops[last - 1], stops[last], 0.5), stops[last]]);
+  };
+
+  const handleImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setColorImage({ name: file.name, texture: await loadColorImage(file) });
+      setConfig({ colorMode: 'image' });
+      setError(null);
+    } catch (err) {
+      setError(`Could not read "${file.name}": ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="h-3 rounded" style={{ background: gradientCss(stops) }} />
+
+      <div className="flex flex-wrap items-center gap-1.5">
+        {stops.map((color, i) => (
+          <div key={i} className="relative group">
+            <input
+              type="color"
+              value={color}
+              onChange={(e) => setStops(stops.map((c, j) => (j === i ? e.target.value : c)))}
+              className="w-7 h-6 bg-transparent border border-white/10 rounded cursor-pointer"
+            />
+            {i > 0 && i < stops.length - 1 && (
+              <button
+                onClick={() => setStops(stops.filter((_, j) => j !== i))}
+                className="absolute -top-1.5 -right-1.5 hidden group-hover:block bg-black/80 rounded-full text-white/70"
+                title="Remove stop"
+              >
+                <X size={10} />
+              </button>
+            )}
+          </div>
+        ))}
+        <button
+          onClick={insertStop}
+          disabled={stops.length >= MAX_GRADIENT_STOPS}
+          className="text-white/30 hover:text-white/80 disabled:opacity-30"
+          title="Add stop"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {PALETTES.map(palette => (
+          <button
+            key={palette.name}
+            onClick={() => setConfig({ color1: palette.color1, color2: palette.color2, colorStops: palette.colorStops })}
+            className="w-6 h-4 rounded border border-white/10 hover:border-white/50"
+            style={{ background: gradientCss(gradientStops(palette)) }}
+            title={palette.name}
+          />
+        ))}
+      </div>
+
+      <div className="text-[11px] text-white/50" title={CONFIG_SCHEMA.colorMode.description}>Color by</div>
+      <div className="grid grid-cols-3 gap-1">
+        {COLOR_MODES.map(mode => (
+          <button
+            key={mode}
+            onClick={() => (mode === 'image' && !colorImage ? fileRef.current?.click() : setConfig({ colorMode: mode }))}
+            className={`px-2 py-1 rounded-lg text-[11px] border transition-colors ${
+              config.colorMode === mode
+                ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300'
+                : 'bg-white/5 border-white/10 text-white/60 hover:bg-white/10'
+            }`}
+          >
+            {MODE_LABELS[mode]}
+          </button>
+        ))}
+      </div>
+
+      {config.colorMode === 'axis' && (
+        <label className="flex items-center gap-2 text-[11px] text-white/50">
+          Axis
+          <select
+            value={config.colorAxis}
+            onChange={(e) => setConfig({ colorAxis: e.target.value as 'x' | 'y' | 'z' })}
+            className={selectClass}
+          >
+            {['x', 'y', 'z'].map(a => <option key={a} value={a}>{a.toUpperCase()}</option>)}
+          </select>
+        </label>
+      )}
+      {config.colorMode === 'image' && (
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs bg-white/5 text-white/70 hover:bg-white/10"
+          >
+            <Upload size={12} /> Image
+          </button>
+          <span className="text-[11px] text-white/40 truncate">{colorImage?.name ?? 'None loaded, using axis'}</span>
+        </div>
+      )}
+      <Slider
+        label={CONFIG_SCHEMA.colorRange.label}
+        value={config.colorRange}
+        min={0.5}
+        max={20}
+        step={0.1}
+        onChange={(colorRange) => setConfig({ colorRange })}
+        format={RANGE_FORMATS[config.colorMode]}
+      />
+      <input ref={fileRef} type="file" accept="image/*" className="hidden" onChange={handleImage} />
+    </div>
+  );
+};
+
+export default PaletteEditor;
@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import { ParticleConfig, useStore } from '../store';
+import { CONFIG_FIELDS, CONFIG_SCHEMA, EFFECT_GROUPS, FieldSchema, randomFieldValue, validateConfig } from '../services/configSchema';
+import { Dices, RotateCcw } from 'lucide-react';
+import PaletteEditor from './PaletteEditor';
+
+type NumberSchema = Extract<FieldSchema, { type: 'number' }>;
+
+const EFFECT_FIELDS: (keyof ParticleConfig)[] = [
+  ...EFFECT_GROUPS.flatMap(group => [group.toggle, ...group.params]),
+  'toneMapping',
+  'exposure',
+];
+
+// Edited together in the palette editor
+const COLOR_FIELDS: (keyof ParticleConfig)[] = ['color1', 'color2', 'colorStops', 'colorMode', 'colorAxis', 'colorRange'];
+
+// Choices shown above the motion sliders
+const MOTION_CHOICES: (keyof ParticleConfig)[] = ['flowField', 'handForce'];
+
+// Only shown while an emitter is on
+const LIFECYCLE_FIELDS: (keyof ParticleConfig)[] = ['emissionRate', 'lifetime', 'initialVelocity'];
+
+// Shape fields are edited in the shape picker on the Create tab; colors, lifecycle and effects get their own sections
+const EDITABLE_FIELDS = CONFIG_FIELDS.filter(key =>
+  (CONFIG_SCHEMA[key].type === 'number' || CONFIG_SCHEMA[key].type === 'color') &&
+  !EFFECT_FIELDS.includes(key) && !COLOR_FIELDS.includes(key) && !LIFECYCLE_FIELDS.includes(key)
+);
+
+// Changing the count regenerates the shape (and may grow the buffers), so it is only applied on release
+const COMMIT_ON_RELEASE: (keyof ParticleConfig)[] = ['particleCount'];
+
+const inputClass = 'bg-white/5 border border-white/10 rounded-md px-1.5 py-0.5 text-[11px] tabular-nums focus:outline-none focus:border-cyan-500/50';
+const iconClass = 'text-white/30 hover:text-white/80 shrink-0';
+
+const decimals = (step: number) => Math.max(0, -Math.floor(Math.log10(step)));
+
+const NumberField: React.FC<{
+  field: NumberSchema;
+  value: number;
+  live: boolean;
+  onCommit: (raw: unknown) => void;
+}> = ({ field, value, live, onCommit }) => {
+  const [slider, setSlider] = useState(value);
+  const [text, setText] = useState(value.toFixed(decimals(field.step)));
+
+  useEffect(() => {
+    setSlider(value);
+    setText(value.toFixed(decimals(field.step)));
+  }, [value, field.step]);
+
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        type="range"
+        min={field.min}
+        max={field.max}
+        step={field.step}
+        value={slider}
+        onChange={(e) => {
+          const v = parseFloat(e.target.value);
+          setSlider(v);
+          setText(v.toFixed(decimals(field.step)));
+          if (live) onCommit(v);
+        }}
+        onPointerUp={() => !live && onCommit(slider)}
+        onKeyUp={() => !live && onCommit(slider)}
+        className="flex-1 min-w-0 accent-cyan-400"
+      />
+      <input
+        type="text"
+        inputMode="decimal"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => {
+          onCommit(text);
+          // Rejected input snaps back; accepted input re-syncs through `value`
+          setText(value.toFixed(decimals(field.step)));
+        }}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        className={`${inputClass} w-16 text-right`}
+      />
+    </div>
+  );
+};
+
+const ParameterPanel: React.FC = () => {
+  const config = useStore(state => state.config);
+  const setConfig = useStore(state => state.setConfig);
+  // Last validation message per field, shown under the row
+  const [issues, setIssues] = useState<Partial<Record<keyof ParticleConfig, string>>>({});
+
+  const commit = (key: keyof ParticleConfig, raw: unknown) => {
+    const result = validateConfig({ [key]: raw });
+    setIssues(prev => ({ ...prev, [key]: result.issues[0] }));
+    setConfig(result.config);
+  };
+
+  const reset = (key: keyof ParticleConfig) => {
+    setIssues(prev => ({ ...prev, [key]: undefined }));
+    setConfig({ [key]: CONFIG_SCHEMA[key].default });
+  };
+
+  const randomize = (keys: (keyof ParticleConfig)[]) => {
+    setIssues({});
+    setConfig(Object.fromEntries(keys.map(key => [key, randomFieldValue(key)])));
+  };
+
+  const renderField = (key: keyof ParticleConfig) => {
+    const field = CONFIG_SCHEMA[key];
+    return (
+      <div key={key} title={field.description}>
+        <div className="flex items-center gap-2 text-[11px] text-white/50 mb-1">
+          <span className="flex-1 truncate">{field.label}</span>
+          <button onClick={() => randomize([key])} className={iconClass} title="Randomize">
+            <Dices size={12} />
+          </button>
+          <button onClick={() => reset(key)} className={iconClass} title="Reset to default">
+            <RotateCcw size={12} />
+          </button>
+        </div>
+        {field.type === 'number' && (
+          <NumberField
+            field={field}
+            value={config[key] as number}
+            live={!COMMIT_ON_RELEASE.includes(key)}
+            onCommit={(raw) => commit(key, raw)}
+          />
+        )}
+        {field.type === 'enum' && (
+          <select
+            value={config[key] as string}
+            onChange={(e) => commit(key, e.target.value)}
+            className={`${inputClass} w-full py-1`}
+          >
+            {field.options.map(o => <option key={o} value={o}>{o}</option>)}
+          </select>
+        )}
+        {field.type === 'color' && (
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              value={config[key] as string}
+              onChange={(e) => commit(key, e.target.value)}
+              className="w-8 h-6 bg-transparent border border-white/10 rounded cursor-pointer"
+            />
+            <input
+              type="text"
+              key={config[key] as string}
+              defaultValue={config[key] as string}
+              onBlur={(e) => {
+                commit(key, e.target.value);
+                e.target.value = config[key] as string;
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              className={`${inputClass} w-20 font-mono`}
+            />
+          </div>
+        )}
+        {issues[key] && <p className="text-[10px] text-amber-300/80 mt-0.5">{issues[key]}</p>}
+      </div>
+    );
+  };
+
+  const toneMapping = CONFIG_SCHEMA.toneMapping;
+  const emitter = CONFIG_SCHEMA.emitter;
+
+  return (
+    <div className="space-y-3">
+      <div className="text-[10px] text-white/40 uppercase tracking-wider">Colors</div>
+      <PaletteEditor />
+
+      <div className="text-[10px] text-white/40 uppercase tracking-wider pt-2">Motion</div>
+      {MOTION_CHOICES.map(renderField)}
+      {EDITABLE_FIELDS.map(renderField)}
+
+      <div className="text-[10px] text-white/40 uppercase tracking-wider pt-2">Lifecycle</div>
+      <label className="flex items-center gap-2 text-[11px] text-white/70" title={emitter.description}>
+        <span className="flex-1">{emitter.label}</span>
+        <select
+          value={config.emitter}
+          onChange={(e) => commit('emitter', e.target.value)}
+          className={`${inputClass} py-1`}
+        >
+          {emitter.type === 'enum' && emitter.options.map(o => <option key={o} value={o}>{o}</option>)}
+        </select>
+      </label>
+      {config.emitter !== 'none' && <div className="pl-5 space-y-2">{LIFECYCLE_FIELDS.map(renderField)}</div>}
+
+      <div className="text-[10px] text-white/40 uppercase tracking-wider pt-2">Effects</div>
+      {EFFECT_GROUPS.map(({ toggle, params }) => (
+        <div key={toggle} className="space-y-2">
+          <label className="flex items-center gap-2 text-[11px] text-white/70" title={CONFIG_SCHEMA[toggle].description}>
+            <input
+              type="checkbox"
+              checked={config[toggle] as boolean}
+              onChange={(e) => commit(toggle, e.target.checked)}
+              className="accent-cyan-400"
+            />
+            {CONFIG_SCHEMA[toggle].label}
+          </label>
+          {config[toggle] && <div className="pl-5 space-y-2">{params.map(renderField)}</div>}
+        </div>
+      ))}
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-[11px] text-white/70" title={toneMapping.description}>
+          <span className="flex-1">{toneMapping.label}</span>
+          <select
+            value={config.toneMapping}
+            onChange={(e) => commit('toneMapping', e.target.value)}
+            className={`${inputClass} py-1`}
+          >
+            {toneMapping.type === 'enum' && toneMapping.options.map(o => <option key={o} value={o}>{o}</option>)}
+          </select>
+        </label>
+        {config.toneMapping !== 'none' && <div className="pl-5">{renderField('exposure')}</div>}
+      </div>
+
+      <div className="flex items-center gap-2 pt-1">
+        <button
+          onClick={() => randomize(['color1', 'color2', 'colorStops', ...EDITABLE_FIELDS.filter(key => !COMMIT_ON_RELEASE.includes(key))])}
+          className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs bg-white/5 text-white/70 hover:bg-white/10"
+        >
+          <Dices size={12} /> Randomize all
+        </button>
+        <button
+          onClick={() => {
+            setIssues({});
+            setConfig(Object.fromEntries([...COLOR_FIELDS, ...MOTION_CHOICES, ...EDITABLE_FIELDS, 'emitter', ...LIFECYCLE_FIELDS, ...EFFECT_FIELDS].map(key => [key, CONFIG_SCHEMA[key].default])));
+          }}
+          className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs bg-white/5 text-white/70 hover:bg-white/10"
+        >
+          <RotateCcw size={12} /> Reset all
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ParameterPanel;
@@ -0,0 +1,19 @@
+import React from 'react';
+import { useStore } from '../store';
+import Particles from './Particles';
+
+// One particle system per layer, drawn bottom to top
+const ParticleLayers: React.FC = () => {
+  const layers = useStore(state => state.layers);
+  const selectedLayerId = useStore(state => state.selectedLayerId);
+
+  return (
+    <>
+      {layers.map((layer, i) => (
+        <Particles key={layer.id} layer={layer} lead={layer.id === selectedLayerId} order={i} />
+      ))}
+    </>
+  );
+};
+
+export default ParticleLayers;
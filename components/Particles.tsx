@@ -1,67 +1,116 @@
-import React, { useMemo, useRef, useEffect } from 'react';
-import { useFrame } from '@react-three/fiber';
+import React, { useMemo, useRef, useEffect, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
-import { useStore } from '../store';
+import { TrackedHand, useStore } from '../store';
+import { angleDelta, measureBimanual } from '../input/bimanual';
+import { ForceSlot, MAX_HANDS, ParticleSimulation, simulationTextureSize } from '../simulation/particleSimulation';
+import { CustomShape, generateShape, PROCEDURAL_SHAPES, ShapeId } from '../simulation/shapes';
+import { gradientStops, MAX_GRADIENT_STOPS, nextPalette } from '../simulation/palettes';
+import { COLOR_MODES } from '../services/configSchema';
+import { BindingAction, BindingEngine } from '../input/bindings';
+import { GenerationCancelledError, generateConfig } from '../services/aiProvider';
+import { audioAnalyzer, modulate } from '../services/audio';
+import { recordGeneration } from '../services/presets';
+import { timelinePlayer } from '../services/timeline';
+import { pointScale } from '../services/capture';
+import { activeParticleCount, frameMonitor, particleCapacity } from '../services/performance';
+import { BlendModeId, layerContext, ParticleLayer } from '../services/layers';
+import type { RemoteHand } from '../services/collab';
+import { MAX_FORCES } from '../services/forces';
 
 // Vertex Shader
+// Positions come from the GPU simulation; this pass only places and colors points.
 const vertexShader = `
   uniform float uTime;
-  uniform vec3 uColor1;
-  uniform vec3 uColor2;
+  uniform vec3 uStops[${MAX_GRADIENT_STOPS}]; // Gradient, color1 first and color2 last
+  uniform int uStopCount;
+  uniform int uColorMode; // Index into COLOR_MODES
+  uniform vec3 uColorAxis;
+  uniform float uColorRange;
+  uniform sampler2D uVelocities;
+  uniform sampler2D uColorImage;
   uniform float uSize;
-  uniform vec3 uHandPos;
-  uniform float uInteractRadius;
+  uniform float uPointScale; // Export resolution / screen resolution
+  uniform vec4 uHands[${MAX_HANDS}]; // xyz position, w > 0 when active
+  uniform vec3 uHandColors[${MAX_HANDS}]; // Glow added near each hand
   uniform float uSpeed;
-  uniform float uNoiseScale;
-  uniform float uHasHand;
-  uniform float uExpansion;
+  uniform float uColorMix; // Offset added to the gradient position (audio modulation)
+  uniform sampler2D uPositions;
+  uniform float uFocus; // View-space depth kept sharp
+  uniform float uDof; // Blur per unit of distance from the focus; 0 disables depth of field
+  uniform float uLifetime; // Seconds; 0 when particles live forever
 
+  attribute vec2 aRef;
   attribute vec3 aRandom;
 
   varying vec3 vColor;
   varying float vDist;
+  varying vec3 vHandColor;
+  varying float vBlur;
+  varying float vFade;
+
+  // Piecewise gradient; the end segments extrapolate like mix() did for two colors
+  vec3 gradient(float t) {
+    float x = t * float(uStopCount - 1);
+    int segment = int(clamp(floor(x), 0.0, float(uStopCount - 2)));
+    vec3 color = uStops[0];
+    for (int i = 0; i < ${MAX_GRADIENT_STOPS - 1}; i++) {
+      if (i == segment) color = mix(uStops[i], uStops[i + 1], x - float(i));
+    }
+    return color;
+  }
 
   void main() {
-    // Apply expansion scale immediately
-    vec3 pos = position * uExpansion;
-    
-    // Ambient Movement
+    vec4 state = texture2D(uPositions, aRef); // w = birth time
+    vec3 pos = state.xyz;
+    float age = uTime - state.w;
     float time = uTime * uSpeed;
-    
-    // Create a flow field effect
-    pos.x += sin(time * 0.1 + pos.y * uNoiseScale + aRandom.x * 6.0) * 0.2;
-    pos.y += cos(time * 0.1 + pos.x * uNoiseScale + aRandom.y * 6.0) * 0.2;
-    pos.z += sin(time * 0.15 + pos.x * uNoiseScale) * 0.2;
-
-    // Interactive Force (Hand)
-    if (uHasHand > 0.5) {
-      // Calculate distance in local space
-      float dist = distance(pos, uHandPos); 
-      
-      if (dist < uInteractRadius) {
-        vec3 dir = normalize(pos - uHandPos);
-        float force = (uInteractRadius - dist) / uInteractRadius;
-        
-        // Push away effect with some swirl
-        vec3 curl = cross(dir, vec3(0.0, 1.0, 0.0));
-        
-        pos += dir * force * 3.0;
-        pos += curl * force * 0.5;
+
+    // Mortal particles fade in quickly, then dim and shrink toward the end of their life
+    float life = uLifetime > 0.0 ? age / uLifetime : 0.0;
+    if (life > 1.0) {
+      // Waiting to be reborn: push it outside the clip volume
+      gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+      gl_PointSize = 0.0;
+      return;
+    }
+    vFade = uLifetime > 0.0 ? smoothstep(0.0, 0.05, life) * (1.0 - smoothstep(0.6, 1.0, life)) : 1.0;
+
+    // Distance to the nearest hand, and that hand's glow color
+    vDist = 10.0;
+    vHandColor = vec3(0.5);
+    for (int i = 0; i < ${MAX_HANDS}; i++) {
+      if (uHands[i].w < 0.5) continue;
+      float d = distance(pos, uHands[i].xyz);
+      if (d < vDist) {
+        vDist = d;
+        vHandColor = uHandColors[i];
       }
-      vDist = dist;
-    } else {
-      vDist = 10.0;
     }
 
-    // Color gradient mixing based on position and randomness
-    float mixFactor = smoothstep(-5.0, 5.0, pos.x + sin(time));
-    vColor = mix(uColor1, uColor2, mixFactor + aRandom.z * 0.2);
+    // Place the particle on the gradient, with some per-particle variation
+    if (uColorMode == 5) {
+      vec2 uv = clamp(pos.xy / (2.0 * uColorRange) + 0.5, 0.0, 1.0);
+      vColor = texture2D(uColorImage, uv).rgb;
+    } else {
+      float t;
+      if (uColorMode == 1) t = length(pos) / uColorRange;
+      else if (uColorMode == 2) t = length(texture2D(uVelocities, aRef).xyz) / uColorRange;
+      else if (uColorMode == 3) t = vDist / uColorRange;
+      else if (uColorMode == 4) t = uLifetime > 0.0 ? life : fract(age / uColorRange + aRandom.y);
+      else t = smoothstep(-uColorRange, uColorRange, dot(pos, uColorAxis) + sin(time));
+      vColor = gradient(t + uColorMix + aRandom.z * 0.2);
+    }
 
     vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
     gl_Position = projectionMatrix * mvPosition;
     
     // Size attenuation
-    gl_PointSize = uSize * (300.0 / -mvPosition.z);
+    gl_PointSize = uSize * uPointScale * (300.0 / -mvPosition.z) * (1.0 - 0.6 * life);
+
+    // Depth of field: out-of-focus points grow into soft, dimmer discs
+    vBlur = uDof * abs(-mvPosition.z - uFocus);
+    gl_PointSize *= 1.0 + vBlur;
   }
 `;
 
@@ -69,217 +118,479 @@ const vertexShader = `
 const fragmentShader = `
   varying vec3 vColor;
   varying float vDist;
+  varying vec3 vHandColor;
+  varying float vBlur;
+  varying float vFade;
 
   void main() {
     // Circular particle
     float r = distance(gl_PointCoord, vec2(0.5));
     if (r > 0.5) discard;
 
-    // Soft glow edge
+    // Soft glow edge; blurred points spread the same light over a larger disc
     float glow = 1.0 - (r * 2.0);
-    glow = pow(glow, 1.5);
+    glow = pow(glow, 1.5 / (1.0 + vBlur)) / ((1.0 + vBlur) * (1.0 + vBlur));
 
-    // Add extra brightness if near hand (vDist small)
+    // Add extra brightness if near hand (vDist small); remote hands glow in their owner's color
     vec3 finalColor = vColor;
     if (vDist < 2.0) {
-       finalColor += vec3(0.5) * (1.0 - vDist / 2.0);
+       finalColor += vHandColor * (1.0 - vDist / 2.0);
     }
 
-    gl_FragColor = vec4(finalColor, glow);
+    gl_FragColor = vec4(finalColor, glow * vFade);
   }
 `;
 
-const Particles: React.FC = () => {
+const X_AXIS = new THREE.Vector3(1, 0, 0);
+const focusPoint = new THREE.Vector3();
+const worldToLocal = new THREE.Matrix4();
+const meshCenter = new THREE.Vector3();
+const Y_AXIS = new THREE.Vector3(0, 1, 0);
+const Z_AXIS = new THREE.Vector3(0, 0, 1);
+
+// Repeats the generated points across the whole buffer, so particles past the
+// draw range still have a place to rest and reappear there when the range grows
+const fillToCapacity = (positions: Float32Array, capacity: number) => {
+  if (positions.length >= capacity * 3) return positions;
+  const filled = new Float32Array(capacity * 3);
+  for (let offset = 0; offset < filled.length; offset += positions.length) {
+    filled.set(positions.subarray(0, Math.min(positions.length, filled.length - offset)), offset);
+  }
+  return filled;
+};
+
+const BLENDING: Record<BlendModeId, THREE.Blending> = {
+  additive: THREE.AdditiveBlending,
+  normal: THREE.NormalBlending,
+  subtractive: THREE.SubtractiveBlending,
+};
+
+// Hands as seen by layers that do not react to them
+const NO_HANDS: TrackedHand[] = [];
+const NO_REMOTE_HANDS: RemoteHand[] = [];
+const LOCAL_GLOW = new THREE.Color(0.5, 0.5, 0.5);
+
+// Growing or shrinking the active count reshuffles which point goes where, so blend it quickly
+const COUNT_MORPH_SECONDS = 0.6;
+
+interface ParticlesProps {
+  layer: ParticleLayer;
+  lead: boolean; // Runs the once-per-frame work: audio analysis and config-changing gesture events
+  order: number; // Draw order, bottom layer first
+}
+
+const Particles: React.FC<ParticlesProps> = ({ layer, lead, order }) => {
   const meshRef = useRef<THREE.Points>(null);
+  const geometryRef = useRef<THREE.BufferGeometry>(null);
   const materialRef = useRef<THREE.ShaderMaterial>(null);
+  const gl = useThree(state => state.gl);
+  const camera = useThree(state => state.camera);
   
-  const handPosition = useStore(state => state.handPosition);
-  const isHandDetected = useStore(state => state.isHandDetected);
-  const gesture = useStore(state => state.gesture);
-  const config = useStore(state => state.config);
+  const allHands = useStore(state => state.hands);
+  const hands = layer.interactive ? allHands : NO_HANDS;
+  const allRemoteHands = useStore(state => state.remoteHands);
+  const remoteHands = layer.interactive ? allRemoteHands : NO_REMOTE_HANDS;
+  const bindings = useStore(state => state.bindings);
+  const forces = useStore(state => state.forces);
+  const audioMappings = useStore(state => state.audioMappings);
+  const config = layer.config;
+  const customShape = useStore(state => state.customShape);
+  const colorImage = useStore(state => state.colorImage);
+  const qualityLevel = useStore(state => state.qualityLevel);
+  const setError = useStore(state => state.setError);
 
   // Physics State
-  const momentum = useRef(new THREE.Vector2(0, 0)); // X and Y rotational velocity
+  const momentum = useRef(new THREE.Vector3(0, 0, 0)); // X, Y and Z (roll) rotational velocity
   const lastHandPos = useRef<THREE.Vector3 | null>(null);
   const currentScale = useRef(1.0);
+  const zoom = useRef(1.0); // Persistent scale set by spreading/pinching both hands
+  const bimanualStart = useRef<{ distance: number; zoom: number } | null>(null);
+  const lastBimanualAngle = useRef<number | null>(null);
+  const handLocals = useRef(Array.from({ length: MAX_HANDS }, () => new THREE.Vector3()));
+  const emitterOrigin = useRef(new THREE.Vector3());
+  const handAxis = useRef(new THREE.Vector3());
+  const forceSlots = useRef(Array.from({ length: MAX_FORCES }, (): ForceSlot => ({
+    kind: 'attractor', position: new THREE.Vector3(), direction: new THREE.Vector3(), strength: 0, radius: 0, falloff: 0,
+  })));
+  const interactRadius = useRef(config.interactionRadius);
+  const bindingEngine = useRef(new BindingEngine());
+  const simTime = useRef(0);
+  // Shape inputs the simulation's current target was built from
+  const appliedShape = useRef<{ shape: ShapeId; text: string; custom: CustomShape | null; count: number } | null>(null);
+
+  // Buffers only grow, so lowering the count (or the governor dropping quality) never reallocates
+  const grownCapacity = useRef(0);
+  const capacity = Math.max(grownCapacity.current, particleCapacity(config.particleCount));
+  grownCapacity.current = capacity;
+  const activeCount = activeParticleCount(config.particleCount, qualityLevel, capacity);
+
+  const { positions, randoms, refs } = useMemo(() => {
+    const shape = generateShape(config.shape, activeCount, { text: config.shapeText, custom: customShape });
+    const positions = fillToCapacity(shape, capacity);
+    appliedShape.current = { shape: config.shape, text: config.shapeText, custom: customShape, count: activeCount };
+    const randoms = new Float32Array(capacity * 3);
+
+    for (let i = 0; i < capacity * 3; i++) {
+      randoms[i] = Math.random();
+    }
 
-  const { count, positions, randoms } = useMemo(() => {
-    const count = config.particleCount;
-    const positions = new Float32Array(count * 3);
-    const randoms = new Float32Array(count * 3);
+    // Texel center of each particle in the simulation textures
+    const size = simulationTextureSize(capacity);
+    const refs = new Float32Array(capacity * 2);
+    for (let i = 0; i < capacity; i++) {
+      refs[i * 2] = ((i % size) + 0.5) / size;
+      refs[i * 2 + 1] = (Math.floor(i / size) + 0.5) / size;
+    }
 
-    for (let i = 0; i < count; i++) {
-      // Sphere distribution
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.acos((Math.random() * 2) - 1);
-      const radius = 4 + Math.random() * 2;
+    return { positions, randoms, refs };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [capacity]);
 
-      const x = radius * Math.sin(phi) * Math.cos(theta);
-      const y = radius * Math.sin(phi) * Math.sin(theta);
-      const z = radius * Math.cos(phi);
+  // The simulation owns GPU render targets, so it is created and released by the same effect:
+  // StrictMode's replayed effects then rebuild it instead of reusing a disposed one.
+  // The frame loop reads the ref, which is cleared the moment the simulation is disposed.
+  const [simulation, setSimulation] = useState<ParticleSimulation | null>(null);
+  const simulationRef = useRef<ParticleSimulation | null>(null);
+  useEffect(() => {
+    const created = new ParticleSimulation(gl, positions, randoms);
+    simulationRef.current = created;
+    setSimulation(created);
+    return () => {
+      simulationRef.current = null;
+      created.dispose();
+    };
+  }, [gl, positions, randoms]);
+
+  // Morph toward the new target whenever the shape (or its source) or the active count changes
+  useEffect(() => {
+    // Waits for the render that picks up a rebuilt simulation; this effect reruns then
+    if (!simulation || simulation !== simulationRef.current) return;
+    const applied = appliedShape.current;
+    if (
+      applied && applied.shape === config.shape && applied.text === config.shapeText &&
+      applied.custom === customShape && applied.count === activeCount
+    ) {
+      return;
+    }
+    const shapeChanged = !applied || applied.shape !== config.shape || applied.text !== config.shapeText || applied.custom !== customShape;
+    appliedShape.current = { shape: config.shape, text: config.shapeText, custom: customShape, count: activeCount };
+    try {
+      const target = generateShape(config.shape, activeCount, { text: config.shapeText, custom: customShape });
+      simulation.morphTo(fillToCapacity(target, capacity), shapeChanged ? config.morphDuration : COUNT_MORPH_SECONDS);
+    } catch (err) {
+      console.error('Failed to generate shape:', err);
+      setError(`Could not build shape "${config.shape}".`);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [config.shape, config.shapeText, customShape, activeCount, simulation]);
 
-      positions[i * 3] = x;
-      positions[i * 3 + 1] = y;
-      positions[i * 3 + 2] = z;
+  useEffect(() => {
+    geometryRef.current?.setDrawRange(0, activeCount);
+    frameMonitor.reportLayer(layer.id, { particles: layer.visible ? activeCount : 0, capacity });
+  }, [layer.id, layer.visible, activeCount, capacity]);
 
-      randoms[i * 3] = Math.random();
-      randoms[i * 3 + 1] = Math.random();
-      randoms[i * 3 + 2] = Math.random();
-    }
-    return { count, positions, randoms };
-  }, [config.particleCount]);
+  useEffect(() => () => frameMonitor.reportLayer(layer.id, null), [layer.id]);
 
   const uniforms = useMemo(() => ({
     uTime: { value: 0 },
-    uColor1: { value: new THREE.Color(config.color1) },
-    uColor2: { value: new THREE.Color(config.color2) },
+    uStops: { value: Array.from({ length: MAX_GRADIENT_STOPS }, () => new THREE.Color()) },
+    uStopCount: { value: 2 },
+    uColorMode: { value: 0 },
+    uColorAxis: { value: new THREE.Vector3(1, 0, 0) },
+    uColorRange: { value: config.colorRange },
+    uVelocities: { value: null as THREE.Texture | null },
+    uColorImage: { value: null as THREE.Texture | null },
     uSize: { value: config.particleSize },
-    uHandPos: { value: new THREE.Vector3(0, 0, 0) },
-    uInteractRadius: { value: config.interactionRadius },
+    uPointScale: pointScale,
+    uHands: { value: Array.from({ length: MAX_HANDS }, () => new THREE.Vector4()) },
+    uHandColors: { value: Array.from({ length: MAX_HANDS }, () => LOCAL_GLOW.clone()) },
     uSpeed: { value: config.speed },
-    uNoiseScale: { value: config.noiseScale },
-    uHasHand: { value: 0.0 },
-    uExpansion: { value: 1.0 }
+    uColorMix: { value: 0 },
+    uFocus: { value: 10 },
+    uDof: { value: 0 },
+    uLifetime: { value: 0 },
+    uPositions: { value: null as THREE.Texture | null }
   }), []);
 
   useEffect(() => {
-    if (materialRef.current) {
-      materialRef.current.uniforms.uColor1.value.set(config.color1);
-      materialRef.current.uniforms.uColor2.value.set(config.color2);
-      materialRef.current.uniforms.uSize.value = config.particleSize;
-      materialRef.current.uniforms.uInteractRadius.value = config.interactionRadius;
-      materialRef.current.uniforms.uSpeed.value = config.speed;
-      materialRef.current.uniforms.uNoiseScale.value = config.noiseScale;
+    const stops = gradientStops(config).slice(0, MAX_GRADIENT_STOPS);
+    stops.forEach((hex, i) => uniforms.uStops.value[i].set(hex));
+    uniforms.uStopCount.value = stops.length;
+    // Image mode needs an uploaded image; until then it behaves like the default axis mode
+    const mode = config.colorMode === 'image' && !colorImage ? 'axis' : config.colorMode;
+    uniforms.uColorMode.value = COLOR_MODES.indexOf(mode);
+    uniforms.uColorAxis.value.set(+(config.colorAxis === 'x'), +(config.colorAxis === 'y'), +(config.colorAxis === 'z'));
+    uniforms.uColorRange.value = config.colorRange;
+    uniforms.uColorImage.value = colorImage?.texture ?? null;
+  }, [config, colorImage, uniforms]);
+
+  // One-shot actions fired by gesture transitions. Config changes go to the selected
+  // layer, so only the lead layer runs them; bursts hit every layer that reacts to hands.
+  const runEvent = (action: BindingAction) => {
+    const { config, setConfig, setIsConfiguring, setError } = useStore.getState();
+    if (action.type === 'burst') {
+      if (layer.interactive) simulationRef.current?.burst(hands.length > 0 ? handLocals.current[0] : new THREE.Vector3(), action.strength);
+      return;
+    }
+    if (!lead) return;
+    switch (action.type) {
+      case 'palette': {
+        const { color1, color2, colorStops } = nextPalette(config);
+        setConfig({ color1, color2, colorStops });
+        break;
+      }
+      case 'cycleShape': {
+        const index = PROCEDURAL_SHAPES.indexOf(config.shape);
+        setConfig({ shape: PROCEDURAL_SHAPES[(index + 1) % PROCEDURAL_SHAPES.length] });
+        break;
+      }
+      case 'prompt':
+        if (!action.prompt.trim() || useStore.getState().isConfiguring) break;
+        setIsConfiguring(true);
+        generateConfig(action.prompt, layerContext(useStore.getState().layers, useStore.getState().selectedLayerId))
+          .then(generated => {
+            setConfig(generated);
+            recordGeneration(action.prompt);
+          })
+          .catch(err => {
+            if (!(err instanceof GenerationCancelledError)) setError(`Gesture prompt failed: ${err.message}`);
+          })
+          .finally(() => setIsConfiguring(false));
+        break;
+      default:
+        break;
     }
-  }, [config]);
+  };
+
+  useFrame((_, delta) => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+    const primary = hands[0] ?? null;
+    const bimanual = measureBimanual(hands);
+    // Gestures trigger bindings in every layer; only reacting layers feel the hand itself
+    const actions = bindingEngine.current.evaluate(allHands[0]?.gesture ?? null, bindings);
+    actions.events.forEach(runEvent);
+    const audio = modulate(audioMappings, lead ? audioAnalyzer.update(delta) : audioAnalyzer.current);
+
+    // Frozen time stops both the simulation and its flow-field clock
+    const simDelta = actions.frozen ? 0 : delta;
+    simTime.current += simDelta;
 
-  useFrame((state, delta) => {
-    const time = state.clock.elapsedTime;
-    
     // Shader Time Update
     if (materialRef.current) {
-      materialRef.current.uniforms.uTime.value = time;
+      materialRef.current.uniforms.uTime.value = simTime.current;
     }
+    uniforms.uSize.value = config.particleSize * audio.size;
+    uniforms.uSpeed.value = config.speed * audio.speed;
+    uniforms.uColorMix.value = audio.colorMix;
+
+    // Depth of field focuses on the primary hand, or the object's center without one
+    if (allHands[0]) focusPoint.copy(allHands[0].position);
+    else focusPoint.set(0, 0, 0);
+    const focusDepth = -focusPoint.applyMatrix4(camera.matrixWorldInverse).z;
+    uniforms.uFocus.value = THREE.MathUtils.lerp(uniforms.uFocus.value, focusDepth, 0.1);
+    uniforms.uDof.value = config.depthOfField ? config.dofStrength * 0.5 : 0;
+    uniforms.uLifetime.value = config.emitter === 'none' ? 0 : config.lifetime;
 
     // --- EXPANSION PHYSICS (Responsive Lerp) ---
-    // Target logic: 3 distinct states to avoid glitching
+    // Target comes from the bound scale action; 1.0 (normal / reset) when none applies
     let targetScale = 1.0;
     
-    if (isHandDetected) {
-      switch (gesture) {
-        case 'CLOSED':
-          targetScale = 0.4; // Shrunk
-          break;
-        case 'OPEN':
-          targetScale = 1.3; // Expanded
-          break;
-        case 'NEUTRAL':
-        default:
-          targetScale = 1.0; // Normal / Reset
-          break;
+    if (bimanual) {
+      // Two hands: spreading/pinching them zooms; the single-hand gesture scale is suspended
+      if (!bimanualStart.current) {
+        bimanualStart.current = { distance: Math.max(bimanual.distance, 0.1), zoom: zoom.current };
       }
+      const ZOOM_MIN = 0.3;
+      const ZOOM_MAX = 3.0;
+      zoom.current = THREE.MathUtils.clamp(
+        bimanualStart.current.zoom * bimanual.distance / bimanualStart.current.distance,
+        ZOOM_MIN,
+        ZOOM_MAX
+      );
     } else {
-      targetScale = 1.0; // Reset when no hand
+      bimanualStart.current = null;
+      targetScale = actions.scale ?? 1.0;
     }
 
     // Using LERP for organic movement instead of linear constant speed
     // 0.12 factor provides a responsive "spring" feel that slows down as it reaches target
     const LERP_SPEED = 0.12;
-    currentScale.current = THREE.MathUtils.lerp(currentScale.current, targetScale, LERP_SPEED);
-
-    if (materialRef.current) {
-      materialRef.current.uniforms.uExpansion.value = currentScale.current;
-    }
+    currentScale.current = THREE.MathUtils.lerp(currentScale.current, targetScale * zoom.current, LERP_SPEED);
 
     if (meshRef.current) {
       // --- ROTATION PHYSICS ---
+      const SENSITIVITY = 0.5; 
+      // Hand input arrives filtered, so momentum can follow it fairly directly
+      const MOMENTUM_LERP = 0.3;
       
-      if (isHandDetected && handPosition) {
+      if (bimanual) {
+        // Twisting both hands rolls the object around the view axis
+        const twist = lastBimanualAngle.current === null ? 0 : angleDelta(lastBimanualAngle.current, bimanual.angle);
+        lastBimanualAngle.current = bimanual.angle;
+        lastHandPos.current = null;
+
+        momentum.current.x = THREE.MathUtils.lerp(momentum.current.x, 0, MOMENTUM_LERP);
+        momentum.current.y = THREE.MathUtils.lerp(momentum.current.y, 0, MOMENTUM_LERP);
+        momentum.current.z = THREE.MathUtils.lerp(momentum.current.z, twist, MOMENTUM_LERP * 2);
+
+      } else if (primary && actions.rotate) {
+        lastBimanualAngle.current = null;
+
         // Initialize last pos if fresh
         if (!lastHandPos.current) {
-          lastHandPos.current = handPosition.clone();
+          lastHandPos.current = primary.position.clone();
         }
 
         // Calculate Hand Velocity
-        const SENSITIVITY = 0.5; 
-        
-        const dx = handPosition.x - lastHandPos.current.x;
-        const dy = handPosition.y - lastHandPos.current.y;
+        const dx = primary.position.x - lastHandPos.current.x;
+        const dy = primary.position.y - lastHandPos.current.y;
         
         const targetVelX = -dy * SENSITIVITY; 
         const targetVelY = dx * SENSITIVITY;
 
-        const MOMENTUM_LERP = 0.15;
         momentum.current.x = THREE.MathUtils.lerp(momentum.current.x, targetVelX, MOMENTUM_LERP);
         momentum.current.y = THREE.MathUtils.lerp(momentum.current.y, targetVelY, MOMENTUM_LERP);
+        momentum.current.z = THREE.MathUtils.lerp(momentum.current.z, 0, MOMENTUM_LERP);
 
-        lastHandPos.current.copy(handPosition);
-
-        // SHADER INTERACTION
-        const localHandPos = handPosition.clone();
-        meshRef.current.worldToLocal(localHandPos);
-
-        if (materialRef.current) {
-          materialRef.current.uniforms.uHandPos.value.lerp(localHandPos, 0.5);
-          materialRef.current.uniforms.uHasHand.value = 1.0;
-          
-          const zInfluence = THREE.MathUtils.clamp(1.0 + Math.abs(handPosition.z) * 0.5, 0.5, 3.0);
-          materialRef.current.uniforms.uInteractRadius.value = THREE.MathUtils.lerp(
-             materialRef.current.uniforms.uInteractRadius.value,
-             config.interactionRadius * zInfluence,
-             0.1
-          );
-        }
+        lastHandPos.current.copy(primary.position);
 
       } else {
         // --- RELEASED / IDLE ---
         lastHandPos.current = null;
-        if (materialRef.current) materialRef.current.uniforms.uHasHand.value = 0.0;
+        lastBimanualAngle.current = null;
 
         const FRICTION = 0.98; 
-        momentum.current.x *= FRICTION;
-        momentum.current.y *= FRICTION;
+        momentum.current.multiplyScalar(FRICTION);
 
         if (Math.abs(momentum.current.x) < 0.0001) momentum.current.x = 0;
         if (Math.abs(momentum.current.y) < 0.0001) momentum.current.y = 0;
+        if (Math.abs(momentum.current.z) < 0.0001) momentum.current.z = 0;
       }
 
       const MAX_SPEED = 0.5;
-      momentum.current.x = THREE.MathUtils.clamp(momentum.current.x, -MAX_SPEED, MAX_SPEED);
-      momentum.current.y = THREE.MathUtils.clamp(momentum.current.y, -MAX_SPEED, MAX_SPEED);
+      momentum.current.clampScalar(-MAX_SPEED, MAX_SPEED);
+
+      // Apply around world axes so roll stays around the view direction
+      meshRef.current.rotateOnWorldAxis(X_AXIS, momentum.current.x);
+      meshRef.current.rotateOnWorldAxis(Y_AXIS, momentum.current.y);
+      meshRef.current.rotateOnWorldAxis(Z_AXIS, momentum.current.z);
+
+      // SHADER INTERACTION
+      // Every hand acts on the field; input is already filtered upstream
+      const activeHands = hands.slice(0, MAX_HANDS).map((hand, i) =>
+        meshRef.current!.worldToLocal(handLocals.current[i].copy(hand.position))
+      );
+      // Participants in a collaborative session pull on the field with the remaining slots
+      const remote = remoteHands.slice(0, MAX_HANDS - activeHands.length);
+      const attractors = remote.map((hand, i) =>
+        meshRef.current!.worldToLocal(handLocals.current[activeHands.length + i].copy(hand.position))
+      );
+
+      // Force objects and the hand's vortex axis are placed in the world; the simulation works in local space
+      worldToLocal.copy(meshRef.current.matrixWorld).invert();
+      handAxis.current.copy(camera.position).sub(meshRef.current.getWorldPosition(meshCenter)).transformDirection(worldToLocal);
+      const localForces = forces.filter(force => force.enabled).slice(0, MAX_FORCES).map((force, i) => {
+        const slot = forceSlots.current[i];
+        slot.kind = force.kind;
+        meshRef.current!.worldToLocal(slot.position.fromArray(force.position));
+        slot.direction.fromArray(force.direction).transformDirection(worldToLocal);
+        slot.strength = force.strength;
+        slot.radius = force.radius / layer.scale;
+        slot.falloff = force.falloff;
+        return slot;
+      });
+
+      // The hand emitter follows the primary hand even on layers that ignore hands; without one it emits from the center
+      if (config.emitter === 'hand' && allHands[0]) meshRef.current.worldToLocal(emitterOrigin.current.copy(allHands[0].position));
+      else emitterOrigin.current.set(0, 0, 0);
+
+      if (primary) {
+        const zInfluence = THREE.MathUtils.clamp(1.0 + Math.abs(primary.position.z) * 0.5, 0.5, 3.0);
+        interactRadius.current = THREE.MathUtils.lerp(
+          interactRadius.current,
+          config.interactionRadius * zInfluence,
+          0.1
+        );
+      }
 
-      meshRef.current.rotation.x += momentum.current.x;
-      meshRef.current.rotation.y += momentum.current.y;
+      const slots = [...activeHands, ...attractors];
+      uniforms.uHands.value.forEach((slot, i) => {
+        const hand = slots[i];
+        if (hand) slot.set(hand.x, hand.y, hand.z, 1);
+        else slot.w = 0;
+        if (i < activeHands.length) uniforms.uHandColors.value[i].copy(LOCAL_GLOW);
+        else if (hand) uniforms.uHandColors.value[i].set(remote[i - activeHands.length].color);
+      });
+
+      // --- PARTICLE SIMULATION ---
+      // Hidden layers hold still rather than spend GPU time nobody sees
+      if (layer.visible) simulation.step({
+        time: simTime.current,
+        delta: simDelta,
+        speed: config.speed * audio.speed,
+        noiseScale: config.noiseScale * audio.noiseScale,
+        flowField: config.flowField,
+        flowStrength: config.flowStrength,
+        damping: config.damping,
+        stiffness: config.stiffness,
+        expansion: currentScale.current * audio.expansion * timelinePlayer.expansion,
+        interactionRadius: interactRadius.current,
+        hands: activeHands,
+        attractors,
+        handForce: actions.force ?? config.handForce,
+        handStrength: config.handStrength,
+        handAxis: handAxis.current,
+        forces: localForces,
+        emitter: config.emitter,
+        emitterOrigin: emitterOrigin.current,
+        emissionRate: config.emissionRate,
+        lifetime: config.lifetime,
+        initialVelocity: config.initialVelocity,
+        activeCount,
+      });
     }
+
+    uniforms.uPositions.value = simulation.positionTexture;
+    uniforms.uVelocities.value = simulation.velocityTexture;
   });
 
   return (
-    <points ref={meshRef}>
-      <bufferGeometry>
-        <bufferAttribute
-          attach="attributes-position"
-          count={count}
-          array={positions}
-          itemSize={3}
-        />
-        <bufferAttribute
-          attach="attributes-aRandom"
-          count={count}
-          array={randoms}
-          itemSize={3}
+    <group position={layer.position} scale={layer.scale} visible={layer.visible}>
+      <points ref={meshRef} frustumCulled={false} renderOrder={order}>
+        <bufferGeometry key={capacity} ref={geometryRef}>
+          <bufferAttribute
+            attach="attributes-position"
+            count={capacity}
+            array={positions}
+            itemSize={3}
+          />
+          <bufferAttribute
+            attach="attributes-aRef"
+            count={capacity}
+            array={refs}
+            itemSize={2}
+          />
+          <bufferAttribute
+            attach="attributes-aRandom"
+            count={capacity}
+            array={randoms}
+            itemSize={3}
+          />
+        </bufferGeometry>
+        <shaderMaterial
+          ref={materialRef}
+          vertexShader={vertexShader}
+          fragmentShader={fragmentShader}
+          uniforms={uniforms}
+          transparent
+          depthWrite={false}
+          blending={BLENDING[layer.blend]}
         />
-      </bufferGeometry>
-      <shaderMaterial
-        ref={materialRef}
-        vertexShader={vertexShader}
-        fragmentShader={fragmentShader}
-        uniforms={uniforms}
-        transparent
-        depthWrite={false}
-        blending={THREE.AdditiveBlending}
-      />
-    </points>
+      </points>
+    </group>
   );
 };
 
-export default Particles;
\ No newline at end of file
+// Layers the store did not touch keep their props, so they skip re-rendering
+export default React.memo(Particles);
\ No newline at end of file
@@ -0,0 +1,50 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { useStore } from '../store';
+import { frameMonitor, QUALITY_LEVELS, QualityGovernor } from '../services/performance';
+import { sceneCapture } from '../services/capture';
+
+// Feeds frame times to the monitor and, when enabled, steps quality to hold the target rate
+const PerformanceGovernor: React.FC = () => {
+  const gl = useThree(state => state.gl);
+  const setDpr = useThree(state => state.setDpr);
+  const settings = useStore(state => state.performance);
+  const qualityLevel = useStore(state => state.qualityLevel);
+  const setQualityLevel = useStore(state => state.setQualityLevel);
+  const governor = useRef(new QualityGovernor());
+
+  // Post-processing renders several passes per frame, so count draw calls across the whole frame
+  useEffect(() => {
+    gl.info.autoReset = false;
+    return () => {
+      gl.info.autoReset = true;
+    };
+  }, [gl]);
+
+  useEffect(() => {
+    if (!settings.governor) setQualityLevel(governor.current.reset());
+  }, [settings.governor, setQualityLevel]);
+
+  useEffect(() => {
+    setDpr(Math.min(QUALITY_LEVELS[qualityLevel].dpr, window.devicePixelRatio));
+  }, [qualityLevel, setDpr]);
+
+  // Runs before everything else, so the counters cover exactly the previous frame
+  useFrame((_, delta) => {
+    const published = frameMonitor.record(delta, {
+      dpr: gl.getPixelRatio(),
+      level: governor.current.level,
+      drawCalls: gl.info.render.calls,
+    });
+    gl.info.reset();
+
+    // Exports run at fixed steps and sizes, which say nothing about the live frame rate
+    if (!published || !settings.governor || sceneCapture.isExporting) return;
+    const level = governor.current.update(frameMonitor.stats.fps, settings.targetFps);
+    if (level !== null) setQualityLevel(level);
+  }, -1);
+
+  return null;
+};
+
+export default PerformanceGovernor;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { useStore } from '../store';
+import { QUALITY_LEVELS } from '../services/performance';
+
+const TARGET_RATES = [30, 60, 120];
+
+// Governor, target frame rate and the stats overlay
+const PerformancePanel: React.FC = () => {
+  const settings = useStore(state => state.performance);
+  const setPerformance = useStore(state => state.setPerformance);
+  const qualityLevel = useStore(state => state.qualityLevel);
+  const particleCount = useStore(state => state.config.particleCount);
+  const level = QUALITY_LEVELS[qualityLevel];
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-[11px] text-white/70">
+        <input
+          type="checkbox"
+          checked={settings.governor}
+          onChange={(e) => setPerformance({ governor: e.target.checked })}
+          className="accent-cyan-400"
+        />
+        Adapt quality to hold the frame rate
+      </label>
+
+      <div className="space-y-1">
+        <div className="text-[10px] text-white/40 uppercase tracking-wider">Target</div>
+        <div className="grid grid-cols-3 gap-1">
+          {TARGET_RATES.map(fps => (
+            <button
+              key={fps}
+              onClick={() => setPerformance({ targetFps: fps })}
+              className={`px-2 py-1 rounded-lg text-[11px] border transition-colors ${
+                settings.targetFps === fps
+                  ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300'
+                  : 'bg-white/5 border-white/10 text-white/60 hover:bg-white/10'
+              }`}
+            >
+              {fps} fps
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {settings.governor && (
+        <p className="text-[11px] text-white/40">
+          {qualityLevel === 0
+            ? 'Running at full quality.'
+            : `Reduced to ${Math.round(level.countScale * 100)}% of ${particleCount.toLocaleString()} particles, ` +
+              `pixel ratio ${level.dpr} and ${Math.round(level.effectScale * 100)}% bloom resolution.`}
+        </p>
+      )}
+
+      <label className="flex items-center gap-2 text-[11px] text-white/70">
+        <input
+          type="checkbox"
+          checked={settings.showStats}
+          onChange={(e) => setPerformance({ showStats: e.target.checked })}
+          className="accent-cyan-400"
+        />
+        Show stats overlay
+      </label>
+    </div>
+  );
+};
+
+export default PerformancePanel;
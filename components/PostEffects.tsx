@@ -0,0 +1,105 @@
+import React, { useCallback, useEffect, useMemo } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { AfterimagePass } from 'three/examples/jsm/postprocessing/AfterimagePass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { RGBShiftShader } from 'three/examples/jsm/shaders/RGBShiftShader.js';
+import { ParticleConfig, ToneMappingId, useStore } from '../store';
+import { sceneCapture } from '../services/capture';
+import { QUALITY_LEVELS } from '../services/performance';
+
+const TONE_MAPPING: Record<ToneMappingId, THREE.ToneMapping> = {
+  none: THREE.NoToneMapping,
+  filmic: THREE.ACESFilmicToneMapping,
+  agx: THREE.AgXToneMapping,
+  neutral: THREE.NeutralToneMapping,
+};
+
+// Depth of field is done per point in the particle shader, so it needs no pass here
+const needsComposer = (config: ParticleConfig) =>
+  config.bloom || config.trails || config.chromaticAberration || config.toneMapping !== 'none';
+
+// Screen-space chain: scene -> trails -> bloom -> channel split -> tone mapping
+const EffectChain: React.FC = () => {
+  const gl = useThree(state => state.gl);
+  const scene = useThree(state => state.scene);
+  const camera = useThree(state => state.camera);
+  const config = useStore(state => state.config);
+  const effectScale = useStore(state => QUALITY_LEVELS[state.qualityLevel].effectScale);
+
+  const chain = useMemo(() => {
+    const composer = new EffectComposer(gl);
+    const trails = new AfterimagePass();
+    const bloom = new UnrealBloomPass(new THREE.Vector2(256, 256), 1, 0.5, 0.2);
+    const aberration = new ShaderPass(RGBShiftShader);
+    composer.addPass(new RenderPass(scene, camera));
+    composer.addPass(trails);
+    composer.addPass(bloom);
+    composer.addPass(aberration);
+    composer.addPass(new OutputPass());
+    return { composer, trails, bloom, aberration, size: new THREE.Vector2(), scale: 1 };
+  }, [gl, scene, camera]);
+
+  useEffect(() => () => chain.composer.dispose(), [chain]);
+
+  // The particle shader writes display-ready colors, so the output pass must not
+  // convert them again; this keeps the look identical with the chain on or off
+  useEffect(() => {
+    const { outputColorSpace, toneMapping, toneMappingExposure } = gl;
+    gl.outputColorSpace = THREE.LinearSRGBColorSpace;
+    return () => {
+      gl.outputColorSpace = outputColorSpace;
+      gl.toneMapping = toneMapping;
+      gl.toneMappingExposure = toneMappingExposure;
+    };
+  }, [gl]);
+
+  useEffect(() => {
+    chain.trails.enabled = config.trails;
+    chain.trails.damp = config.trailDecay;
+    chain.bloom.enabled = config.bloom;
+    chain.bloom.strength = config.bloomIntensity;
+    chain.bloom.threshold = config.bloomThreshold;
+    chain.bloom.radius = config.bloomRadius;
+    chain.aberration.enabled = config.chromaticAberration;
+    chain.aberration.uniforms.amount.value = config.aberrationAmount * 0.01;
+    gl.toneMapping = TONE_MAPPING[config.toneMapping];
+    gl.toneMappingExposure = config.exposure;
+  }, [chain, gl, config]);
+
+  const render = useCallback((delta: number) => {
+    // Follows the drawing buffer, which exports resize independently of the window
+    const buffer = gl.getDrawingBufferSize(new THREE.Vector2());
+    if (!buffer.equals(chain.size) || chain.scale !== effectScale) {
+      chain.size.copy(buffer);
+      chain.scale = effectScale;
+      chain.composer.setPixelRatio(1);
+      chain.composer.setSize(buffer.x, buffer.y);
+      // The governor trades bloom resolution for frame rate; the blur hides the difference
+      chain.bloom.setSize(Math.ceil(buffer.x * effectScale), Math.ceil(buffer.y * effectScale));
+    }
+    chain.composer.render(delta);
+  }, [chain, gl, effectScale]);
+
+  useEffect(() => {
+    sceneCapture.setRenderOverride(() => render(0));
+    return () => sceneCapture.setRenderOverride(null);
+  }, [render]);
+
+  // A positive priority takes over rendering from R3F
+  useFrame((_, delta) => render(delta), 1);
+
+  return null;
+};
+
+/** Mounts the post-processing chain only while an effect needs it. */
+const PostEffects: React.FC = () => {
+  const active = useStore(state => needsComposer(state.config));
+  return active ? <EffectChain /> : null;
+};
+
+export default PostEffects;
@@ -0,0 +1,172 @@
+import React, { useRef, useState } from 'react';
+import { useStore } from '../store';
+import { createPreset, crossfadeTo, parsePresets, Preset, presetShareUrl } from '../services/presets';
+import { downloadJson, readJsonFile } from '../services/files';
+import { gradientCss, gradientStops } from '../simulation/palettes';
+import { Bookmark, Check, Download, Link, Pencil, Save, Trash2, Upload } from 'lucide-react';
+import Slider from './Slider';
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1 rounded-lg text-xs bg-white/5 text-white/70 hover:bg-white/10 disabled:opacity-40';
+const iconClass = 'text-white/30 hover:text-white/80 shrink-0';
+
+const Swatch: React.FC<{ preset: Preset }> = ({ preset }) => (
+  <span
+    className="w-4 h-4 rounded-full shrink-0 border border-white/10"
+    style={{ background: gradientCss(gradientStops(preset.config), 135) }}
+  />
+);
+
+const PresetsPanel: React.FC = () => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [name, setName] = useState('');
+  const [fadeSeconds, setFadeSeconds] = useState(2);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const presets = useStore(state => state.presets);
+  const setPresets = useStore(state => state.setPresets);
+  const setError = useStore(state => state.setError);
+
+  const saved = presets.filter(p => p.origin === 'user');
+  const generated = presets.filter(p => p.origin === 'ai');
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setPresets([createPreset(name.trim(), useStore.getState().config), ...presets]);
+    setName('');
+  };
+
+  const update = (id: string, patch: Partial<Preset>) =>
+    setPresets(presets.map(p => (p.id === id ? { ...p, ...patch } : p)));
+
+  const remove = (id: string) => setPresets(presets.filter(p => p.id !== id));
+
+  const commitRename = () => {
+    if (renaming && renaming.name.trim()) update(renaming.id, { name: renaming.name.trim() });
+    setRenaming(null);
+  };
+
+  const share = async (preset: Preset) => {
+    const url = presetShareUrl(preset);
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedId(preset.id);
+      setTimeout(() => setCopiedId(null), 1500);
+    } catch {
+      // Clipboard blocked (e.g. insecure context): put the link in the address bar instead
+      window.history.replaceState(null, '', url);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresets(await readJsonFile(file));
+      const known = new Set(presets.map(p => p.id));
+      setPresets([...presets, ...imported.filter(p => !known.has(p.id))]);
+      setError(null);
+    } catch (err) {
+      setError(`Could not import presets: ${(err as Error).message}`);
+    }
+  };
+
+  const row = (preset: Preset, actions: React.ReactNode) => (
+    <li key={preset.id} className="flex items-center gap-2 bg-white/5 rounded-lg px-2 py-1.5">
+      <Swatch preset={preset} />
+      {renaming?.id === preset.id ? (
+        <input
+          autoFocus
+          value={renaming.name}
+          onChange={(e) => setRenaming({ id: preset.id, name: e.target.value })}
+          onBlur={commitRename}
+          onKeyDown={(e) => e.key === 'Enter' && commitRename()}
+          className="flex-1 min-w-0 bg-transparent border-b border-cyan-500/50 text-xs focus:outline-none"
+        />
+      ) : (
+        <button
+          onClick={() => crossfadeTo(preset.config, fadeSeconds)}
+          className="flex-1 min-w-0 text-left text-xs text-white/80 hover:text-white truncate"
+          title={preset.prompt ?? preset.name}
+        >
+          {preset.name}
+        </button>
+      )}
+      {actions}
+      <button onClick={() => remove(preset.id)} className={`${iconClass} hover:text-red-300`}>
+        <Trash2 size={12} />
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={save} className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Preset name"
+          className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-xs focus:outline-none focus:border-cyan-500/50"
+        />
+        <button type="submit" disabled={!name.trim()} className={buttonClass}>
+          <Save size={12} /> Save
+        </button>
+      </form>
+
+      <Slider
+        label="Crossfade"
+        value={fadeSeconds}
+        min={0}
+        max={10}
+        step={0.5}
+        onChange={setFadeSeconds}
+        format={(v) => `${v.toFixed(1)}s`}
+      />
+
+      <div>
+        <div className="text-[10px] text-white/40 uppercase tracking-wider mb-2">Saved</div>
+        {saved.length === 0 && <p className="text-[11px] text-white/40">No presets yet.</p>}
+        <ul className="space-y-1">
+          {saved.map(preset => row(preset, (
+            <>
+              <button onClick={() => setRenaming({ id: preset.id, name: preset.name })} className={iconClass}>
+                <Pencil size={12} />
+              </button>
+              <button onClick={() => share(preset)} className={iconClass} title="Copy share link">
+                {copiedId === preset.id ? <Check size={12} className="text-cyan-300" /> : <Link size={12} />}
+              </button>
+            </>
+          )))}
+        </ul>
+      </div>
+
+      {generated.length > 0 && (
+        <div>
+          <div className="text-[10px] text-white/40 uppercase tracking-wider mb-2">Generated</div>
+          <ul className="space-y-1">
+            {generated.map(preset => row(preset, (
+              <button onClick={() => update(preset.id, { origin: 'user' })} className={iconClass} title="Keep as preset">
+                <Bookmark size={12} />
+              </button>
+            )))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button onClick={() => fileRef.current?.click()} className={buttonClass}>
+          <Upload size={12} /> Import
+        </button>
+        <button onClick={() => downloadJson(saved, 'particle-presets.json')} disabled={saved.length === 0} className={buttonClass}>
+          <Download size={12} /> Export
+        </button>
+        <input ref={fileRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+      </div>
+    </div>
+  );
+};
+
+export default PresetsPanel;
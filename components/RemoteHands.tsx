@@ -0,0 +1,21 @@
+import React from 'react';
+import * as THREE from 'three';
+import { useStore } from '../store';
+
+// Marks where other participants' hands are, in their assigned colors
+const RemoteHands: React.FC = () => {
+  const remoteHands = useStore(state => state.remoteHands);
+
+  return (
+    <>
+      {remoteHands.map((hand, i) => (
+        <mesh key={`${hand.peerId}-${i}`} position={hand.position}>
+          <sphereGeometry args={[0.12, 16, 16]} />
+          <meshBasicMaterial color={hand.color} transparent opacity={0.8} blending={THREE.AdditiveBlending} depthWrite={false} />
+        </mesh>
+      ))}
+    </>
+  );
+};
+
+export default RemoteHands;
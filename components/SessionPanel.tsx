@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useStore } from '../store';
+import { parseRecording, PlaybackState, SessionPlayer, sessionRecorder } from '../input/session';
+import { downloadJson, readJsonFile } from '../services/files';
+import { Circle, FolderOpen, Pause, Play, Repeat, Square } from 'lucide-react';
+
+const formatTime = (ms: number) => {
+  const s = Math.floor(ms / 1000);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1 rounded-lg text-xs bg-white/5 text-white/70 hover:bg-white/10 disabled:opacity-40';
+
+const SessionPanel: React.FC = () => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [isRecording, setIsRecording] = useState(sessionRecorder.isRecording);
+  const [playback, setPlayback] = useState<PlaybackState | null>(null);
+
+  const player = useStore(state => state.sessionPlayer);
+  const setPlayer = useStore(state => state.setSessionPlayer);
+  const inputSource = useStore(state => state.inputSource);
+  const setInputSource = useStore(state => state.setInputSource);
+  const setError = useStore(state => state.setError);
+
+  useEffect(() => {
+    if (!player) return;
+    setPlayback(player.state);
+    return player.subscribe(setPlayback);
+  }, [player]);
+
+  const toggleRecording = () => {
+    if (sessionRecorder.isRecording) {
+      const recording = sessionRecorder.stop();
+      setIsRecording(false);
+      if (recording) {
+        downloadJson(recording, `session-${recording.createdAt.replace(/[:.]/g, '-')}.json`);
+      }
+    } else {
+      sessionRecorder.start();
+      setIsRecording(true);
+    }
+  };
+
+  const handleLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const recording = parseRecording(await readJsonFile(file));
+      if (inputSource === 'playback') setInputSource('webcam');
+      setPlayer(new SessionPlayer(recording, file.name));
+      setError(null);
+    } catch (err) {
+      setError(`Could not load session: ${(err as Error).message}`);
+    }
+  };
+
+  const togglePlay = () => {
+    if (!player) return;
+    if (player.state.playing) {
+      player.pause();
+    } else {
+      if (inputSource !== 'playback') {
+        setInputSource('playback');
+        player.seek(player.state.time);
+      }
+      player.play();
+    }
+  };
+
+  const stopPlayback = () => {
+    player?.pause();
+    player?.seek(0);
+    setInputSource('webcam');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="text-[10px] text-white/40 uppercase tracking-wider mb-2">Record</div>
+        <button
+          onClick={toggleRecording}
+          disabled={inputSource === 'playback'}
+          className={`${buttonClass} ${isRecording ? 'text-red-300 bg-red-500/10' : ''}`}
+        >
+          <Circle size={10} className={isRecording ? 'fill-red-400 animate-pulse' : ''} />
+          {isRecording ? 'Stop & save' : 'Record session'}
+        </button>
+        <p className="text-[11px] text-white/40 mt-1.5">
+          Captures landmarks, gestures and config changes to a JSON file.
+        </p>
+      </div>
+
+      <div>
+        <div className="text-[10px] text-white/40 uppercase tracking-wider mb-2">Playback</div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => fileRef.current?.click()} className={buttonClass}>
+            <FolderOpen size={12} /> Load
+          </button>
+          <span className="text-[11px] text-white/50 truncate">{player?.name ?? 'No session loaded'}</span>
+          <input ref={fileRef} type="file" accept=".json,application/json" className="hidden" onChange={handleLoad} />
+        </div>
+
+        {player && playback && (
+          <div className="mt-2 space-y-2">
+            <input
+              type="range"
+              min={0}
+              max={player.recording.duration}
+              step={10}
+              value={playback.time}
+              // Seeking writes the recorded config and hands; only while playback owns the store
+              disabled={inputSource !== 'playback'}
+              onChange={(e) => player.seek(parseFloat(e.target.value))}
+              className="w-full accent-cyan-400 disabled:opacity-40"
+            />
+            <div className="flex items-center gap-2">
+              <button onClick={togglePlay} className={buttonClass}>
+                {playback.playing ? <Pause size={12} /> : <Play size={12} />}
+              </button>
+              <button onClick={stopPlayback} disabled={inputSource !== 'playback'} className={buttonClass}>
+                <Square size={12} />
+              </button>
+              <button
+                onClick={() => player.setLoop(!playback.loop)}
+                className={`${buttonClass} ${playback.loop ? 'text-cyan-300 bg-cyan-500/10' : ''}`}
+              >
+                <Repeat size={12} />
+              </button>
+              <span className="ml-auto text-[11px] tabular-nums text-white/50">
+                {formatTime(playback.time)} / {formatTime(player.recording.duration)}
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionPanel;
@@ -0,0 +1,100 @@
+import React, { useRef } from 'react';
+import { useStore } from '../store';
+import { PROCEDURAL_SHAPES, SHAPE_LABELS, sampleImageFile, sampleMeshFile } from '../simulation/shapes';
+import { Upload } from 'lucide-react';
+import Slider from './Slider';
+
+const ShapePicker: React.FC = () => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const config = useStore(state => state.config);
+  const setConfig = useStore(state => state.setConfig);
+  const customShape = useStore(state => state.customShape);
+  const setCustomShape = useStore(state => state.setCustomShape);
+  const setError = useStore(state => state.setError);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const shape = file.name.toLowerCase().endsWith('.png')
+        ? await sampleImageFile(file)
+        : sampleMeshFile(file.name, await file.text());
+      setCustomShape(shape);
+      setConfig({ shape: shape.kind });
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load shape file:', err);
+      setError(`Could not read "${file.name}": ${(err as Error).message}`);
+    }
+  };
+
+  const shapeButton = (active: boolean) =>
+    `px-2 py-1.5 rounded-lg text-xs border transition-colors ${
+      active
+        ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300'
+        : 'bg-white/5 border-white/10 text-white/60 hover:bg-white/10'
+    }`;
+
+  return (
+    <div className="mt-4">
+      <div className="text-[10px] text-white/40 uppercase tracking-wider mb-2">Shape</div>
+      <div className="grid grid-cols-3 gap-1.5">
+        {PROCEDURAL_SHAPES.map(shape => (
+          <button
+            key={shape}
+            onClick={() => setConfig({ shape })}
+            className={shapeButton(config.shape === shape)}
+          >
+            {SHAPE_LABELS[shape]}
+          </button>
+        ))}
+      </div>
+
+      {config.shape === 'text' && (
+        <input
+          type="text"
+          value={config.shapeText}
+          maxLength={12}
+          onChange={(e) => setConfig({ shapeText: e.target.value })}
+          className="mt-2 w-full bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-xs focus:outline-none focus:border-cyan-500/50"
+        />
+      )}
+
+      <div className="mt-2 flex items-center gap-2">
+        <button
+          onClick={() => fileRef.current?.click()}
+          className={`${shapeButton(config.shape === 'mesh' || config.shape === 'image')} flex items-center gap-1.5`}
+        >
+          <Upload size={12} />
+          OBJ / PLY / PNG
+        </button>
+        {customShape && (
+          <button
+            onClick={() => setConfig({ shape: customShape.kind })}
+            className="text-[10px] text-white/40 hover:text-white/80 truncate"
+            title={SHAPE_LABELS[customShape.kind]}
+          >
+            {customShape.name}
+          </button>
+        )}
+        <input ref={fileRef} type="file" accept=".obj,.ply,.png" className="hidden" onChange={handleFile} />
+      </div>
+
+      <div className="mt-3">
+        <Slider
+          label="Morph time"
+          value={config.morphDuration}
+          min={0}
+          max={5}
+          step={0.1}
+          onChange={(morphDuration) => setConfig({ morphDuration })}
+          format={(v) => `${v.toFixed(1)}s`}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ShapePicker;
@@ -0,0 +1,30 @@
+import React from 'react';
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+  format?: (value: number) => string;
+}
+
+// Compact labelled range input used across the settings panels
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, onChange, format }) => (
+  <label className="flex items-center gap-2 text-[11px] text-white/50">
+    <span className="w-24 shrink-0 truncate">{label}</span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="flex-1 min-w-0 accent-cyan-400"
+    />
+    <span className="w-12 text-right tabular-nums text-white/70">{format ? format(value) : value}</span>
+  </label>
+);
+
+export default Slider;
@@ -0,0 +1,37 @@
+import React, { useEffect, useState } from 'react';
+import { useStore } from '../store';
+import { FrameStats, frameMonitor, QUALITY_LEVELS } from '../services/performance';
+
+const Row: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="flex justify-between gap-4">
+    <span className="text-white/40">{label}</span>
+    <span className="tabular-nums">{value}</span>
+  </div>
+);
+
+// Frame rate, timings and what the governor is currently trading away
+const StatsOverlay: React.FC = () => {
+  const visible = useStore(state => state.performance.showStats);
+  const targetFps = useStore(state => state.performance.targetFps);
+  const [stats, setStats] = useState<FrameStats>(frameMonitor.stats);
+
+  useEffect(() => (visible ? frameMonitor.subscribe(setStats) : undefined), [visible]);
+
+  if (!visible) return null;
+
+  const fpsColor = stats.fps >= targetFps * 0.92 ? 'text-emerald-300' : stats.fps >= targetFps * 0.6 ? 'text-amber-300' : 'text-red-300';
+
+  return (
+    <div className="absolute bottom-4 left-4 z-20 w-44 p-2 rounded-lg bg-black/60 backdrop-blur border border-white/10 font-mono text-[10px] text-white/80 pointer-events-none">
+      <div className={`text-sm tabular-nums ${fpsColor}`}>{stats.fps.toFixed(0)} fps</div>
+      <Row label="frame" value={`${stats.frameMs.toFixed(1)} ms`} />
+      <Row label="worst" value={`${stats.worstMs.toFixed(1)} ms`} />
+      <Row label="particles" value={`${stats.particles.toLocaleString()} / ${stats.capacity.toLocaleString()}`} />
+      <Row label="dpr" value={stats.dpr.toFixed(2)} />
+      <Row label="quality" value={`${QUALITY_LEVELS.length - stats.level} / ${QUALITY_LEVELS.length}`} />
+      <Row label="draw calls" value={String(stats.drawCalls)} />
+    </div>
+  );
+};
+
+export default StatsOverlay;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { ParticleConfig, useStore } from '../store';
+import { timelinePlayer } from '../services/timeline';
+import { cameraRig } from '../services/camera';
+
+const ORIGIN = new THREE.Vector3();
+
+// Advances the timeline on the render clock and applies its samples to the
+// config and camera. Expansion is read by Particles from the player directly.
+const TimelineDriver: React.FC = () => {
+  const camera = useThree(state => state.camera);
+
+  useFrame((_, delta) => {
+    const { timeline, isHandDetected, config, setConfig } = useStore.getState();
+    const sample = timelinePlayer.advance(timeline, delta, isHandDetected);
+
+    if (sample) {
+      // Only write fields that moved, so idle tracks do not re-render the panels
+      const changes = Object.fromEntries(
+        Object.entries(sample.config).filter(([key, value]) => config[key as keyof ParticleConfig] !== value)
+      ) as Partial<ParticleConfig>;
+      if (Object.keys(changes).length > 0) setConfig(changes);
+
+      if (sample.cameraDistance !== undefined || sample.cameraOrbit !== undefined) {
+        const distance = sample.cameraDistance ?? timelinePlayer.camera.distance;
+        const orbit = THREE.MathUtils.degToRad(sample.cameraOrbit ?? timelinePlayer.camera.orbit);
+        camera.position.set(Math.sin(orbit) * distance, camera.position.y, Math.cos(orbit) * distance);
+        camera.lookAt(ORIGIN);
+        // Camera tracks take precedence over the camera mode while they play
+        cameraRig.hold(camera, ORIGIN);
+      }
+    }
+
+    timelinePlayer.camera.distance = Math.hypot(camera.position.x, camera.position.z);
+    timelinePlayer.camera.orbit = THREE.MathUtils.radToDeg(Math.atan2(camera.position.x, camera.position.z));
+  });
+
+  return null;
+};
+
+export default TimelineDriver;
@@ -0,0 +1,330 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useStore } from '../store';
+import { CONFIG_SCHEMA } from '../services/configSchema';
+import {
+  CONFIG_TRACKS,
+  EASINGS,
+  Easing,
+  EMPTY_TIMELINE,
+  Keyframe,
+  parseTimeline,
+  removeKeyframe,
+  TimelinePlaybackState,
+  timelinePlayer,
+  TRACK_LABELS,
+  TrackId,
+  upsertKeyframe,
+} from '../services/timeline';
+import { downloadJson, readJsonFile } from '../services/files';
+import { Diamond, Download, FolderOpen, Hand, Pause, Play, Plus, Repeat, Square, Trash2 } from 'lucide-react';
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1 rounded-lg text-xs bg-white/5 text-white/70 hover:bg-white/10 disabled:opacity-40';
+const fieldClass = 'bg-white/5 border border-white/10 rounded-md px-1.5 py-1 text-[11px] focus:outline-none focus:border-cyan-500/50';
+
+const TRACK_IDS = Object.keys(TRACK_LABELS) as TrackId[];
+
+const formatTime = (s: number) => `${Math.floor(s / 60)}:${(s % 60).toFixed(1).padStart(4, '0')}`;
+
+const formatValue = (value: number | string) =>
+  typeof value === 'number' ? String(Number(value.toFixed(2))) : value;
+
+const isConfigTrack = (id: TrackId): id is typeof CONFIG_TRACKS[number] =>
+  (CONFIG_TRACKS as readonly string[]).includes(id);
+
+// Value the track has in the scene right now, used when keying
+const currentValue = (id: TrackId): number | string => {
+  if (isConfigTrack(id)) return useStore.getState().config[id];
+  if (id === 'expansion') return 1;
+  return id === 'cameraDistance' ? timelinePlayer.camera.distance : timelinePlayer.camera.orbit;
+};
+
+const ValueInput: React.FC<{ trackId: TrackId; value: number | string; onChange: (v: number | string) => void }> = ({
+  trackId,
+  value,
+  onChange,
+}) => {
+  const field = isConfigTrack(trackId) ? CONFIG_SCHEMA[trackId] : null;
+  if (field?.type === 'color') {
+    return <input type="color" value={String(value)} onChange={(e) => onChange(e.target.value)} className="w-10 h-6 bg-transparent" />;
+  }
+  if (field?.type === 'enum') {
+    return (
+      <select value={String(value)} onChange={(e) => onChange(e.target.value)} className={fieldClass}>
+        {field.options.map(o => <option key={o} value={o}>{o}</option>)}
+      </select>
+    );
+  }
+  if (field?.type === 'string') {
+    return (
+      <input
+        type="text"
+        value={String(value)}
+        maxLength={field.maxLength}
+        onChange={(e) => onChange(e.target.value)}
+        className={`${fieldClass} w-24`}
+      />
+    );
+  }
+  return (
+    <input
+      type="number"
+      value={Number(Number(value).toFixed(3))}
+      step={field?.type === 'number' ? field.step : trackId === 'cameraOrbit' ? 5 : 0.1}
+      onChange={(e) => e.target.value !== '' && onChange(parseFloat(e.target.value))}
+      className={`${fieldClass} w-20 tabular-nums`}
+    />
+  );
+};
+
+const TimelinePanel: React.FC = () => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [playback, setPlayback] = useState<TimelinePlaybackState>(timelinePlayer.state);
+  const [trackToAdd, setTrackToAdd] = useState<TrackId>('color1');
+  const [selected, setSelected] = useState<{ trackId: TrackId; keyframeId: string } | null>(null);
+
+  const timeline = useStore(state => state.timeline);
+  const setTimeline = useStore(state => state.setTimeline);
+  const setError = useStore(state => state.setError);
+
+  useEffect(() => timelinePlayer.subscribe(setPlayback), []);
+
+  const selectedTrack = selected && timeline.tracks.find(t => t.id === selected.trackId);
+  const selectedKey = selectedTrack?.keyframes.find(k => k.id === selected!.keyframeId);
+
+  const addKeyframe = (trackId: TrackId) => {
+    const keyframe: Keyframe = {
+      id: crypto.randomUUID(),
+      time: Number(playback.time.toFixed(2)),
+      value: currentValue(trackId),
+      easing: 'easeInOut',
+    };
+    setTimeline(upsertKeyframe(timeline, trackId, keyframe));
+    setSelected({ trackId, keyframeId: keyframe.id });
+  };
+
+  const keyAllConfig = () => {
+    const time = Number(playback.time.toFixed(2));
+    setTimeline(CONFIG_TRACKS.reduce(
+      (tl, id) => upsertKeyframe(tl, id, { id: crypto.randomUUID(), time, value: currentValue(id), easing: 'easeInOut' }),
+      timeline
+    ));
+  };
+
+  const updateSelected = (patch: Partial<Keyframe>) => {
+    if (!selected || !selectedKey) return;
+    const time = patch.time === undefined ? selectedKey.time : Math.min(Math.max(patch.time, 0), timeline.duration);
+    setTimeline(upsertKeyframe(timeline, selected.trackId, { ...selectedKey, ...patch, time }));
+  };
+
+  const deleteSelected = () => {
+    if (!selected) return;
+    setTimeline(removeKeyframe(timeline, selected.trackId, selected.keyframeId));
+    setSelected(null);
+  };
+
+  const togglePlay = () => (playback.playing ? timelinePlayer.pause() : timelinePlayer.play());
+
+  // Clicking the empty part of a lane moves the playhead there
+  const seekFromLane = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    timelinePlayer.seek(((e.clientX - rect.left) / rect.width) * timeline.duration);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setTimeline(parseTimeline(await readJsonFile(file)));
+      timelinePlayer.stop();
+      setSelected(null);
+      setError(null);
+    } catch (err) {
+      setError(`Could not load timeline: ${(err as Error).message}`);
+    }
+  };
+
+  const playheadLeft = `${Math.min(playback.time / timeline.duration, 1) * 100}%`;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <input
+          key={timeline.name}
+          defaultValue={timeline.name}
+          onBlur={(e) => e.target.value.trim() && setTimeline({ ...timeline, name: e.target.value.trim() })}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          className={`${fieldClass} w-full text-xs`}
+        />
+        <input
+          type="range"
+          min={0}
+          max={timeline.duration}
+          step={0.05}
+          value={Math.min(playback.time, timeline.duration)}
+          onChange={(e) => timelinePlayer.seek(parseFloat(e.target.value))}
+          className="w-full accent-cyan-400"
+        />
+        <div className="flex items-center gap-2">
+          <button onClick={togglePlay} className={buttonClass}>
+            {playback.playing ? <Pause size={12} /> : <Play size={12} />}
+          </button>
+          <button onClick={() => timelinePlayer.stop()} className={buttonClass}>
+            <Square size={12} />
+          </button>
+          <button
+            onClick={() => setTimeline({ ...timeline, loop: !timeline.loop })}
+            className={`${buttonClass} ${timeline.loop ? 'text-cyan-300 bg-cyan-500/10' : ''}`}
+            title="Loop"
+          >
+            <Repeat size={12} />
+          </button>
+          <button
+            onClick={() => setTimeline({ ...timeline, handOverride: !timeline.handOverride })}
+            className={`${buttonClass} ${timeline.handOverride ? 'text-cyan-300 bg-cyan-500/10' : ''}`}
+            title="Hold playback while a hand is in view"
+          >
+            <Hand size={12} />
+          </button>
+          {playback.overridden && playback.playing && (
+            <span className="text-[10px] text-amber-300/80 uppercase tracking-wider">Hand</span>
+          )}
+          <span className="ml-auto text-[11px] tabular-nums text-white/50">
+            {formatTime(playback.time)} /
+          </span>
+          <input
+            key={timeline.duration}
+            type="number"
+            min={1}
+            step={1}
+            defaultValue={timeline.duration}
+            onBlur={(e) => {
+              const duration = parseFloat(e.target.value);
+              if (duration >= 1) setTimeline({ ...timeline, duration });
+              else e.target.value = String(timeline.duration);
+            }}
+            className={`${fieldClass} w-14 tabular-nums`}
+            title="Duration (seconds)"
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="text-[10px] text-white/40 uppercase tracking-wider mb-2">Tracks</div>
+        {timeline.tracks.length === 0 && (
+          <p className="text-[11px] text-white/40">Move the playhead, set up the scene and key the values you want to animate.</p>
+        )}
+        <div className="space-y-1">
+          {timeline.tracks.map(track => (
+            <div key={track.id} className="flex items-center gap-2">
+              <button
+                onClick={() => addKeyframe(track.id)}
+                className="w-24 shrink-0 text-left text-[11px] text-white/60 hover:text-white truncate"
+                title="Key the current value at the playhead"
+              >
+                {TRACK_LABELS[track.id]}
+              </button>
+              <div onClick={seekFromLane} className="relative flex-1 h-5 rounded bg-white/5 cursor-pointer">
+                <div className="absolute top-0 bottom-0 w-px bg-cyan-400/60 pointer-events-none" style={{ left: playheadLeft }} />
+                {track.keyframes.map(k => {
+                  const isSelected = selected?.keyframeId === k.id;
+                  return (
+                    <button
+                      key={k.id}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setSelected({ trackId: track.id, keyframeId: k.id });
+                        timelinePlayer.seek(k.time);
+                      }}
+                      className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2"
+                      style={{ left: `${Math.min(k.time / timeline.duration, 1) * 100}%` }}
+                      title={`${formatTime(k.time)} · ${formatValue(k.value)}`}
+                    >
+                      <Diamond
+                        size={10}
+                        className={isSelected ? 'text-cyan-300 fill-cyan-300' : 'text-white/60 fill-white/30'}
+                        style={typeof k.value === 'string' && k.value.startsWith('#') ? { fill: k.value } : undefined}
+                      />
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2 mt-2">
+          <select value={trackToAdd} onChange={(e) => setTrackToAdd(e.target.value as TrackId)} className={fieldClass}>
+            {TRACK_IDS.map(id => <option key={id} value={id}>{TRACK_LABELS[id]}</option>)}
+          </select>
+          <button onClick={() => addKeyframe(trackToAdd)} className={buttonClass}>
+            <Plus size={12} /> Key
+          </button>
+          <button onClick={keyAllConfig} className={buttonClass} title="Key every config track at the playhead">
+            <Diamond size={12} /> Key scene
+          </button>
+        </div>
+      </div>
+
+      {selected && selectedKey && (
+        <div className="space-y-2 bg-white/5 rounded-lg p-2">
+          <div className="text-[10px] text-white/40 uppercase tracking-wider">{TRACK_LABELS[selected.trackId]} keyframe</div>
+          <div className="flex flex-wrap items-center gap-2 text-[11px] text-white/50">
+            <label className="flex items-center gap-1">
+              At
+              <input
+                type="number"
+                step={0.1}
+                value={selectedKey.time}
+                onChange={(e) => e.target.value !== '' && updateSelected({ time: parseFloat(e.target.value) })}
+                className={`${fieldClass} w-16 tabular-nums`}
+              />
+              s
+            </label>
+            <ValueInput trackId={selected.trackId} value={selectedKey.value} onChange={(value) => updateSelected({ value })} />
+            <select
+              value={selectedKey.easing}
+              onChange={(e) => updateSelected({ easing: e.target.value as Easing })}
+              className={fieldClass}
+              title="Curve from the previous keyframe"
+            >
+              {EASINGS.map(e => <option key={e} value={e}>{e}</option>)}
+            </select>
+            <button onClick={() => updateSelected({ value: currentValue(selected.trackId) })} className={buttonClass}>
+              Use current
+            </button>
+            <button onClick={deleteSelected} className={`${buttonClass} ml-auto`}>
+              <Trash2 size={12} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button onClick={() => fileRef.current?.click()} className={buttonClass}>
+          <FolderOpen size={12} /> Load
+        </button>
+        <button
+          onClick={() => downloadJson(timeline, `${timeline.name.replace(/[^\w-]+/g, '-').toLowerCase()}.json`)}
+          className={buttonClass}
+        >
+          <Download size={12} /> Save
+        </button>
+        <button
+          onClick={() => {
+            setTimeline(EMPTY_TIMELINE);
+            timelinePlayer.stop();
+            setSelected(null);
+          }}
+          disabled={timeline.tracks.length === 0}
+          className={`${buttonClass} ml-auto`}
+        >
+          <Trash2 size={12} /> Clear
+        </button>
+        <input ref={fileRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+      </div>
+    </div>
+  );
+};
+
+export default TimelinePanel;
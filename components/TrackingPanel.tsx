@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import { useStore } from '../store';
+import { FilterType } from '../input/filters';
+import { INPUT_LABELS, INPUT_PROVIDERS } from '../input/inputProviders';
+import { MIDI_MAPPINGS } from '../input/midiInput';
+import { FRAME_RATES, listCameras, RESOLUTIONS } from '../input/webcam';
+import Slider from './Slider';
+
+const FILTER_LABELS: Record<FilterType, string> = {
+  none: 'Raw',
+  oneEuro: 'One Euro',
+  kalman: 'Kalman'
+};
+
+const selectClass = 'bg-white/5 border border-white/10 rounded-md px-1.5 py-1 text-[11px] focus:outline-none focus:border-cyan-500/50';
+
+const sourceButton = (active: boolean) =>
+  `px-2 py-1.5 rounded-lg text-xs border transition-colors disabled:opacity-40 ${
+    active
+      ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300'
+      : 'bg-white/5 border-white/10 text-white/60 hover:bg-white/10'
+  }`;
+
+const TrackingPanel: React.FC = () => {
+  const filter = useStore(state => state.trackingFilter);
+  const setFilter = useStore(state => state.setTrackingFilter);
+  const inputSource = useStore(state => state.inputSource);
+  const setInputSource = useStore(state => state.setInputSource);
+  const websocketUrl = useStore(state => state.websocketUrl);
+  const setWebsocketUrl = useStore(state => state.setWebsocketUrl);
+  const webcamSettings = useStore(state => state.webcamSettings);
+  const setWebcamSettings = useStore(state => state.setWebcamSettings);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+
+  // Kept current as cameras come and go
+  useEffect(() => {
+    const refresh = () => listCameras().then(setCameras, () => setCameras([]));
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, []);
+
+  return (
+    <div className="space-y-2">
+      <div className="text-[10px] text-white/40 uppercase tracking-wider">Input source</div>
+      <div className="grid grid-cols-3 gap-1.5">
+        <button onClick={() => setInputSource('webcam')} className={sourceButton(inputSource === 'webcam')}>
+          {INPUT_LABELS.webcam}
+        </button>
+        {INPUT_PROVIDERS.map(provider => (
+          <button
+            key={provider.id}
+            onClick={() => setInputSource(provider.id)}
+            disabled={!provider.isSupported()}
+            className={sourceButton(inputSource === provider.id)}
+          >
+            {provider.label}
+          </button>
+        ))}
+      </div>
+      {inputSource === 'webcam' && (
+        <div className="space-y-1.5">
+          <select
+            value={webcamSettings.deviceId ?? ''}
+            onChange={(e) => setWebcamSettings({ deviceId: e.target.value || null })}
+            className={`${selectClass} w-full`}
+          >
+            <option value="">Default camera</option>
+            {cameras.map((camera, i) => (
+              <option key={camera.deviceId || i} value={camera.deviceId}>
+                {camera.label || `Camera ${i + 1}`}
+              </option>
+            ))}
+          </select>
+          <div className="flex gap-1.5">
+            <select
+              value={`${webcamSettings.resolution.width}x${webcamSettings.resolution.height}`}
+              onChange={(e) => setWebcamSettings({ resolution: RESOLUTIONS[e.target.selectedIndex] })}
+              className={`${selectClass} flex-1`}
+            >
+              {RESOLUTIONS.map(({ width, height }) => (
+                <option key={width} value={`${width}x${height}`}>{width}×{height}</option>
+              ))}
+            </select>
+            <select
+              value={webcamSettings.frameRate}
+              onChange={(e) => setWebcamSettings({ frameRate: Number(e.target.value) })}
+              className={`${selectClass} flex-1`}
+            >
+              {FRAME_RATES.map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+            </select>
+          </div>
+          <p className="text-[11px] text-white/40">Higher resolutions track hands farther away but take longer per frame.</p>
+        </div>
+      )}
+      {inputSource === 'playback' && (
+        <p className="text-[11px] text-white/40">Session playback is driving the hands. Pick a source to take over.</p>
+      )}
+      {inputSource === 'websocket' && (
+        <input
+          type="text"
+          defaultValue={websocketUrl}
+          key={websocketUrl}
+          onBlur={(e) => setWebsocketUrl(e.target.value.trim())}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-xs font-mono focus:outline-none focus:border-cyan-500/50"
+        />
+      )}
+      {inputSource === 'midi' && (
+        <div className="text-[11px] text-white/40 space-y-0.5">
+          {MIDI_MAPPINGS.map(m => (
+            <div key={m.cc} className="flex justify-between">
+              <span>CC {m.cc}</span>
+              <span>{m.field}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="text-[10px] text-white/40 uppercase tracking-wider pt-2">Landmark filter</div>
+      <div className="grid grid-cols-3 gap-1.5">
+        {(Object.keys(FILTER_LABELS) as FilterType[]).map(type => (
+          <button
+            key={type}
+            onClick={() => setFilter({ type })}
+            className={`px-2 py-1.5 rounded-lg text-xs border transition-colors ${
+              filter.type === type
+                ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300'
+                : 'bg-white/5 border-white/10 text-white/60 hover:bg-white/10'
+            }`}
+          >
+            {FILTER_LABELS[type]}
+          </button>
+        ))}
+      </div>
+
+      {filter.type === 'oneEuro' && (
+        <>
+          <Slider
+            label="Min cutoff"
+            value={filter.oneEuro.minCutoff}
+            min={0.1}
+            max={10}
+            step={0.1}
+            onChange={(minCutoff) => setFilter({ oneEuro: { ...filter.oneEuro, minCutoff } })}
+            format={(v) => `${v.toFixed(1)}Hz`}
+          />
+          <Slider
+            label="Beta"
+            value={filter.oneEuro.beta}
+            min={0}
+            max={50}
+            step={0.5}
+            onChange={(beta) => setFilter({ oneEuro: { ...filter.oneEuro, beta } })}
+          />
+          <Slider
+            label="D cutoff"
+            value={filter.oneEuro.dCutoff}
+            min={0.1}
+            max={5}
+            step={0.1}
+            onChange={(dCutoff) => setFilter({ oneEuro: { ...filter.oneEuro, dCutoff } })}
+            format={(v) => `${v.toFixed(1)}Hz`}
+          />
+        </>
+      )}
+
+      {filter.type === 'kalman' && (
+        <>
+          <Slider
+            label="Process noise"
+            value={filter.kalman.processNoise}
+            min={0.1}
+            max={50}
+            step={0.1}
+            onChange={(processNoise) => setFilter({ kalman: { ...filter.kalman, processNoise } })}
+          />
+          <Slider
+            label="Meas. noise"
+            value={filter.kalman.measurementNoise * 1000}
+            min={0.01}
+            max={5}
+            step={0.01}
+            onChange={(v) => setFilter({ kalman: { ...filter.kalman, measurementNoise: v / 1000 } })}
+            format={(v) => `${v.toFixed(2)}e-3`}
+          />
+        </>
+      )}
+
+      <div className="text-[10px] text-white/40 uppercase tracking-wider pt-2">Latency</div>
+      <Slider
+        label="Prediction"
+        value={filter.predictionMs}
+        min={0}
+        max={100}
+        step={5}
+        onChange={(predictionMs) => setFilter({ predictionMs })}
+        format={(v) => `${v}ms`}
+      />
+      <Slider
+        label="Dropout grace"
+        value={filter.dropoutGraceMs}
+        min={0}
+        max={500}
+        step={10}
+        onChange={(dropoutGraceMs) => setFilter({ dropoutGraceMs })}
+        format={(v) => `${v}ms`}
+      />
+    </div>
+  );
+};
+
+export default TrackingPanel;
@@ -1,154 +1,254 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
-import { useStore } from '../store';
-import { Vector3 } from 'three';
+import type { HandLandmarker } from '@mediapipe/tasks-vision';
+import { Handedness, useStore } from '../store';
+import { HandPipeline, RawHand } from '../input/handPipeline';
+import { sessionRecorder } from '../input/session';
+import { FALLBACK_SOURCE, INPUT_LABELS } from '../input/inputProviders';
+import { FINGER_CHAINS, FINGERS, foldedFingers, PALM_BONES } from '../input/gestures';
+import { trackingDiagnostics } from '../input/diagnostics';
+import { cameraErrorMessage, createHandLandmarker, listCameras, openCamera } from '../input/webcam';
+
+const CAMERA_LOST = 'Camera disconnected. Plug it back in to resume hand tracking.';
+
+const PALM_COLOR = 'rgba(255, 255, 255, 0.7)';
+const EXTENDED_COLOR = '#67e8f9';
+const FOLDED_COLOR = '#fbbf24';
+
+// Draws each hand's 21 landmarks onto the preview; fingers are colored by whether the recognizer sees them folded
+const drawSkeleton = (canvas: HTMLCanvasElement, raw: RawHand[]) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const { width, height } = canvas;
+  ctx.clearRect(0, 0, width, height);
+  ctx.lineWidth = 2;
+
+  raw.forEach(({ landmarks }) => {
+    const point = (i: number) => [landmarks[i].x * width, landmarks[i].y * height] as const;
+    const line = (path: number[], color: string) => {
+      ctx.strokeStyle = color;
+      ctx.beginPath();
+      path.forEach((i, n) => (n === 0 ? ctx.moveTo(...point(i)) : ctx.lineTo(...point(i))));
+      ctx.stroke();
+    };
+
+    PALM_BONES.forEach(bone => line(bone, PALM_COLOR));
+    const folded = foldedFingers(landmarks);
+    FINGERS.forEach(finger => line(FINGER_CHAINS[finger], folded[finger] ? FOLDED_COLOR : EXTENDED_COLOR));
+
+    ctx.fillStyle = PALM_COLOR;
+    landmarks.forEach((_, i) => {
+      const [x, y] = point(i);
+      ctx.fillRect(x - 1.5, y - 1.5, 3, 3);
+    });
+  });
+};
 
 const WebcamHandTracker: React.FC = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isLoaded, setIsLoaded] = useState(false);
-  const setHandPosition = useStore(state => state.setHandPosition);
-  const setIsHandDetected = useStore(state => state.setIsHandDetected);
-  const setGesture = useStore(state => state.setGesture);
+  // Bumped to retry setup when the webcam is selected again after a failure
+  const [attempt, setAttempt] = useState(0);
+  const [failed, setFailed] = useState(false);
+  const inputSource = useStore(state => state.inputSource);
+  const setHands = useStore(state => state.setHands);
   const setError = useStore(state => state.setError);
+  const showSkeleton = useStore(state => state.diagnosticsSettings.skeleton);
+
+  useEffect(() => {
+    if (failed && inputSource === 'webcam') {
+      setFailed(false);
+      setAttempt(a => a + 1);
+    }
+  }, [failed, inputSource]);
 
   useEffect(() => {
     let handLandmarker: HandLandmarker | null = null;
-    let animationFrameId: number;
-    let video: HTMLVideoElement | null = null;
+    let animationFrameId = 0;
+    let stream: MediaStream | null = null;
+    // Set when the camera is unplugged; a device change then tries to reopen it
+    let cameraLost = false;
+    // Bumped per camera request; a stream that arrives after a newer request is stopped unused
+    let cameraRequest = 0;
+    let disposed = false;
+    const video = videoRef.current!;
+    const pipeline = new HandPipeline();
+
+    // Without a camera the app stays usable through another input source
+    const fail = (message: string) => {
+      setFailed(true);
+      const { inputSource, setInputSource } = useStore.getState();
+      if (inputSource === 'webcam') {
+        setInputSource(FALLBACK_SOURCE);
+        setError(`${message} Switched to ${INPUT_LABELS[FALLBACK_SOURCE].toLowerCase()} control.`);
+      } else {
+        setError(message);
+      }
+    };
 
     const setupMediaPipe = async () => {
       try {
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.0/wasm"
-        );
-        
-        handLandmarker = await HandLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 1
-        });
-
+        const { landmarker, delegate } = await createHandLandmarker();
+        if (disposed) {
+          landmarker.close();
+          return;
+        }
+        handLandmarker = landmarker;
+        trackingDiagnostics.setDelegate(delegate);
         setIsLoaded(true);
         startWebcam();
       } catch (err) {
         console.error("Failed to load MediaPipe:", err);
-        setError("Failed to load hand tracking. Please ensure your browser supports WebGPU/WebGL.");
+        fail("Failed to load hand tracking. Please ensure your browser supports WebAssembly.");
       }
     };
 
+    const stopStream = () => {
+      stream?.getTracks().forEach(track => {
+        track.removeEventListener('ended', onCameraLost);
+        track.stop();
+      });
+      stream = null;
+    };
+
     const startWebcam = async () => {
-      if (navigator.mediaDevices && navigator.mediaDevices.getUserMedia) {
-        try {
-          const stream = await navigator.mediaDevices.getUserMedia({
-            video: {
-              width: 320,
-              height: 240,
-              facingMode: "user"
-            }
-          });
-          if (videoRef.current) {
-            video = videoRef.current;
-            video.srcObject = stream;
-            video.addEventListener("loadeddata", predictWebcam);
-          }
-        } catch (err) {
-            console.error(err);
-            setError("Camera access denied.");
-        }
+      if (!navigator.mediaDevices?.getUserMedia) {
+        fail("No camera available.");
+        return;
+      }
+      const request = ++cameraRequest;
+      stopStream();
+      let opened: MediaStream;
+      try {
+        opened = await openCamera(useStore.getState().webcamSettings);
+      } catch (err) {
+        if (disposed || request !== cameraRequest) return;
+        console.error(err);
+        fail(cameraErrorMessage(err));
+        return;
+      }
+      if (disposed || request !== cameraRequest) {
+        opened.getTracks().forEach(track => track.stop());
+        return;
       }
+      stream = opened;
+      stream.getVideoTracks().forEach(track => track.addEventListener('ended', onCameraLost));
+      video.srcObject = stream;
+    };
+
+    const stopTracking = () => {
+      cancelAnimationFrame(animationFrameId);
+      pipeline.reset();
+      trackingDiagnostics.reset();
+      if (useStore.getState().inputSource === 'webcam') setHands([]);
+    };
+
+    const onCameraLost = () => {
+      cameraLost = true;
+      stopStream();
+      stopTracking();
+      setError(CAMERA_LOST);
+    };
+
+    // Reopen the camera when it (or another) is plugged back in
+    const onDeviceChange = async () => {
+      if (!cameraLost || !handLandmarker) return;
+      if ((await listCameras()).length === 0) return;
+      cameraLost = false;
+      if (useStore.getState().error === CAMERA_LOST) setError(null);
+      startWebcam();
+    };
+
+    // Inference is wasted work while nobody can see the scene
+    const onVisibilityChange = () => {
+      if (document.hidden) stopTracking();
+      else if (stream && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) startTracking();
     };
 
     let lastVideoTime = -1;
+    const startTracking = () => {
+      cancelAnimationFrame(animationFrameId);
+      lastVideoTime = -1;
+      if (!document.hidden) predictWebcam();
+    };
+
     const predictWebcam = () => {
-      if (!handLandmarker || !video) return;
+      if (!handLandmarker) return;
 
-      if (video.currentTime !== lastVideoTime) {
+      const { inputSource, trackingFilter, customGestureSamples, handCalibration, diagnosticsSettings } = useStore.getState();
+      if (inputSource !== 'webcam') {
+        // Another source (e.g. session playback) owns the hands; start fresh when we resume
+        if (lastVideoTime !== -1) trackingDiagnostics.reset();
+        pipeline.reset();
+        lastVideoTime = -1;
+      } else if (video.currentTime !== lastVideoTime) {
         lastVideoTime = video.currentTime;
         const startTimeMs = performance.now();
         const results = handLandmarker.detectForVideo(video, startTimeMs);
+        const inferenceMs = performance.now() - startTimeMs;
+
+        const raw: RawHand[] = (results.landmarks ?? []).map((landmarks, i) => {
+          // MediaPipe labels handedness as if the image were mirrored;
+          // the raw webcam feed is not, so swap to the user's point of view.
+          const category = results.handedness[i]?.[0];
+          const handedness: Handedness = category?.categoryName === 'Left' ? 'Right' : 'Left';
+          return {
+            handedness,
+            landmarks: landmarks.map(({ x, y, z }) => ({ x, y, z })),
+            score: category?.score ?? 0
+          };
+        });
+
+        sessionRecorder.captureFrame(raw);
+
+        const hands = pipeline.process(raw, startTimeMs, {
+          filter: trackingFilter,
+          customSamples: customGestureSamples,
+          calibration: handCalibration
+        });
+        setHands(hands);
+        trackingDiagnostics.record(raw, hands, inferenceMs, startTimeMs);
 
-        if (results.landmarks && results.landmarks.length > 0) {
-           setIsHandDetected(true);
-           // Get index finger tip (landmark 8)
-           // MediaPipe coords: x (0-1), y (0-1), z (depth, relative to wrist)
-           const landmarks = results.landmarks[0];
-           const indexTip = landmarks[8];
-           
-           // Convert to approximate 3D world space for our canvas
-           // X: Invert because webcam is mirrored. Scale to approx -5 to 5
-           // Y: Scale to approx -4 to 4
-           // Z: Scale depth for interaction intensity
-           const x = (0.5 - indexTip.x) * 10; 
-           const y = (0.5 - indexTip.y) * 8;
-           const z = indexTip.z * -10; // Depth factor
-           
-           setHandPosition(new Vector3(x, y, z));
-
-           // --- Gesture Detection (Fist vs Open vs Neutral) ---
-           // We check if fingertips are closer to the wrist than their PIP joints.
-           // Wrist is index 0.
-           const wrist = landmarks[0];
-           
-           const isFingerFolded = (tipIdx: number, pipIdx: number) => {
-              const tip = landmarks[tipIdx];
-              const pip = landmarks[pipIdx];
-              
-              const distTip = Math.hypot(tip.x - wrist.x, tip.y - wrist.y, tip.z - wrist.z);
-              const distPip = Math.hypot(pip.x - wrist.x, pip.y - wrist.y, pip.z - wrist.z);
-              
-              // If tip is significantly closer to wrist than PIP, it's folded
-              return distTip < distPip;
-           };
-
-           // Check Index (8,6), Middle (12,10), Ring (16,14), Pinky (20,18)
-           // Thumb is excluded as it's complex, but 4 fingers are enough for a fist check.
-           let foldedCount = 0;
-           if (isFingerFolded(8, 6)) foldedCount++;
-           if (isFingerFolded(12, 10)) foldedCount++;
-           if (isFingerFolded(16, 14)) foldedCount++;
-           if (isFingerFolded(20, 18)) foldedCount++;
-
-           // State Machine Logic:
-           // 0-1 fingers folded: OPEN
-           // 4 fingers folded: CLOSED
-           // 2-3 fingers folded: NEUTRAL (Transition state)
-           
-           if (foldedCount >= 4) {
-             setGesture('CLOSED');
-           } else if (foldedCount <= 1) {
-             setGesture('OPEN');
-           } else {
-             setGesture('NEUTRAL');
-           }
-
-        } else {
-           setIsHandDetected(false);
-           setHandPosition(null);
-           setGesture(null);
+        if (diagnosticsSettings.skeleton && canvasRef.current) {
+          canvasRef.current.width = video.videoWidth;
+          canvasRef.current.height = video.videoHeight;
+          drawSkeleton(canvasRef.current, raw);
         }
       }
       animationFrameId = requestAnimationFrame(predictWebcam);
     };
 
+    // Switching camera, resolution or frame rate only reopens the stream; the model stays loaded
+    const unsubscribe = useStore.subscribe((state, previous) => {
+      if (state.webcamSettings !== previous.webcamSettings && handLandmarker && !cameraLost) {
+        stopTracking();
+        startWebcam();
+      }
+    });
+
+    video.addEventListener("loadeddata", startTracking);
+    navigator.mediaDevices?.addEventListener('devicechange', onDeviceChange);
+    document.addEventListener('visibilitychange', onVisibilityChange);
     setupMediaPipe();
 
     return () => {
-      if (video && video.srcObject) {
-        const tracks = (video.srcObject as MediaStream).getTracks();
-        tracks.forEach(track => track.stop());
-      }
+      disposed = true;
+      unsubscribe();
+      video.removeEventListener("loadeddata", startTracking);
+      navigator.mediaDevices?.removeEventListener('devicechange', onDeviceChange);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      stopStream();
       cancelAnimationFrame(animationFrameId);
+      trackingDiagnostics.setDelegate(null);
       if (handLandmarker) handLandmarker.close();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [attempt]);
 
+  // Stays mounted while another source is active so the model does not reload
   return (
-    <div className="absolute bottom-4 right-4 z-50 pointer-events-none opacity-80">
-      <div className="relative rounded-lg overflow-hidden border-2 border-white/20 shadow-lg w-32 h-24 bg-black">
+    <div className={`absolute bottom-4 right-4 z-50 pointer-events-none opacity-80 ${inputSource === 'webcam' ? '' : 'hidden'}`}>
+      <div className={`relative rounded-lg overflow-hidden border-2 border-white/20 shadow-lg bg-black ${showSkeleton ? 'w-64 h-48' : 'w-32 h-24'}`}>
         <video
           ref={videoRef}
           autoPlay
@@ -156,6 +256,10 @@ const WebcamHandTracker: React.FC = () => {
           muted
           className={`w-full h-full object-cover transform -scale-x-100 ${isLoaded ? 'opacity-100' : 'opacity-0'}`}
         />
+        {showSkeleton && (
+          // Mirrored like the video, so the drawing sits on the hand
+          <canvas ref={canvasRef} className="absolute inset-0 w-full h-full object-cover transform -scale-x-100" />
+        )}
         {!isLoaded && (
           <div className="absolute inset-0 flex items-center justify-center text-xs text-white/50">
             Loading AI...
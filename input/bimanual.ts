@@ -0,0 +1,35 @@
+import { Vector3 } from 'three';
+import type { TrackedHand } from '../store';
+
+export interface BimanualPose {
+  distance: number; // Between the two index fingertips, world units
+  angle: number; // Roll of the left-to-right hand line around Z, radians
+  center: Vector3;
+}
+
+/**
+ * Measures the relationship between the first two tracked hands.
+ * Returns null unless two hands are present.
+ */
+export const measureBimanual = (hands: TrackedHand[]): BimanualPose | null => {
+  if (hands.length < 2) return null;
+
+  // Order by screen position rather than handedness labels, which can swap mid-gesture
+  const [a, b] = hands[0].position.x <= hands[1].position.x
+    ? [hands[0].position, hands[1].position]
+    : [hands[1].position, hands[0].position];
+
+  return {
+    distance: a.distanceTo(b),
+    angle: Math.atan2(b.y - a.y, b.x - a.x),
+    center: a.clone().add(b).multiplyScalar(0.5),
+  };
+};
+
+/** Smallest signed difference between two angles, in (-PI, PI]. */
+export const angleDelta = (from: number, to: number) => {
+  let d = to - from;
+  while (d > Math.PI) d -= Math.PI * 2;
+  while (d <= -Math.PI) d += Math.PI * 2;
+  return d;
+};
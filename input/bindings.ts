@@ -0,0 +1,171 @@
+// Gesture-to-action bindings: which recognized gesture drives which scene action.
+import type { HandForceMode, HandGesture } from '../store';
+import { HAND_FORCES } from '../services/configSchema';
+import { BUILT_IN_GESTURES } from './gestures';
+
+// 'hold' applies while the gesture is active; 'enter'/'exit' fire once on the transition
+export type BindingTrigger = 'hold' | 'enter' | 'exit';
+
+export type BindingAction =
+  | { type: 'scale'; value: number }
+  | { type: 'rotate' }
+  | { type: 'force'; mode: HandForceMode }
+  | { type: 'freeze' }
+  | { type: 'palette' }
+  | { type: 'cycleShape' }
+  | { type: 'burst'; strength: number }
+  | { type: 'prompt'; prompt: string };
+
+export type BindingActionType = BindingAction['type'];
+
+export type BindableGesture = Exclude<HandGesture, null> | 'ANY';
+
+export interface GestureBinding {
+  id: string;
+  gesture: BindableGesture;
+  trigger: BindingTrigger;
+  from?: BindableGesture; // Only for 'enter': restrict to transitions from this gesture
+  action: BindingAction;
+  enabled: boolean;
+}
+
+// Continuous actions only make sense while held; the rest are one-shot events
+export const HOLD_ACTIONS: BindingActionType[] = ['scale', 'rotate', 'force', 'freeze'];
+
+export const ACTION_LABELS: Record<BindingActionType, string> = {
+  scale: 'Scale',
+  rotate: 'Rotate with hand',
+  force: 'Hand force',
+  freeze: 'Freeze time',
+  palette: 'Next palette',
+  cycleShape: 'Next shape',
+  burst: 'Burst',
+  prompt: 'Gemini prompt',
+};
+
+export const defaultAction = (type: BindingActionType): BindingAction => {
+  switch (type) {
+    case 'scale': return { type, value: 1.0 };
+    case 'force': return { type, mode: 'repel' };
+    case 'burst': return { type, strength: 8 };
+    case 'prompt': return { type, prompt: '' };
+    default: return { type } as BindingAction;
+  }
+};
+
+// Mirrors the original hard-wired behaviour: fist shrinks, open hand expands, any hand rotates.
+// Opening the hand also sets off a burst.
+export const DEFAULT_BINDINGS: GestureBinding[] = [
+  { id: 'closed-scale', gesture: 'CLOSED', trigger: 'hold', action: { type: 'scale', value: 0.4 }, enabled: true },
+  { id: 'open-scale', gesture: 'OPEN', trigger: 'hold', action: { type: 'scale', value: 1.3 }, enabled: true },
+  { id: 'open-burst', gesture: 'OPEN', trigger: 'enter', action: { type: 'burst', strength: 8 }, enabled: true },
+  { id: 'any-rotate', gesture: 'ANY', trigger: 'hold', action: { type: 'rotate' }, enabled: true },
+];
+
+/** Per-frame result of evaluating bindings against the current gesture. */
+export interface BindingFrame {
+  scale: number | null; // Null when no scale binding is active
+  rotate: boolean;
+  force: HandForceMode | null; // Null when no force binding is active; the config's hand force applies
+  frozen: boolean;
+  events: BindingAction[]; // One-shot actions fired this frame
+}
+
+const matches = (pattern: BindableGesture | undefined, gesture: HandGesture) =>
+  pattern === 'ANY' ? gesture !== null : pattern === gesture;
+
+/**
+ * Tracks the previous gesture so transitions can be detected.
+ * Keep one instance per gesture stream (e.g. the primary hand).
+ */
+export class BindingEngine {
+  private previous: HandGesture = null;
+
+  evaluate(gesture: HandGesture, bindings: GestureBinding[]): BindingFrame {
+    const frame: BindingFrame = { scale: null, rotate: false, force: null, frozen: false, events: [] };
+    const previous = this.previous;
+    const changed = gesture !== previous;
+    this.previous = gesture;
+
+    for (const binding of bindings) {
+      if (!binding.enabled) continue;
+
+      if (binding.trigger === 'hold') {
+        if (!matches(binding.gesture, gesture)) continue;
+        const action = binding.action;
+        switch (action.type) {
+          case 'scale': frame.scale = action.value; break;
+          case 'rotate': frame.rotate = true; break;
+          case 'force': frame.force = action.mode; break;
+          case 'freeze': frame.frozen = true; break;
+          default: break;
+        }
+      } else if (changed) {
+        const fired = binding.trigger === 'enter'
+          ? matches(binding.gesture, gesture) && (!binding.from || matches(binding.from, previous))
+            // 'ANY' enter should not refire when moving between two gestures
+            && !(binding.gesture === 'ANY' && previous !== null)
+          : matches(binding.gesture, previous) && !(binding.gesture === 'ANY' && gesture !== null);
+        if (fired) frame.events.push(binding.action);
+      }
+    }
+    return frame;
+  }
+}
+
+// --- Persistence / import-export ---
+
+const STORAGE_KEY = 'kinetic-particles.bindings';
+
+// Custom gestures may be trained after the bindings are imported, so any custom label is accepted
+const isGesture = (value: unknown): value is BindableGesture =>
+  value === 'ANY' ||
+  BUILT_IN_GESTURES.includes(value as Exclude<HandGesture, null>) ||
+  (typeof value === 'string' && value.startsWith('CUSTOM:'));
+
+const isAction = (value: unknown): value is BindingAction => {
+  const a = value as BindingAction;
+  if (typeof a?.type !== 'string' || !Object.hasOwn(ACTION_LABELS, a.type)) return false;
+  switch (a.type) {
+    case 'scale': return Number.isFinite(a.value);
+    case 'burst': return Number.isFinite(a.strength);
+    case 'force': return HAND_FORCES.includes(a.mode);
+    case 'prompt': return typeof a.prompt === 'string';
+    default: return true;
+  }
+};
+
+const isBinding = (value: unknown): value is GestureBinding => {
+  const b = value as GestureBinding;
+  return (
+    typeof b?.id === 'string' &&
+    isGesture(b.gesture) &&
+    (b.from === undefined || isGesture(b.from)) &&
+    ['hold', 'enter', 'exit'].includes(b.trigger) &&
+    isAction(b.action) &&
+    // Continuous actions need a held gesture, and one-shot actions a transition
+    (b.trigger === 'hold') === HOLD_ACTIONS.includes(b.action.type)
+  );
+};
+
+/** Validates an imported bindings document; throws with a readable message when malformed. */
+export const parseBindings = (data: unknown): GestureBinding[] => {
+  const list = Array.isArray(data) ? data : (data as { bindings?: unknown })?.bindings;
+  if (!Array.isArray(list)) throw new Error('Expected an array of bindings');
+  const invalid = list.findIndex(b => !isBinding(b));
+  if (invalid >= 0) throw new Error(`Binding #${invalid + 1} is malformed`);
+  return (list as GestureBinding[]).map(b => ({ ...b, enabled: b.enabled !== false }));
+};
+
+export const loadBindings = (storage: Pick<Storage, 'getItem'>): GestureBinding[] => {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    return raw ? parseBindings(JSON.parse(raw)) : DEFAULT_BINDINGS;
+  } catch {
+    return DEFAULT_BINDINGS;
+  }
+};
+
+export const saveBindings = (storage: Pick<Storage, 'setItem'>, bindings: GestureBinding[]) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+};
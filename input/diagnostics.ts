@@ -0,0 +1,167 @@
+// Live numbers from the webcam tracker for the diagnostics panel, plus the
+// reach sweep that calibrates the camera-to-world mapping.
+import { HandGesture, Handedness, TrackedHand, useStore } from '../store';
+import { Finger, foldedFingers } from './gestures';
+import { calibrationFromReach, INDEX_TIP, RawHand, ReachBounds, wristDistance } from './handPipeline';
+import type { Delegate } from './webcam';
+
+export interface DiagnosticsSettings {
+  skeleton: boolean; // Landmarks drawn over the camera preview
+  ghostHand: boolean; // Landmarks drawn as a hand in the 3D scene
+}
+
+export const DEFAULT_DIAGNOSTICS_SETTINGS: DiagnosticsSettings = { skeleton: false, ghostHand: false };
+
+export interface HandDiagnostics {
+  handedness: Handedness;
+  score: number; // Detection confidence, 0-1
+  folded: Record<Finger, boolean>; // As the recognizer sees them, on filtered landmarks
+  gesture: HandGesture;
+  pinchStrength: number;
+}
+
+export interface TrackingStats {
+  fps: number; // Tracker results per second
+  inferenceMs: number; // Average time in the hand landmarker
+  delegate: Delegate | null; // Where the landmarker runs, once loaded
+  hands: HandDiagnostics[];
+  calibrating: number | null; // Seconds left in a reach sweep
+}
+
+// Published this often, so the panel stays readable
+const WINDOW_MS = 250;
+export const CALIBRATION_SECONDS = 5;
+
+/** Collects per-frame tracker results and publishes averages a few times a second. */
+export class TrackingDiagnostics {
+  private frames = 0;
+  private inference = 0;
+  private windowStart = 0;
+  private reach: (ReachBounds & { until: number }) | null = null;
+  // Runs the countdown and ends the sweep even when no frames arrive (camera paused or lost)
+  private calibrationTimer: ReturnType<typeof setInterval> | null = null;
+  private listeners = new Set<(stats: TrackingStats) => void>();
+
+  stats: TrackingStats = { fps: 0, inferenceMs: 0, delegate: null, hands: [], calibrating: null };
+
+  subscribe(listener: (stats: TrackingStats) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  setDelegate(delegate: Delegate | null) {
+    this.publish({ ...this.stats, delegate });
+  }
+
+  /** Starts a reach sweep: the fingertip's extremes over the next few seconds become the calibration. */
+  startCalibration() {
+    this.stopCalibration();
+    this.reach = { minX: 1, maxX: 0, minY: 1, maxY: 0, maxDepth: 0, until: performance.now() + CALIBRATION_SECONDS * 1000 };
+    this.calibrationTimer = setInterval(() => this.tickCalibration(), WINDOW_MS);
+    this.publish({ ...this.stats, calibrating: CALIBRATION_SECONDS });
+  }
+
+  cancelCalibration() {
+    this.stopCalibration();
+    this.publish({ ...this.stats, calibrating: null });
+  }
+
+  record(raw: RawHand[], hands: TrackedHand[], inferenceMs: number, now: number) {
+    this.frames++;
+    this.inference += inferenceMs;
+    if (this.reach) this.sweep(raw, now);
+    if (this.windowStart === 0) this.windowStart = now;
+    const elapsed = now - this.windowStart;
+    if (elapsed < WINDOW_MS) return;
+
+    this.publish({
+      fps: (this.frames * 1000) / elapsed,
+      inferenceMs: this.inference / this.frames,
+      delegate: this.stats.delegate,
+      hands: hands.map(hand => ({
+        handedness: hand.handedness,
+        // Labels can repeat, so the detection is the one nearest the tracked hand
+        score: raw.reduce<RawHand | null>(
+          (best, r) => (!best || wristDistance(r.landmarks, hand.landmarks) < wristDistance(best.landmarks, hand.landmarks) ? r : best),
+          null
+        )?.score ?? 0,
+        folded: foldedFingers(hand.landmarks),
+        gesture: hand.gesture,
+        pinchStrength: hand.pinchStrength,
+      })),
+      calibrating: this.stats.calibrating,
+    });
+    this.frames = 0;
+    this.inference = 0;
+    this.windowStart = now;
+  }
+
+  /** Clears the numbers when the tracker stops producing results. */
+  reset() {
+    this.frames = 0;
+    this.inference = 0;
+    this.windowStart = 0;
+    this.stopCalibration();
+    this.publish({ fps: 0, inferenceMs: 0, delegate: this.stats.delegate, hands: [], calibrating: null });
+  }
+
+  private sweep(raw: RawHand[], now: number) {
+    const reach = this.reach!;
+    if (now >= reach.until) return;
+    raw.forEach(hand => {
+      const tip = hand.landmarks[INDEX_TIP];
+      if (!tip) return;
+      reach.minX = Math.min(reach.minX, tip.x);
+      reach.maxX = Math.max(reach.maxX, tip.x);
+      reach.minY = Math.min(reach.minY, tip.y);
+      reach.maxY = Math.max(reach.maxY, tip.y);
+      reach.maxDepth = Math.max(reach.maxDepth, Math.abs(tip.z));
+    });
+  }
+
+  private tickCalibration() {
+    const reach = this.reach;
+    if (!reach) return;
+    const left = (reach.until - performance.now()) / 1000;
+    if (left > 0) {
+      this.publish({ ...this.stats, calibrating: left });
+      return;
+    }
+
+    this.stopCalibration();
+    this.publish({ ...this.stats, calibrating: null });
+    const calibration = calibrationFromReach(reach);
+    if (calibration) useStore.getState().setHandCalibration(calibration);
+    else useStore.getState().setError('Calibration needs a wider sweep. Move your fingertip to the edges of your reach.');
+  }
+
+  private stopCalibration() {
+    if (this.calibrationTimer !== null) clearInterval(this.calibrationTimer);
+    this.calibrationTimer = null;
+    this.reach = null;
+  }
+
+  private publish(stats: TrackingStats) {
+    this.stats = stats;
+    this.listeners.forEach(l => l(stats));
+  }
+}
+
+export const trackingDiagnostics = new TrackingDiagnostics();
+
+const STORAGE_KEY = 'kinetic-particles.diagnostics';
+
+export const loadDiagnosticsSettings = (storage: Pick<Storage, 'getItem'>): DiagnosticsSettings => {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_DIAGNOSTICS_SETTINGS, ...JSON.parse(raw) } : DEFAULT_DIAGNOSTICS_SETTINGS;
+  } catch {
+    return DEFAULT_DIAGNOSTICS_SETTINGS;
+  }
+};
+
+export const saveDiagnosticsSettings = (storage: Pick<Storage, 'setItem'>, settings: DiagnosticsSettings) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,189 @@
+// Smoothing and short-horizon prediction for hand landmarks.
+import type { Landmark } from '../store';
+
+export interface OneEuroParams {
+  minCutoff: number; // Hz; lower = smoother at rest
+  beta: number; // Speed coefficient; higher = less lag when moving fast
+  dCutoff: number; // Hz; cutoff for the derivative estimate
+}
+
+export interface KalmanParams {
+  processNoise: number; // How much the velocity is allowed to wander
+  measurementNoise: number; // Expected jitter of raw landmarks
+}
+
+export type FilterType = 'none' | 'oneEuro' | 'kalman';
+
+export interface TrackingFilterConfig {
+  type: FilterType;
+  oneEuro: OneEuroParams;
+  kalman: KalmanParams;
+  predictionMs: number; // Extrapolate this far ahead to hide pipeline latency
+  dropoutGraceMs: number; // Keep a lost hand alive this long before resetting it
+}
+
+export const DEFAULT_TRACKING_FILTER: TrackingFilterConfig = {
+  type: 'oneEuro',
+  oneEuro: { minCutoff: 1.5, beta: 8.0, dCutoff: 1.0 },
+  kalman: { processNoise: 5.0, measurementNoise: 0.0005 },
+  predictionMs: 30,
+  dropoutGraceMs: 150,
+};
+
+/** Scalar filter over a timestamped signal that also estimates its velocity. */
+interface ScalarFilter {
+  filter(value: number, timestampMs: number): number;
+  readonly velocity: number; // Units per millisecond
+}
+
+class PassThrough implements ScalarFilter {
+  velocity = 0;
+  private last: { value: number; t: number } | null = null;
+
+  filter(value: number, t: number) {
+    if (this.last && t > this.last.t) this.velocity = (value - this.last.value) / (t - this.last.t);
+    this.last = { value, t };
+    return value;
+  }
+}
+
+const smoothingFactor = (cutoff: number, dtSeconds: number) => {
+  const r = 2 * Math.PI * cutoff * dtSeconds;
+  return r / (r + 1);
+};
+
+/** One Euro filter (Casiez et al. 2012): adaptive low-pass that trades jitter for lag by speed. */
+export class OneEuroFilter implements ScalarFilter {
+  velocity = 0;
+  private x: number | null = null;
+  private dx = 0;
+  private lastT = 0;
+
+  constructor(private params: OneEuroParams) {}
+
+  filter(value: number, t: number) {
+    if (this.x === null || t <= this.lastT) {
+      this.x = value;
+      this.lastT = t;
+      return value;
+    }
+    const dt = (t - this.lastT) / 1000;
+    this.lastT = t;
+
+    const rawDx = (value - this.x) / dt;
+    this.dx += smoothingFactor(this.params.dCutoff, dt) * (rawDx - this.dx);
+
+    const cutoff = this.params.minCutoff + this.params.beta * Math.abs(this.dx);
+    this.x += smoothingFactor(cutoff, dt) * (value - this.x);
+    this.velocity = this.dx / 1000;
+    return this.x;
+  }
+}
+
+/** Constant-velocity Kalman filter on one axis. State is [position, velocity]. */
+export class KalmanFilter implements ScalarFilter {
+  private x = 0;
+  private v = 0;
+  // Covariance matrix [[p00, p01], [p01, p11]]
+  private p00 = 1;
+  private p01 = 0;
+  private p11 = 1;
+  private lastT: number | null = null;
+
+  constructor(private params: KalmanParams) {}
+
+  get velocity() {
+    return this.v / 1000;
+  }
+
+  filter(value: number, t: number) {
+    if (this.lastT === null) {
+      this.x = value;
+      this.lastT = t;
+      return value;
+    }
+    const dt = Math.max((t - this.lastT) / 1000, 1e-4);
+    this.lastT = t;
+
+    // Predict
+    this.x += this.v * dt;
+    const q = this.params.processNoise;
+    this.p00 += dt * (2 * this.p01 + dt * this.p11) + (q * dt ** 4) / 4;
+    this.p01 += dt * this.p11 + (q * dt ** 3) / 2;
+    this.p11 += q * dt * dt;
+
+    // Update
+    const s = this.p00 + this.params.measurementNoise;
+    const k0 = this.p00 / s;
+    const k1 = this.p01 / s;
+    const residual = value - this.x;
+    this.x += k0 * residual;
+    this.v += k1 * residual;
+    this.p11 -= k1 * this.p01;
+    this.p01 -= k0 * this.p01;
+    this.p00 -= k0 * this.p00;
+
+    return this.x;
+  }
+}
+
+const createFilter = (config: TrackingFilterConfig): ScalarFilter => {
+  switch (config.type) {
+    case 'oneEuro': return new OneEuroFilter(config.oneEuro);
+    case 'kalman': return new KalmanFilter(config.kalman);
+    default: return new PassThrough();
+  }
+};
+
+/** Filters all 21 landmarks of one hand, one scalar filter per coordinate. */
+export class LandmarkFilter {
+  private filters: ScalarFilter[] = [];
+  private filtered: Landmark[] = [];
+
+  constructor(private config: TrackingFilterConfig) {}
+
+  apply(landmarks: Landmark[], timestampMs: number): Landmark[] {
+    if (this.filters.length !== landmarks.length * 3) {
+      this.filters = Array.from({ length: landmarks.length * 3 }, () => createFilter(this.config));
+    }
+    this.filtered = landmarks.map((p, i) => ({
+      x: this.filters[i * 3].filter(p.x, timestampMs),
+      y: this.filters[i * 3 + 1].filter(p.y, timestampMs),
+      z: this.filters[i * 3 + 2].filter(p.z, timestampMs),
+    }));
+    return this.filtered;
+  }
+
+  /** Last filtered landmark extrapolated `horizonMs` ahead along its estimated velocity. */
+  predict(index: number, horizonMs: number): Landmark {
+    const p = this.filtered[index];
+    return {
+      x: p.x + this.filters[index * 3].velocity * horizonMs,
+      y: p.y + this.filters[index * 3 + 1].velocity * horizonMs,
+      z: p.z + this.filters[index * 3 + 2].velocity * horizonMs,
+    };
+  }
+}
+
+// --- Persistence ---
+
+const STORAGE_KEY = 'kinetic-particles.tracking-filter';
+
+export const loadTrackingFilter = (storage: Pick<Storage, 'getItem'>): TrackingFilterConfig => {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return {
+      ...DEFAULT_TRACKING_FILTER,
+      ...parsed,
+      oneEuro: { ...DEFAULT_TRACKING_FILTER.oneEuro, ...parsed.oneEuro },
+      kalman: { ...DEFAULT_TRACKING_FILTER.kalman, ...parsed.kalman },
+    };
+  } catch {
+    return DEFAULT_TRACKING_FILTER;
+  }
+};
+
+export const saveTrackingFilter = (storage: Pick<Storage, 'setItem'>, config: TrackingFilterConfig) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
@@ -0,0 +1,83 @@
+import { Vector3 } from 'three';
+import { HandGesture, TrackedHand, useStore } from '../store';
+import type { InputProvider } from './inputProviders';
+import { syntheticHand } from './handPipeline';
+
+const DEADZONE = 0.15;
+const TRIGGER_THRESHOLD = 0.5;
+
+// Standard gamepad mapping (https://w3c.github.io/gamepad/#remapping)
+const BUTTON_A = 0;
+const BUTTON_LT = 6;
+const BUTTON_RT = 7;
+const AXIS_LX = 0;
+const AXIS_LY = 1;
+const AXIS_RX = 2;
+const AXIS_RY = 3;
+
+const deadzone = (v: number) => (Math.abs(v) < DEADZONE ? 0 : v);
+
+/**
+ * Gamepad control. The left stick moves the primary hand and the right stick a
+ * second hand, so spreading or twisting both sticks drives bimanual zoom and roll.
+ * Right trigger = closed (strength maps to pinch), left trigger = open, A = pinch.
+ */
+class GamepadInput implements InputProvider {
+  readonly id = 'gamepad' as const;
+  readonly label = 'Gamepad';
+  readonly hint = 'Move the Sticks';
+
+  private frameId: number | null = null;
+  private wasActive = false;
+
+  isSupported() {
+    return typeof navigator !== 'undefined' && 'getGamepads' in navigator;
+  }
+
+  async start() {
+    if (this.frameId !== null) return;
+    this.frameId = requestAnimationFrame(this.poll);
+  }
+
+  stop() {
+    if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+    this.frameId = null;
+    this.wasActive = false;
+  }
+
+  private poll = () => {
+    this.frameId = requestAnimationFrame(this.poll);
+
+    const pad = navigator.getGamepads().find(p => p?.connected);
+    const hands: TrackedHand[] = [];
+
+    if (pad) {
+      const axis = (i: number) => deadzone(pad.axes[i] ?? 0);
+      const button = (i: number) => pad.buttons[i]?.value ?? 0;
+
+      const rt = button(BUTTON_RT);
+      const lt = button(BUTTON_LT);
+      const a = button(BUTTON_A);
+      let gesture: HandGesture = 'NEUTRAL';
+      if (rt > TRIGGER_THRESHOLD) gesture = 'CLOSED';
+      else if (lt > TRIGGER_THRESHOLD) gesture = 'OPEN';
+      else if (a > TRIGGER_THRESHOLD) gesture = 'PINCH';
+
+      const left = new Vector3(axis(AXIS_LX) * 5, -axis(AXIS_LY) * 4, 0);
+      const right = new Vector3(axis(AXIS_RX) * 5, -axis(AXIS_RY) * 4, 0);
+      // Any button counts, so a trigger or A with the stick centered still puts a hand in the scene
+      const leftActive = left.lengthSq() > 0 || rt > 0 || lt > 0 || a > 0;
+
+      if (leftActive) hands.push(syntheticHand('Right', left, gesture, gesture === 'PINCH' ? a : rt));
+      if (right.lengthSq() > 0) hands.push(syntheticHand('Left', right, 'NEUTRAL'));
+    }
+
+    // Avoid pushing an empty hand list into the store every frame while idle
+    if (hands.length > 0 || this.wasActive) {
+      useStore.getState().setHands(hands);
+    }
+    this.wasActive = hands.length > 0;
+  };
+}
+
+export const gamepadInput = new GamepadInput();
@@ -0,0 +1,329 @@
+// Pure-TypeScript gesture recognition over MediaPipe's 21 hand landmarks.
+// No DOM or MediaPipe imports, so it can run against recorded landmark fixtures.
+import type { HandGesture, Landmark } from '../store';
+
+export type Finger = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+
+export const FINGERS: Finger[] = ['thumb', 'index', 'middle', 'ring', 'pinky'];
+
+// Landmark indices per finger: tip, PIP (IP for the thumb), MCP
+const FINGER_JOINTS: Record<Finger, { tip: number; pip: number; mcp: number }> = {
+  thumb: { tip: 4, pip: 3, mcp: 2 },
+  index: { tip: 8, pip: 6, mcp: 5 },
+  middle: { tip: 12, pip: 10, mcp: 9 },
+  ring: { tip: 16, pip: 14, mcp: 13 },
+  pinky: { tip: 20, pip: 18, mcp: 17 },
+};
+
+// For drawing: each finger's landmarks from its base to the tip, and the bones across the palm
+export const FINGER_CHAINS: Record<Finger, number[]> = {
+  thumb: [1, 2, 3, 4],
+  index: [5, 6, 7, 8],
+  middle: [9, 10, 11, 12],
+  ring: [13, 14, 15, 16],
+  pinky: [17, 18, 19, 20],
+};
+export const PALM_BONES: [number, number][] = [[0, 1], [0, 5], [5, 9], [9, 13], [13, 17], [0, 17]];
+
+// Built-in gestures the recognizer can emit (custom ones are `CUSTOM:<label>`)
+export const BUILT_IN_GESTURES: Exclude<HandGesture, null>[] = [
+  'OPEN',
+  'CLOSED',
+  'NEUTRAL',
+  'PINCH',
+  'POINT',
+  'VICTORY',
+  'THUMBS_UP',
+  'SWIPE_LEFT',
+  'SWIPE_RIGHT',
+  'SWIPE_UP',
+  'SWIPE_DOWN',
+  'CIRCLE',
+];
+
+const WRIST = 0;
+const PALM_CENTER = 9; // Middle finger MCP
+
+const dist = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+
+/** Wrist to middle-finger MCP; used to make thresholds independent of hand distance. */
+export const palmSize = (landmarks: Landmark[]) =>
+  Math.max(dist(landmarks[WRIST], landmarks[PALM_CENTER]), 1e-6);
+
+/**
+ * A finger is folded when its tip is closer to the wrist than its PIP joint.
+ * The thumb folds across the palm, so it is measured against the pinky MCP instead.
+ */
+export const isFingerFolded = (landmarks: Landmark[], finger: Finger) => {
+  const { tip, pip } = FINGER_JOINTS[finger];
+  const anchor = landmarks[finger === 'thumb' ? FINGER_JOINTS.pinky.mcp : WRIST];
+  return dist(landmarks[tip], anchor) < dist(landmarks[pip], anchor);
+};
+
+export const foldedFingers = (landmarks: Landmark[]): Record<Finger, boolean> => ({
+  thumb: isFingerFolded(landmarks, 'thumb'),
+  index: isFingerFolded(landmarks, 'index'),
+  middle: isFingerFolded(landmarks, 'middle'),
+  ring: isFingerFolded(landmarks, 'ring'),
+  pinky: isFingerFolded(landmarks, 'pinky'),
+});
+
+/** 0 when thumb and index tips are apart, 1 when touching. */
+export const pinchStrength = (landmarks: Landmark[]) => {
+  const gap = dist(landmarks[FINGER_JOINTS.thumb.tip], landmarks[FINGER_JOINTS.index.tip]) / palmSize(landmarks);
+  const TOUCHING = 0.15;
+  const RELEASED = 0.6;
+  return Math.min(1, Math.max(0, (RELEASED - gap) / (RELEASED - TOUCHING)));
+};
+
+/**
+ * Classifies a single frame's static pose, without any debounce.
+ * `pinching` lets the caller apply hysteresis to the pinch threshold.
+ */
+export const classifyPose = (landmarks: Landmark[], pinching: boolean): HandGesture => {
+  const folded = foldedFingers(landmarks);
+  const fourFolded = folded.index && folded.middle && folded.ring && folded.pinky;
+
+  if (pinching && !folded.middle) return 'PINCH';
+
+  if (fourFolded) {
+    // Thumb pointing up: tip well above its MCP in image space (y grows downward)
+    const thumbRise = (landmarks[FINGER_JOINTS.thumb.mcp].y - landmarks[FINGER_JOINTS.thumb.tip].y) / palmSize(landmarks);
+    if (!folded.thumb && thumbRise > 0.5) return 'THUMBS_UP';
+    return 'CLOSED';
+  }
+  if (!folded.index && folded.middle && folded.ring && folded.pinky) return 'POINT';
+  if (!folded.index && !folded.middle && folded.ring && folded.pinky) return 'VICTORY';
+
+  const foldedCount = [folded.index, folded.middle, folded.ring, folded.pinky].filter(Boolean).length;
+  // 0-1 fingers folded: OPEN, 2-3: NEUTRAL (transition state)
+  return foldedCount <= 1 ? 'OPEN' : 'NEUTRAL';
+};
+
+// --- Custom gestures (nearest neighbour) ---
+
+export interface GestureSample {
+  label: string;
+  features: number[];
+}
+
+/**
+ * Translation- and scale-invariant pose features: landmarks relative to the wrist,
+ * divided by palm size. Left hands are mirrored so samples transfer between hands.
+ */
+export const extractFeatures = (landmarks: Landmark[], mirror = false): number[] => {
+  const wrist = landmarks[WRIST];
+  const scale = palmSize(landmarks);
+  const features: number[] = [];
+  for (const p of landmarks) {
+    features.push(((p.x - wrist.x) / scale) * (mirror ? -1 : 1), (p.y - wrist.y) / scale, (p.z - wrist.z) / scale);
+  }
+  return features;
+};
+
+/** Nearest recorded sample within `maxDistance` (RMS over all coordinates), or null. */
+export const classifyCustom = (samples: GestureSample[], features: number[], maxDistance: number) => {
+  let best: { label: string; distance: number } | null = null;
+  for (const sample of samples) {
+    if (sample.features.length !== features.length) continue;
+    let sum = 0;
+    for (let i = 0; i < features.length; i++) {
+      const d = features[i] - sample.features[i];
+      sum += d * d;
+    }
+    const distance = Math.sqrt(sum / features.length);
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { label: sample.label, distance };
+    }
+  }
+  return best;
+};
+
+const STORAGE_KEY = 'kinetic-particles.custom-gestures';
+
+type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export const loadCustomGestures = (storage: KeyValueStorage): GestureSample[] => {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter((s): s is GestureSample => typeof s?.label === 'string' && Array.isArray(s?.features))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomGestures = (storage: KeyValueStorage, samples: GestureSample[]) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(samples));
+};
+
+// --- Recognizer ---
+
+export interface GestureOptions {
+  stableFrames: number; // Frames a new static pose must persist before it is reported
+  pinchEnter: number; // Pinch strength that starts a pinch
+  pinchExit: number; // Pinch strength that ends it
+  swipeWindowMs: number;
+  swipeMinDistance: number; // In palm sizes
+  circleWindowMs: number;
+  motionHoldMs: number; // How long a swipe/circle stays reported
+  motionCooldownMs: number;
+  customMaxDistance: number;
+}
+
+export const DEFAULT_GESTURE_OPTIONS: GestureOptions = {
+  stableFrames: 3,
+  pinchEnter: 0.8,
+  pinchExit: 0.55,
+  swipeWindowMs: 250,
+  swipeMinDistance: 2.0,
+  circleWindowMs: 1500,
+  motionHoldMs: 300,
+  motionCooldownMs: 600,
+  customMaxDistance: 0.35,
+};
+
+export interface GestureResult {
+  gesture: HandGesture;
+  pinchStrength: number;
+}
+
+interface TrackPoint {
+  x: number;
+  y: number;
+  t: number;
+}
+
+/**
+ * Stateful per-hand recognizer. Feed it every frame of one hand;
+ * create one instance per tracked hand and `reset()` it when the hand is lost.
+ */
+export class GestureRecognizer {
+  private options: GestureOptions;
+  private stable: HandGesture = null;
+  private candidate: HandGesture = null;
+  private candidateFrames = 0;
+  private pinching = false;
+  private palmTrack: TrackPoint[] = [];
+  private tipTrack: TrackPoint[] = [];
+  private motion: { gesture: HandGesture; until: number } | null = null;
+  private cooldownUntil = 0;
+
+  constructor(options: Partial<GestureOptions> = {}) {
+    this.options = { ...DEFAULT_GESTURE_OPTIONS, ...options };
+  }
+
+  reset() {
+    this.stable = null;
+    this.candidate = null;
+    this.candidateFrames = 0;
+    this.pinching = false;
+    this.palmTrack = [];
+    this.tipTrack = [];
+    this.motion = null;
+    this.cooldownUntil = 0;
+  }
+
+  update(landmarks: Landmark[], timestamp: number, customSamples: GestureSample[] = [], mirror = false): GestureResult {
+    const o = this.options;
+    const strength = pinchStrength(landmarks);
+
+    // Pinch hysteresis: separate enter/exit thresholds
+    if (this.pinching ? strength < o.pinchExit : strength > o.pinchEnter) {
+      this.pinching = !this.pinching;
+    }
+
+    this.trackMotion(landmarks, timestamp);
+
+    let pose: HandGesture = classifyPose(landmarks, this.pinching);
+    if (customSamples.length > 0) {
+      const match = classifyCustom(customSamples, extractFeatures(landmarks, mirror), o.customMaxDistance);
+      if (match) pose = `CUSTOM:${match.label}`;
+    }
+
+    // Debounce: a new pose must hold for a few frames before replacing the stable one
+    if (pose === this.stable) {
+      this.candidate = null;
+      this.candidateFrames = 0;
+    } else if (pose === this.candidate) {
+      if (++this.candidateFrames >= o.stableFrames) {
+        this.stable = pose;
+        this.candidate = null;
+        this.candidateFrames = 0;
+      }
+    } else {
+      this.candidate = pose;
+      this.candidateFrames = 1;
+      // First pose of a fresh track is adopted immediately
+      if (this.stable === null) this.stable = pose;
+    }
+
+    if (this.motion && timestamp < this.motion.until) {
+      return { gesture: this.motion.gesture, pinchStrength: strength };
+    }
+    this.motion = null;
+    return { gesture: this.stable, pinchStrength: strength };
+  }
+
+  private trackMotion(landmarks: Landmark[], timestamp: number) {
+    const o = this.options;
+    const palm = landmarks[PALM_CENTER];
+    const tip = landmarks[FINGER_JOINTS.index.tip];
+    this.palmTrack.push({ x: palm.x, y: palm.y, t: timestamp });
+    this.tipTrack.push({ x: tip.x, y: tip.y, t: timestamp });
+    this.palmTrack = this.palmTrack.filter(p => timestamp - p.t <= o.swipeWindowMs);
+    this.tipTrack = this.tipTrack.filter(p => timestamp - p.t <= o.circleWindowMs);
+
+    if (timestamp < this.cooldownUntil) return;
+
+    const motion = this.detectSwipe(palmSize(landmarks)) ?? this.detectCircle();
+    if (motion) {
+      this.motion = { gesture: motion, until: timestamp + o.motionHoldMs };
+      this.cooldownUntil = timestamp + o.motionCooldownMs;
+      this.palmTrack = [];
+      this.tipTrack = [];
+    }
+  }
+
+  private detectSwipe(scale: number): HandGesture {
+    if (this.palmTrack.length < 3) return null;
+    const first = this.palmTrack[0];
+    const last = this.palmTrack[this.palmTrack.length - 1];
+    const dx = (last.x - first.x) / scale;
+    const dy = (last.y - first.y) / scale;
+    const dominant = Math.max(Math.abs(dx), Math.abs(dy));
+
+    // Must be fast (covered within the window), long enough and mostly along one axis
+    if (dominant < this.options.swipeMinDistance) return null;
+    if (Math.min(Math.abs(dx), Math.abs(dy)) > dominant * 0.5) return null;
+
+    // The camera image is not mirrored: moving toward the user's right decreases x
+    if (Math.abs(dx) > Math.abs(dy)) return dx < 0 ? 'SWIPE_RIGHT' : 'SWIPE_LEFT';
+    return dy < 0 ? 'SWIPE_UP' : 'SWIPE_DOWN';
+  }
+
+  private detectCircle(): HandGesture {
+    const track = this.tipTrack;
+    if (track.length < 12) return null;
+
+    const cx = track.reduce((sum, p) => sum + p.x, 0) / track.length;
+    const cy = track.reduce((sum, p) => sum + p.y, 0) / track.length;
+    const radius = track.reduce((sum, p) => sum + Math.hypot(p.x - cx, p.y - cy), 0) / track.length;
+    if (radius < 0.03) return null;
+
+    // Unwrapped angle swept around the centroid
+    let swept = 0;
+    let prev = Math.atan2(track[0].y - cy, track[0].x - cx);
+    for (let i = 1; i < track.length; i++) {
+      const angle = Math.atan2(track[i].y - cy, track[i].x - cx);
+      let d = angle - prev;
+      if (d > Math.PI) d -= Math.PI * 2;
+      if (d < -Math.PI) d += Math.PI * 2;
+      swept += d;
+      prev = angle;
+    }
+    return Math.abs(swept) >= Math.PI * 1.8 ? 'CIRCLE' : null;
+  }
+}
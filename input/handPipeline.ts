@@ -0,0 +1,187 @@
+import { Vector3 } from 'three';
+import type { HandGesture, Handedness, Landmark, TrackedHand } from '../store';
+import { LandmarkFilter, TrackingFilterConfig } from './filters';
+import { GestureRecognizer, GestureSample } from './gestures';
+
+// One hand as delivered by a tracker, before any filtering
+export interface RawHand {
+  handedness: Handedness; // From the user's point of view
+  landmarks: Landmark[];
+  score: number; // Detection confidence, 0-1
+}
+
+/** Which part of the camera image the hand covers, so a user's reach spans the whole scene. */
+export interface HandCalibration {
+  x: [number, number]; // Image-space range (0-1) mapped across the scene's width
+  y: [number, number]; // Image-space range (0-1) mapped across the scene's height
+  depthScale: number; // World units per unit of MediaPipe depth
+}
+
+export const DEFAULT_CALIBRATION: HandCalibration = { x: [0, 1], y: [0, 1], depthScale: 10 };
+
+export interface PipelineSettings {
+  filter: TrackingFilterConfig;
+  customSamples: GestureSample[];
+  calibration: HandCalibration;
+}
+
+export const INDEX_TIP = 8;
+
+// World extents the calibrated range maps onto
+const WORLD_WIDTH = 10;
+const WORLD_HEIGHT = 8;
+// Depth the calibrated reach maps onto, either way from the wrist
+const WORLD_DEPTH = 3;
+
+// Convert a MediaPipe landmark to approximate 3D world space for our canvas
+// MediaPipe coords: x (0-1), y (0-1), z (depth, relative to wrist)
+export const toWorld = (landmark: Landmark, calibration: HandCalibration = DEFAULT_CALIBRATION) => {
+  const [x0, x1] = calibration.x;
+  const [y0, y1] = calibration.y;
+  // X: Invert because webcam is mirrored. Scale to approx -5 to 5
+  // Y: Scale to approx -4 to 4
+  // Z: Scale depth for interaction intensity
+  const x = (0.5 - (landmark.x - x0) / (x1 - x0)) * WORLD_WIDTH;
+  const y = (0.5 - (landmark.y - y0) / (y1 - y0)) * WORLD_HEIGHT;
+  const z = landmark.z * -calibration.depthScale;
+  return new Vector3(x, y, z);
+};
+
+/** Extremes of the index fingertip seen while the user swept their reach. */
+export interface ReachBounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  maxDepth: number; // Largest |z|
+}
+
+// Smallest image-space span accepted; anything less means the hand barely moved
+const MIN_SPAN = 0.1;
+
+/** Calibration that maps the swept reach onto the scene, or null when the sweep was too small. */
+export const calibrationFromReach = (reach: ReachBounds): HandCalibration | null => {
+  if (reach.maxX - reach.minX < MIN_SPAN || reach.maxY - reach.minY < MIN_SPAN) return null;
+  return {
+    x: [reach.minX, reach.maxX],
+    y: [reach.minY, reach.maxY],
+    depthScale: Math.min(60, Math.max(5, WORLD_DEPTH / Math.max(reach.maxDepth, 1e-3))),
+  };
+};
+
+const STORAGE_KEY = 'kinetic-particles.calibration';
+
+export const loadHandCalibration = (storage: Pick<Storage, 'getItem'>): HandCalibration => {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    const parsed = raw ? { ...DEFAULT_CALIBRATION, ...JSON.parse(raw) } : DEFAULT_CALIBRATION;
+    const valid = (range: unknown) =>
+      Array.isArray(range) && range.length === 2 && range.every(Number.isFinite) && range[1] - range[0] >= MIN_SPAN;
+    return valid(parsed.x) && valid(parsed.y) && Number.isFinite(parsed.depthScale) ? parsed : DEFAULT_CALIBRATION;
+  } catch {
+    return DEFAULT_CALIBRATION;
+  }
+};
+
+export const saveHandCalibration = (storage: Pick<Storage, 'setItem'>, calibration: HandCalibration) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(calibration));
+};
+
+/** Builds a hand for inputs that report a position and gesture but no landmarks. */
+export const syntheticHand = (
+  handedness: Handedness,
+  position: Vector3,
+  gesture: HandGesture,
+  pinchStrength = 0
+): TrackedHand => ({ handedness, landmarks: [], gesture, pinchStrength, position });
+
+interface HandTrack {
+  filter: LandmarkFilter;
+  recognizer: GestureRecognizer;
+  lastSeen: number;
+  hand: TrackedHand;
+}
+
+const WRIST = 0;
+// Farthest (in image space) a wrist may move between frames and still continue its track
+const MAX_TRACK_JUMP = 0.3;
+
+/** Image-space distance between two hands' wrists. */
+export const wristDistance = (a: Landmark[], b: Landmark[]) => {
+  if (!a[WRIST] || !b[WRIST]) return Infinity;
+  return Math.hypot(a[WRIST].x - b[WRIST].x, a[WRIST].y - b[WRIST].y);
+};
+
+/**
+ * Turns raw per-frame landmarks into stable `TrackedHand`s:
+ * filtering, prediction, gesture recognition and a dropout grace period.
+ */
+export class HandPipeline {
+  private tracks: HandTrack[] = [];
+  private filterConfig: TrackingFilterConfig | null = null;
+
+  process(raw: RawHand[], timestampMs: number, settings: PipelineSettings): TrackedHand[] {
+    // Filter parameters changed: restart filter state from scratch
+    if (settings.filter !== this.filterConfig) {
+      this.filterConfig = settings.filter;
+      this.tracks.forEach(track => {
+        track.filter = new LandmarkFilter(settings.filter);
+      });
+    }
+
+    // Detections continue the track whose wrist was nearest, not the one with the same label:
+    // MediaPipe often calls both hands Left (or Right), and each hand needs its own filter and recognizer
+    const unmatched = new Set(this.tracks);
+    const matched = new Map<RawHand, HandTrack>();
+    raw
+      .flatMap(detection => [...unmatched].map(track => ({
+        detection,
+        track,
+        distance: wristDistance(detection.landmarks, track.hand.landmarks),
+      })))
+      .sort((a, b) => a.distance - b.distance)
+      .forEach(({ detection, track, distance }) => {
+        if (distance > MAX_TRACK_JUMP || matched.has(detection) || !unmatched.has(track)) return;
+        matched.set(detection, track);
+        unmatched.delete(track);
+      });
+
+    for (const detection of raw) {
+      const { handedness, landmarks } = detection;
+      const existing = matched.get(detection);
+      const filter = existing?.filter ?? new LandmarkFilter(settings.filter);
+      const recognizer = existing?.recognizer ?? new GestureRecognizer();
+
+      const filtered = filter.apply(landmarks, timestampMs);
+      const { gesture, pinchStrength } = recognizer.update(
+        filtered,
+        timestampMs,
+        settings.customSamples,
+        handedness === 'Left'
+      );
+
+      const track: HandTrack = {
+        filter,
+        recognizer,
+        lastSeen: timestampMs,
+        hand: {
+          handedness,
+          landmarks: filtered,
+          gesture,
+          pinchStrength,
+          position: toWorld(filter.predict(INDEX_TIP, settings.filter.predictionMs), settings.calibration),
+        },
+      };
+      if (existing) this.tracks[this.tracks.indexOf(existing)] = track;
+      else this.tracks.push(track);
+    }
+
+    // Hands missing this frame survive the grace period unchanged, then are forgotten
+    this.tracks = this.tracks.filter(track => timestampMs - track.lastSeen <= settings.filter.dropoutGraceMs);
+    return this.tracks.map(track => track.hand);
+  }
+
+  reset() {
+    this.tracks = [];
+  }
+}
@@ -0,0 +1,70 @@
+import { useEffect } from 'react';
+import { InputSource, useStore } from '../store';
+import { mouseInput } from './mouseInput';
+import { gamepadInput } from './gamepadInput';
+import { midiInput } from './midiInput';
+import { websocketInput } from './websocketInput';
+
+/**
+ * A source of hand (or parameter) input that writes into the store while active.
+ * The webcam is handled by `WebcamHandTracker`, which needs a mounted <video>.
+ */
+export interface InputProvider {
+  readonly id: InputSource;
+  readonly label: string;
+  readonly hint: string; // Short on-screen instruction
+  isSupported(): boolean;
+  start(): Promise<void>; // Rejects with a readable message when unavailable
+  stop(): void;
+}
+
+export const INPUT_PROVIDERS: InputProvider[] = [mouseInput, gamepadInput, midiInput, websocketInput];
+
+export const INPUT_LABELS: Record<InputSource, string> = {
+  webcam: 'Webcam',
+  mouse: mouseInput.label,
+  gamepad: gamepadInput.label,
+  midi: midiInput.label,
+  websocket: websocketInput.label,
+  playback: 'Session playback',
+};
+
+export const INPUT_HINTS: Record<InputSource, string> = {
+  webcam: 'Raise Hand to Spin',
+  mouse: mouseInput.hint,
+  gamepad: gamepadInput.hint,
+  midi: midiInput.hint,
+  websocket: websocketInput.hint,
+  playback: 'Replaying Session',
+};
+
+// Source used when the camera or MediaPipe is unavailable
+export const FALLBACK_SOURCE: InputSource = 'mouse';
+
+/** Starts the provider for the active input source and stops it when the source changes. */
+export const useInputProvider = () => {
+  const inputSource = useStore(state => state.inputSource);
+  // Reconnect when the tracker URL changes while streaming
+  const websocketUrl = useStore(state => (state.inputSource === 'websocket' ? state.websocketUrl : ''));
+
+  useEffect(() => {
+    const provider = INPUT_PROVIDERS.find(p => p.id === inputSource);
+    if (!provider) return;
+
+    const { setError, setInputSource } = useStore.getState();
+    if (!provider.isSupported()) {
+      setError(`${provider.label} input is not supported in this browser.`);
+      setInputSource(FALLBACK_SOURCE);
+      return;
+    }
+
+    provider.start().catch((err: Error) => {
+      console.error(`Failed to start ${provider.label} input:`, err);
+      setError(err.message);
+    });
+    return () => {
+      provider.stop();
+      useStore.getState().setHands([]);
+    };
+  }, [inputSource, websocketUrl]);
+};
@@ -0,0 +1,79 @@
+import { ParticleConfig, useStore } from '../store';
+import type { InputProvider } from './inputProviders';
+import { CONFIG_SCHEMA } from '../services/configSchema';
+
+type NumericField = {
+  [K in keyof ParticleConfig]: ParticleConfig[K] extends number ? K : never;
+}[keyof ParticleConfig];
+
+export interface MidiMapping {
+  cc: number; // Control change number, any channel; 0-127 spans the field's schema range
+  field: NumericField;
+}
+
+// Knobs 1-6 on most controllers; particleCount is left out because each change regenerates the shape
+export const MIDI_MAPPINGS: MidiMapping[] = [
+  { cc: 1, field: 'speed' },
+  { cc: 2, field: 'noiseScale' },
+  { cc: 3, field: 'particleSize' },
+  { cc: 4, field: 'interactionRadius' },
+  { cc: 5, field: 'damping' },
+  { cc: 6, field: 'stiffness' },
+];
+
+const CONTROL_CHANGE = 0xb0;
+
+/**
+ * Web MIDI controllers. Control change messages set `ParticleConfig` fields
+ * according to `MIDI_MAPPINGS`; hands are left untouched.
+ */
+class MidiInput implements InputProvider {
+  readonly id = 'midi' as const;
+  readonly label = 'MIDI';
+  readonly hint = 'Turn the Knobs';
+
+  private access: MIDIAccess | null = null;
+
+  isSupported() {
+    return typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator;
+  }
+
+  async start() {
+    try {
+      this.access = await navigator.requestMIDIAccess();
+    } catch {
+      throw new Error('MIDI access was denied.');
+    }
+    this.access.inputs.forEach(input => input.addEventListener('midimessage', this.onMessage));
+    this.access.addEventListener('statechange', this.onStateChange);
+  }
+
+  stop() {
+    if (!this.access) return;
+    this.access.inputs.forEach(input => input.removeEventListener('midimessage', this.onMessage));
+    this.access.removeEventListener('statechange', this.onStateChange);
+    this.access = null;
+  }
+
+  // Devices plugged in after start
+  private onStateChange = (e: Event) => {
+    const port = (e as MIDIConnectionEvent).port;
+    if (port?.type === 'input' && port.state === 'connected') {
+      port.removeEventListener('midimessage', this.onMessage);
+      port.addEventListener('midimessage', this.onMessage);
+    }
+  };
+
+  private onMessage = (e: Event) => {
+    const data = (e as MIDIMessageEvent).data;
+    if (!data || data.length < 3 || (data[0] & 0xf0) !== CONTROL_CHANGE) return;
+
+    const mapping = MIDI_MAPPINGS.find(m => m.cc === data[1]);
+    const field = mapping && CONFIG_SCHEMA[mapping.field];
+    if (!mapping || field?.type !== 'number') return;
+    const value = field.min + (data[2] / 127) * (field.max - field.min);
+    useStore.getState().setConfig({ [mapping.field]: value });
+  };
+}
+
+export const midiInput = new MidiInput();
@@ -0,0 +1,121 @@
+import { Vector3 } from 'three';
+import { HandGesture, useStore } from '../store';
+import type { InputProvider } from './inputProviders';
+import { syntheticHand } from './handPipeline';
+
+// Same extents as the webcam mapping in `toWorld`
+const WORLD_X = 5;
+const WORLD_Y = 4;
+const DEPTH_RANGE = 3;
+
+/**
+ * Mouse and touch control. Dragging on the canvas moves a virtual hand:
+ * left button = neutral, middle or shift+left = open, right button = closed.
+ * On touch screens one finger is neutral, two open and three or more closed.
+ * The wheel moves the hand in depth.
+ */
+class MouseInput implements InputProvider {
+  readonly id = 'mouse' as const;
+  readonly label = 'Mouse / touch';
+  readonly hint = 'Drag to Spin';
+
+  private pointers = new Map<number, { x: number; y: number; buttons: number; shift: boolean; touch: boolean }>();
+  private depth = 0;
+  private active = false;
+
+  isSupported() {
+    return typeof window !== 'undefined' && 'PointerEvent' in window;
+  }
+
+  async start() {
+    if (this.active) return;
+    this.active = true;
+    window.addEventListener('pointerdown', this.onPointer);
+    window.addEventListener('pointermove', this.onPointer);
+    window.addEventListener('pointerup', this.onPointerEnd);
+    window.addEventListener('pointercancel', this.onPointerEnd);
+    window.addEventListener('wheel', this.onWheel, { passive: true });
+    window.addEventListener('contextmenu', this.onContextMenu);
+  }
+
+  stop() {
+    this.active = false;
+    window.removeEventListener('pointerdown', this.onPointer);
+    window.removeEventListener('pointermove', this.onPointer);
+    window.removeEventListener('pointerup', this.onPointerEnd);
+    window.removeEventListener('pointercancel', this.onPointerEnd);
+    window.removeEventListener('wheel', this.onWheel);
+    window.removeEventListener('contextmenu', this.onContextMenu);
+    this.pointers.clear();
+    this.depth = 0;
+  }
+
+  private onPointer = (e: PointerEvent) => {
+    // Only drags that start on the canvas count; the control panel keeps its clicks
+    if (e.type === 'pointerdown' && !(e.target instanceof HTMLCanvasElement)) return;
+    if (e.type === 'pointermove' && !this.pointers.has(e.pointerId)) return;
+
+    this.pointers.set(e.pointerId, {
+      x: e.clientX,
+      y: e.clientY,
+      buttons: e.buttons,
+      shift: e.shiftKey,
+      touch: e.pointerType === 'touch',
+    });
+    this.publish();
+  };
+
+  private onPointerEnd = (e: PointerEvent) => {
+    if (!this.pointers.delete(e.pointerId)) return;
+    this.publish();
+  };
+
+  private onWheel = (e: WheelEvent) => {
+    if (!(e.target instanceof HTMLCanvasElement)) return;
+    this.depth = Math.min(DEPTH_RANGE, Math.max(-DEPTH_RANGE, this.depth - e.deltaY * 0.005));
+    if (this.pointers.size > 0) this.publish();
+  };
+
+  private onContextMenu = (e: MouseEvent) => {
+    if (e.target instanceof HTMLCanvasElement) e.preventDefault();
+  };
+
+  private gesture(): HandGesture {
+    const all = [...this.pointers.values()];
+    if (all[0].touch) {
+      if (all.length >= 3) return 'CLOSED';
+      return all.length === 2 ? 'OPEN' : 'NEUTRAL';
+    }
+    const { buttons, shift } = all[0];
+    if (buttons & 2) return 'CLOSED';
+    if (buttons & 4 || shift) return 'OPEN';
+    return 'NEUTRAL';
+  }
+
+  private publish() {
+    const { setHands } = useStore.getState();
+    if (this.pointers.size === 0) {
+      setHands([]);
+      return;
+    }
+
+    // Multi-touch: the hand sits at the centroid of the touches
+    let x = 0;
+    let y = 0;
+    this.pointers.forEach(p => {
+      x += p.x;
+      y += p.y;
+    });
+    x /= this.pointers.size;
+    y /= this.pointers.size;
+
+    const position = new Vector3(
+      (x / window.innerWidth - 0.5) * 2 * WORLD_X,
+      (0.5 - y / window.innerHeight) * 2 * WORLD_Y,
+      this.depth
+    );
+    setHands([syntheticHand('Right', position, this.gesture())]);
+  }
+}
+
+export const mouseInput = new MouseInput();
@@ -0,0 +1,285 @@
+// Recording and deterministic replay of hand-tracking sessions.
+import { HandGesture, Handedness, ParticleConfig, useStore } from '../store';
+import { HandPipeline, RawHand } from './handPipeline';
+
+// Landmarks are stored as flat [x, y, z, ...] arrays rounded to 4 decimals to keep files compact
+interface RecordedHand {
+  handedness: Handedness;
+  score: number;
+  landmarks: number[];
+}
+
+export type SessionEvent =
+  | { t: number; type: 'frame'; hands: RecordedHand[] }
+  | { t: number; type: 'gesture'; handedness: Handedness; gesture: HandGesture }
+  | { t: number; type: 'config'; config: Partial<ParticleConfig> };
+
+export interface SessionRecording {
+  version: 1;
+  createdAt: string;
+  duration: number; // ms
+  initialConfig: ParticleConfig;
+  events: SessionEvent[]; // Sorted by t (ms since recording start)
+}
+
+const round = (v: number) => Math.round(v * 10000) / 10000;
+
+const encodeHands = (hands: RawHand[]): RecordedHand[] =>
+  hands.map(h => ({
+    handedness: h.handedness,
+    score: round(h.score),
+    landmarks: h.landmarks.flatMap(p => [round(p.x), round(p.y), round(p.z)]),
+  }));
+
+const decodeHands = (hands: RecordedHand[]): RawHand[] =>
+  hands.map(h => ({
+    handedness: h.handedness,
+    score: h.score,
+    landmarks: Array.from({ length: h.landmarks.length / 3 }, (_, i) => ({
+      x: h.landmarks[i * 3],
+      y: h.landmarks[i * 3 + 1],
+      z: h.landmarks[i * 3 + 2],
+    })),
+  }));
+
+/** Shallow diff of the fields that changed between two configs. */
+export const diffConfig = (prev: ParticleConfig, next: ParticleConfig): Partial<ParticleConfig> => {
+  const diff: Record<string, unknown> = {};
+  (Object.keys(next) as (keyof ParticleConfig)[]).forEach(key => {
+    if (next[key] !== prev[key]) diff[key] = next[key];
+  });
+  return diff as Partial<ParticleConfig>;
+};
+
+/**
+ * Captures the raw landmark stream (fed by the tracker) plus gesture and
+ * config changes observed on the store.
+ */
+export class SessionRecorder {
+  private startedAt = 0;
+  private events: SessionEvent[] = [];
+  private initialConfig: ParticleConfig | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  get isRecording() {
+    return this.unsubscribe !== null;
+  }
+
+  start() {
+    if (this.isRecording) return;
+    this.startedAt = performance.now();
+    this.events = [];
+    this.initialConfig = useStore.getState().config;
+
+    this.unsubscribe = useStore.subscribe((state, prev) => {
+      const t = this.now();
+      if (state.config !== prev.config) {
+        this.events.push({ t, type: 'config', config: diffConfig(prev.config, state.config) });
+      }
+      if (state.hands !== prev.hands) {
+        state.hands.forEach(hand => {
+          const before = prev.hands.find(h => h.handedness === hand.handedness);
+          if (before?.gesture !== hand.gesture) {
+            this.events.push({ t, type: 'gesture', handedness: hand.handedness, gesture: hand.gesture });
+          }
+        });
+      }
+    });
+  }
+
+  /** Called by the tracker with every raw detection result while recording. */
+  captureFrame(hands: RawHand[]) {
+    if (!this.isRecording) return;
+    this.events.push({ t: this.now(), type: 'frame', hands: encodeHands(hands) });
+  }
+
+  stop(): SessionRecording | null {
+    if (!this.unsubscribe || !this.initialConfig) return null;
+    this.unsubscribe();
+    this.unsubscribe = null;
+    return {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      duration: this.now(),
+      initialConfig: this.initialConfig,
+      events: this.events,
+    };
+  }
+
+  private now() {
+    return Math.round(performance.now() - this.startedAt);
+  }
+}
+
+// Shared instance the webcam tracker feeds while a recording is running
+export const sessionRecorder = new SessionRecorder();
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isHandedness = (value: unknown): value is Handedness => value === 'Left' || value === 'Right';
+
+const isRecordedHand = (value: unknown): value is RecordedHand => {
+  const h = value as RecordedHand;
+  return (
+    isHandedness(h?.handedness) &&
+    Number.isFinite(h.score) &&
+    Array.isArray(h.landmarks) &&
+    h.landmarks.length % 3 === 0 &&
+    h.landmarks.every(Number.isFinite)
+  );
+};
+
+const isEvent = (value: unknown): value is SessionEvent => {
+  const e = value as SessionEvent;
+  if (!Number.isFinite(e?.t) || e.t < 0) return false;
+  switch (e.type) {
+    case 'frame': return Array.isArray(e.hands) && e.hands.every(isRecordedHand);
+    case 'gesture': return isHandedness(e.handedness) && (e.gesture === null || typeof e.gesture === 'string');
+    case 'config': return isObject(e.config);
+    default: return false;
+  }
+};
+
+/** Validates a loaded recording file. Malformed events are dropped so the rest still plays. */
+export const parseRecording = (data: unknown): SessionRecording => {
+  const rec = data as SessionRecording;
+  if (
+    rec?.version !== 1 ||
+    !Array.isArray(rec.events) ||
+    !Number.isFinite(rec.duration) ||
+    rec.duration < 0 ||
+    !isObject(rec.initialConfig)
+  ) {
+    throw new Error('Not a session recording (version 1)');
+  }
+  const events = rec.events.filter(isEvent);
+  if (events.length < rec.events.length) {
+    console.warn(`Dropped ${rec.events.length - events.length} malformed events from the recording`);
+  }
+  return { ...rec, events: events.sort((a, b) => a.t - b.t) };
+};
+
+export interface PlaybackState {
+  time: number;
+  playing: boolean;
+  loop: boolean;
+}
+
+/**
+ * Replays a recording into the store in place of a live tracker.
+ * Frames run through a fresh HandPipeline using recorded timestamps, so
+ * filtering and gesture recognition are reproduced deterministically.
+ */
+export class SessionPlayer {
+  private pipeline = new HandPipeline();
+  private cursor = 0; // Index of the next event to emit
+  private time = 0;
+  private playing = false;
+  private loop = false;
+  private frameId: number | null = null;
+  private lastTick = 0;
+  private listeners = new Set<(state: PlaybackState) => void>();
+
+  constructor(readonly recording: SessionRecording, readonly name = 'session') {}
+
+  get state(): PlaybackState {
+    return { time: this.time, playing: this.playing, loop: this.loop };
+  }
+
+  subscribe(listener: (state: PlaybackState) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  play() {
+    if (this.playing) return;
+    if (this.time >= this.recording.duration) this.seek(0);
+    this.playing = true;
+    this.lastTick = performance.now();
+    this.frameId = requestAnimationFrame(this.tick);
+    this.notify();
+  }
+
+  pause() {
+    this.playing = false;
+    if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+    this.frameId = null;
+    this.notify();
+  }
+
+  setLoop(loop: boolean) {
+    this.loop = loop;
+    this.notify();
+  }
+
+  /** Jumps to `timeMs`, restoring the config as of that moment and restarting filters. */
+  seek(timeMs: number) {
+    this.time = Math.min(Math.max(0, timeMs), this.recording.duration);
+    this.pipeline.reset();
+
+    const config = { ...this.recording.initialConfig };
+    this.cursor = 0;
+    const events = this.recording.events;
+    while (this.cursor < events.length && events[this.cursor].t <= this.time) {
+      const event = events[this.cursor];
+      if (event.type === 'config') Object.assign(config, event.config);
+      this.cursor++;
+    }
+    useStore.getState().setConfig(config);
+    useStore.getState().setHands([]);
+    this.notify();
+  }
+
+  /** Emits every event up to `timeMs`. */
+  advanceTo(timeMs: number) {
+    const { setHands, setConfig, trackingFilter, customGestureSamples, handCalibration } = useStore.getState();
+    const events = this.recording.events;
+
+    while (this.cursor < events.length && events[this.cursor].t <= timeMs) {
+      const event = events[this.cursor++];
+      if (event.type === 'frame') {
+        setHands(this.pipeline.process(decodeHands(event.hands), event.t, {
+          filter: trackingFilter,
+          customSamples: customGestureSamples,
+          calibration: handCalibration,
+        }));
+      } else if (event.type === 'config') {
+        setConfig(event.config);
+      }
+      // Gesture events are informational; replay re-derives gestures from frames
+    }
+    this.time = timeMs;
+  }
+
+  dispose() {
+    this.pause();
+    this.listeners.clear();
+  }
+
+  private tick = (now: number) => {
+    this.advanceTo(this.time + (now - this.lastTick));
+    this.lastTick = now;
+
+    if (this.time >= this.recording.duration) {
+      if (this.loop) {
+        this.seek(0);
+      } else {
+        this.time = this.recording.duration;
+        this.playing = false;
+        this.frameId = null;
+        this.notify();
+        return;
+      }
+    }
+    this.notify();
+    this.frameId = requestAnimationFrame(this.tick);
+  };
+
+  private notify() {
+    const state = this.state;
+    this.listeners.forEach(l => l(state));
+  }
+}
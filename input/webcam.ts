@@ -0,0 +1,137 @@
+// Camera and MediaPipe setup for the webcam tracker: self-hosted assets with a
+// CDN fallback, GPU with a CPU fallback, and the user's choice of camera.
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+
+// Served by the dev server and copied into the build (see vite.config.ts)
+const LOCAL_WASM = 'mediapipe/wasm';
+// Fetched with `npm run fetch-model`
+const LOCAL_MODEL = 'models/hand_landmarker.task';
+
+// Used when the app runs without the Vite build (e.g. straight from the import map in index.html).
+// Pinned to the exact version in package.json and the import map, since the wasm must match the JS bundle.
+const MEDIAPIPE_VERSION = '0.10.35';
+const CDN_WASM = `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${MEDIAPIPE_VERSION}/wasm`;
+const CDN_MODEL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+
+export type Delegate = 'GPU' | 'CPU';
+
+// Whether a bundled asset is there. Dev servers answer unknown paths with index.html, so that counts as missing.
+const isServed = async (url: string) => {
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    return response.ok && !(response.headers.get('content-type') ?? '').includes('text/html');
+  } catch {
+    return false;
+  }
+};
+
+/** Loads the hand landmarker, preferring local assets and the GPU, and says which delegate it got. */
+export const createHandLandmarker = async (): Promise<{ landmarker: HandLandmarker; delegate: Delegate }> => {
+  const [localWasm, localModel] = await Promise.all([
+    isServed(`${LOCAL_WASM}/vision_wasm_internal.wasm`),
+    isServed(LOCAL_MODEL),
+  ]);
+  const vision = await FilesetResolver.forVisionTasks(localWasm ? LOCAL_WASM : CDN_WASM);
+  const modelAssetPath = localModel ? LOCAL_MODEL : CDN_MODEL;
+
+  const create = (delegate: Delegate) =>
+    HandLandmarker.createFromOptions(vision, {
+      baseOptions: { modelAssetPath, delegate },
+      runningMode: 'VIDEO',
+      numHands: 2,
+    });
+
+  try {
+    return { landmarker: await create('GPU'), delegate: 'GPU' };
+  } catch (err) {
+    // No WebGL2 or a blocklisted driver; the CPU delegate is slower but works everywhere wasm does
+    console.warn('GPU hand tracking unavailable, falling back to CPU:', err);
+    return { landmarker: await create('CPU'), delegate: 'CPU' };
+  }
+};
+
+export interface WebcamResolution {
+  width: number;
+  height: number;
+}
+
+export const RESOLUTIONS: WebcamResolution[] = [
+  { width: 320, height: 240 },
+  { width: 640, height: 480 },
+  { width: 1280, height: 720 },
+];
+
+export const FRAME_RATES = [15, 30, 60];
+
+export interface WebcamSettings {
+  deviceId: string | null; // null for the browser's default (user-facing) camera
+  resolution: WebcamResolution; // Requested; the camera may pick the closest it supports
+  frameRate: number;
+}
+
+export const DEFAULT_WEBCAM_SETTINGS: WebcamSettings = {
+  deviceId: null,
+  resolution: RESOLUTIONS[0],
+  frameRate: 30,
+};
+
+/** Video inputs the browser knows about; labels are empty until camera permission is granted. */
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+};
+
+/** Opens the chosen camera, falling back to the default one when it is gone. */
+export const openCamera = async (settings: WebcamSettings): Promise<MediaStream> => {
+  const video: MediaTrackConstraints = {
+    width: { ideal: settings.resolution.width },
+    height: { ideal: settings.resolution.height },
+    frameRate: { ideal: settings.frameRate },
+  };
+  if (settings.deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ video: { ...video, deviceId: { exact: settings.deviceId } } });
+    } catch (err) {
+      const name = (err as DOMException).name;
+      if (name !== 'NotFoundError' && name !== 'OverconstrainedError') throw err;
+    }
+  }
+  return navigator.mediaDevices.getUserMedia({ video: { ...video, facingMode: 'user' } });
+};
+
+/** A message for why the camera could not be opened. */
+export const cameraErrorMessage = (err: unknown) => {
+  switch ((err as DOMException)?.name) {
+    case 'NotAllowedError':
+      return 'Camera access denied.';
+    case 'NotFoundError':
+      return 'No camera found.';
+    case 'NotReadableError':
+      return 'The camera is in use by another application.';
+    default:
+      return 'Could not start the camera.';
+  }
+};
+
+const STORAGE_KEY = 'kinetic-particles.webcam';
+
+export const loadWebcamSettings = (storage: Pick<Storage, 'getItem'>): WebcamSettings => {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return {
+      deviceId: typeof parsed.deviceId === 'string' ? parsed.deviceId : null,
+      resolution:
+        RESOLUTIONS.find(r => r.width === parsed.resolution?.width && r.height === parsed.resolution?.height) ??
+        DEFAULT_WEBCAM_SETTINGS.resolution,
+      frameRate: FRAME_RATES.includes(parsed.frameRate) ? parsed.frameRate : DEFAULT_WEBCAM_SETTINGS.frameRate,
+    };
+  } catch {
+    return DEFAULT_WEBCAM_SETTINGS;
+  }
+};
+
+export const saveWebcamSettings = (storage: Pick<Storage, 'setItem'>, settings: WebcamSettings) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
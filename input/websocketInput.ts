@@ -0,0 +1,134 @@
+import { Vector3 } from 'three';
+import { HandGesture, Handedness, Landmark, ParticleConfig, TrackedHand, useStore } from '../store';
+import type { InputProvider } from './inputProviders';
+import { HandPipeline, RawHand, syntheticHand } from './handPipeline';
+import { validateConfig } from '../services/configSchema';
+
+// Message format is documented in the README ("External trackers over WebSocket")
+interface WireHand {
+  handedness?: Handedness;
+  score?: number;
+  landmarks?: (Landmark | [number, number, number])[]; // 21 normalized MediaPipe-style points
+  position?: [number, number, number]; // World space, used when landmarks are absent
+  gesture?: HandGesture;
+  pinchStrength?: number;
+}
+
+type WireMessage =
+  | { type: 'hands'; hands: WireHand[] }
+  | { type: 'config'; config: Partial<ParticleConfig> };
+
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 10000;
+
+const toLandmark = (p: Landmark | [number, number, number]): Landmark =>
+  Array.isArray(p) ? { x: p[0], y: p[1], z: p[2] } : p;
+
+/**
+ * Streams hands (and optionally config) from an external tracker. Landmark
+ * frames go through the same filtering and gesture pipeline as the webcam;
+ * position-only hands are used as sent. Reconnects with backoff.
+ */
+class WebsocketInput implements InputProvider {
+  readonly id = 'websocket' as const;
+  readonly label = 'WebSocket';
+  readonly hint = 'Waiting for Tracker';
+
+  private socket: WebSocket | null = null;
+  private pipeline = new HandPipeline();
+  private url = '';
+  private retryMs = RECONNECT_MIN_MS;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private reportedFailure = false;
+
+  isSupported() {
+    return typeof WebSocket !== 'undefined';
+  }
+
+  async start() {
+    this.url = useStore.getState().websocketUrl;
+    this.retryMs = RECONNECT_MIN_MS;
+    this.reportedFailure = false;
+    try {
+      this.connect();
+    } catch {
+      throw new Error(`Invalid WebSocket URL "${this.url}".`);
+    }
+  }
+
+  stop() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+    this.pipeline.reset();
+  }
+
+  private connect() {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.retryMs = RECONNECT_MIN_MS;
+      this.reportedFailure = false;
+      useStore.getState().setError(null);
+    };
+    socket.onmessage = (e) => {
+      try {
+        this.handle(JSON.parse(e.data) as WireMessage);
+      } catch (err) {
+        console.warn('Ignoring malformed tracker message:', err);
+      }
+    };
+    socket.onclose = () => {
+      this.socket = null;
+      useStore.getState().setHands([]);
+      if (!this.reportedFailure) {
+        this.reportedFailure = true;
+        useStore.getState().setError(`Tracker at ${this.url} is not reachable. Retrying...`);
+      }
+      this.retryTimer = setTimeout(() => this.connect(), this.retryMs);
+      this.retryMs = Math.min(this.retryMs * 2, RECONNECT_MAX_MS);
+    };
+  }
+
+  private handle(message: WireMessage) {
+    const { setHands, setConfig, trackingFilter, customGestureSamples, handCalibration } = useStore.getState();
+
+    if (message.type === 'config') {
+      const { config, issues } = validateConfig(message.config);
+      if (issues.length > 0) console.warn('Adjusted tracker config:', issues);
+      setConfig(config);
+      return;
+    }
+    if (message.type !== 'hands' || !Array.isArray(message.hands)) return;
+
+    const raw: RawHand[] = [];
+    const direct: TrackedHand[] = [];
+    message.hands.forEach((hand, i) => {
+      const handedness = hand.handedness ?? (i === 0 ? 'Right' : 'Left');
+      if (hand.landmarks?.length) {
+        raw.push({ handedness, score: hand.score ?? 1, landmarks: hand.landmarks.map(toLandmark) });
+      } else if (hand.position) {
+        direct.push(syntheticHand(
+          handedness,
+          new Vector3(...hand.position),
+          hand.gesture ?? 'NEUTRAL',
+          hand.pinchStrength ?? 0
+        ));
+      }
+    });
+
+    const tracked = this.pipeline.process(raw, performance.now(), {
+      filter: trackingFilter,
+      customSamples: customGestureSamples,
+      calibration: handCalibration,
+    });
+    setHands([...tracked, ...direct]);
+  }
+}
+
+export const websocketInput = new WebsocketInput();
@@ -0,0 +1,22 @@
+// Downloads the MediaPipe hand landmarker model into public/, so the app can
+// track hands without reaching Google's servers:
+//
+//   npm run fetch-model
+//
+// Without it the app loads the model from the same URL at startup.
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+const target = resolve(dirname(fileURLToPath(import.meta.url)), '../public/models/hand_landmarker.task');
+
+const response = await fetch(MODEL_URL);
+if (!response.ok) {
+  console.error(`Download failed: ${response.status} ${response.statusText}`);
+  process.exit(1);
+}
+const model = Buffer.from(await response.arrayBuffer());
+await mkdir(dirname(target), { recursive: true });
+await writeFile(target, model);
+console.log(`Saved ${(model.length / 1e6).toFixed(1)} MB to ${target}`);
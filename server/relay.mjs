@@ -0,0 +1,134 @@
+// Relay for collaborative sessions: forwards hands between everyone in a room,
+// orders config changes (last writer wins) and holds the presenter lock.
+// Runs on the LAN with no outside services:
+//
+//   npm run relay            # ws://<this machine>:8787/<room>
+//   PORT=9000 npm run relay
+//
+// The room is the URL path, so one relay can host several sessions.
+import { WebSocketServer } from 'ws';
+import { networkInterfaces } from 'node:os';
+
+const PORT = Number(process.env.PORT) || 8787;
+// Hands are tiny; anything much bigger is a mistake or abuse
+const MAX_MESSAGE_BYTES = 64 * 1024;
+// The scene config has a few dozen fields; room state stays bounded whatever clients send
+const MAX_CONFIG_KEYS = 256;
+const MAX_KEY_LENGTH = 64;
+// Distinct hues, handed out in order to whoever joins a room
+const PEER_COLORS = ['#ff5a5f', '#3ddc97', '#ffb400', '#4cc9f0', '#c77dff', '#f72585', '#90be6d', '#f9844a'];
+
+/** @type {Map<string, { peers: Map<string, { socket: import('ws').WebSocket, name: string, color: string }>, config: Record<string, unknown>, presenter: string | null, nextId: number }>} */
+const rooms = new Map();
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (room, message, except) => {
+  const data = JSON.stringify(message);
+  room.peers.forEach((peer, id) => {
+    if (id !== except && peer.socket.readyState === peer.socket.OPEN) peer.socket.send(data);
+  });
+};
+
+// Copies a client's changes into the room config, keeping only own, reasonably sized keys.
+// Returns the changes that were kept, or null when there were none.
+const mergeConfig = (config, changes) => {
+  const kept = Object.create(null);
+  for (const key of Object.keys(changes)) {
+    if (key.length > MAX_KEY_LENGTH) continue;
+    if (!(key in config) && Object.keys(config).length >= MAX_CONFIG_KEYS) continue;
+    config[key] = kept[key] = changes[key];
+  }
+  return Object.keys(kept).length > 0 ? kept : null;
+};
+
+const peerList = (room) => [...room.peers].map(([id, { name, color }]) => ({ id, name, color }));
+
+const wss = new WebSocketServer({ port: PORT, maxPayload: MAX_MESSAGE_BYTES });
+
+wss.on('connection', (socket, request) => {
+  let roomName;
+  try {
+    roomName = decodeURIComponent(new URL(request.url ?? '/', 'http://relay').pathname.slice(1)) || 'default';
+  } catch {
+    socket.close(1008, 'Bad room name');
+    return;
+  }
+  if (!rooms.has(roomName)) rooms.set(roomName, { peers: new Map(), config: Object.create(null), presenter: null, nextId: 1 });
+  const room = rooms.get(roomName);
+
+  const id = `p${room.nextId++}`;
+  const used = new Set([...room.peers.values()].map(peer => peer.color));
+  const color = PEER_COLORS.find(c => !used.has(c)) ?? PEER_COLORS[room.nextId % PEER_COLORS.length];
+  const self = { socket, name: id, color };
+  room.peers.set(id, self);
+
+  send(socket, { type: 'welcome', id, color, peers: peerList(room), presenter: room.presenter, config: room.config });
+  broadcast(room, { type: 'join', peer: { id, name: self.name, color } }, id);
+  console.log(`[${roomName}] ${id} joined (${room.peers.size} connected)`);
+
+  socket.on('message', (data) => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+
+    switch (message?.type) {
+      case 'hello':
+        if (typeof message.name !== 'string') return;
+        self.name = message.name.slice(0, 40) || id;
+        broadcast(room, { type: 'join', peer: { id, name: self.name, color } }, id);
+        break;
+      case 'hands':
+        if (!Array.isArray(message.hands)) return;
+        broadcast(room, { type: 'hands', from: id, hands: message.hands.slice(0, 2) }, id);
+        break;
+      case 'config':
+        if (typeof message.changes !== 'object' || message.changes === null || Array.isArray(message.changes)) return;
+        // Only the presenter may change the scene while the lock is held
+        if (room.presenter && room.presenter !== id) {
+          send(socket, { type: 'rejected', cid: message.cid });
+          return;
+        }
+        const changes = mergeConfig(room.config, message.changes);
+        if (!changes) {
+          send(socket, { type: 'rejected', cid: message.cid });
+          return;
+        }
+        // Echoed to the sender too: every client applies changes in the relay's order
+        broadcast(room, { type: 'config', from: id, cid: message.cid, changes });
+        break;
+      case 'lock':
+        if (message.take && !room.presenter) room.presenter = id;
+        else if (!message.take && room.presenter === id) room.presenter = null;
+        else return;
+        broadcast(room, { type: 'presenter', id: room.presenter });
+        break;
+      default:
+        break;
+    }
+  });
+
+  socket.on('close', () => {
+    room.peers.delete(id);
+    broadcast(room, { type: 'leave', id });
+    if (room.presenter === id) {
+      room.presenter = null;
+      broadcast(room, { type: 'presenter', id: null });
+    }
+    if (room.peers.size === 0) rooms.delete(roomName);
+    console.log(`[${roomName}] ${id} left (${room.peers.size} connected)`);
+  });
+});
+
+wss.on('listening', () => {
+  console.log(`Particle relay listening on port ${PORT}. Join from the Collab tab at:`);
+  console.log(`  ws://localhost:${PORT}/<room>`);
+  Object.values(networkInterfaces()).flat().forEach(address => {
+    if (address && address.family === 'IPv4' && !address.internal) console.log(`  ws://${address.address}:${PORT}/<room>`);
+  });
+});
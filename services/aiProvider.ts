@@ -0,0 +1,122 @@
+// Picks the configured config generator and runs requests against it with a
+// timeout, cancellation of superseded requests and an optional offline fallback.
+import { ParticleConfig, useStore } from '../store';
+import { ConfigGenerator, DirectorExchange, DirectorReply, GeneratorId, LayerContext } from './configGenerator';
+import { ConfigValidationError } from './configSchema';
+import { GeminiGenerator } from './gemini';
+import { OpenAiCompatibleGenerator, OpenAiSettings } from './openaiCompatible';
+import { OfflineGenerator } from './offlineGenerator';
+import { MockGenerator } from './mockGenerator';
+
+export interface AiSettings {
+  provider: GeneratorId;
+  geminiApiKey: string; // Overrides GEMINI_API_KEY from the build when set
+  openai: OpenAiSettings;
+  timeoutMs: number;
+  offlineFallback: boolean; // Use the offline rules when the provider fails
+}
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  geminiApiKey: '',
+  openai: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.1', apiKey: '' },
+  timeoutMs: 20000,
+  offlineFallback: true,
+};
+
+export const GENERATOR_LABELS: Record<GeneratorId, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI-compatible',
+  offline: 'Offline rules',
+  mock: 'Mock',
+};
+
+/** Thrown when a newer request replaced this one; callers should ignore it. */
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Request was superseded');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+const offline = new OfflineGenerator();
+const mock = new MockGenerator({ delayMs: 300 });
+
+// Rebuilt only when the settings object changes, so the Gemini client is reused
+let cached: { settings: AiSettings; generator: ConfigGenerator } | null = null;
+
+export const getGenerator = (settings: AiSettings): ConfigGenerator => {
+  if (cached?.settings === settings) return cached.generator;
+  let generator: ConfigGenerator;
+  switch (settings.provider) {
+    case 'gemini': generator = new GeminiGenerator(settings.geminiApiKey || process.env.API_KEY); break;
+    case 'openai': generator = new OpenAiCompatibleGenerator(settings.openai); break;
+    case 'mock': generator = mock; break;
+    default: generator = offline;
+  }
+  cached = { settings, generator };
+  return generator;
+};
+
+type Channel = 'generate' | 'direct';
+const inFlight: Partial<Record<Channel, AbortController>> = {};
+
+const run = async <T>(channel: Channel, task: (generator: ConfigGenerator, signal?: AbortSignal) => Promise<T>): Promise<T> => {
+  // A new request on the same channel cancels the previous one
+  inFlight[channel]?.abort();
+  const controller = new AbortController();
+  inFlight[channel] = controller;
+
+  const { aiSettings, setError } = useStore.getState();
+  const generator = getGenerator(aiSettings);
+  const timeout = AbortSignal.timeout(aiSettings.timeoutMs);
+
+  try {
+    return await task(generator, AbortSignal.any([controller.signal, timeout]));
+  } catch (err) {
+    if (controller.signal.aborted) throw new GenerationCancelledError();
+    const error = timeout.aborted
+      ? new Error(`${generator.label} did not answer within ${Math.round(aiSettings.timeoutMs / 1000)}s`)
+      : (err as Error);
+
+    // Bad output is reported as-is; unreachable or failing providers fall back
+    if (!aiSettings.offlineFallback || generator === offline || error instanceof ConfigValidationError) throw error;
+    const result = await task(offline);
+    if (controller.signal.aborted) throw new GenerationCancelledError();
+    setError(`${error.message} Used offline rules instead.`);
+    return result;
+  } finally {
+    if (inFlight[channel] === controller) delete inFlight[channel];
+  }
+};
+
+/** Theme from a free-text prompt using the configured provider; `layer` places it in a layered scene. */
+export const generateConfig = (prompt: string, layer?: LayerContext): Promise<Partial<ParticleConfig>> =>
+  run('generate', (generator, signal) => generator.generate(prompt, { signal, layer }));
+
+/** Director refinement using the configured provider. */
+export const directConfig = (history: DirectorExchange[], current: ParticleConfig, message: string): Promise<DirectorReply> =>
+  run('direct', (generator, signal) => generator.direct(history, current, message, { signal }));
+
+export const cancelGeneration = (channel: Channel) => inFlight[channel]?.abort();
+
+const STORAGE_KEY = 'kinetic-particles.ai-settings';
+
+export const loadAiSettings = (storage: Pick<Storage, 'getItem'>): AiSettings => {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_AI_SETTINGS;
+    const parsed = JSON.parse(raw) as Partial<AiSettings>;
+    return {
+      ...DEFAULT_AI_SETTINGS,
+      ...parsed,
+      openai: { ...DEFAULT_AI_SETTINGS.openai, ...parsed.openai },
+    };
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAiSettings = (storage: Pick<Storage, 'setItem'>, settings: AiSettings) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,242 @@
+// Audio analysis (microphone or file) and the modulation it applies to the particle field.
+
+export interface AudioFeatures {
+  bass: number; // 20-250 Hz energy, 0-1
+  mid: number; // 250-2000 Hz
+  treble: number; // 2-8 kHz
+  level: number; // Overall energy
+  beat: number; // 1 on an onset, decaying toward 0
+  onset: boolean; // True on the frame an onset was detected
+  tempo: number | null; // Estimated BPM once enough onsets were seen
+}
+
+export type AudioBand = 'bass' | 'mid' | 'treble' | 'level' | 'beat';
+export type AudioTarget = 'expansion' | 'speed' | 'noiseScale' | 'size' | 'colorMix';
+
+export interface AudioMapping {
+  id: string;
+  source: AudioBand;
+  target: AudioTarget;
+  amount: number; // Multiplier on the band value; negative values invert
+}
+
+export const AUDIO_BANDS: AudioBand[] = ['bass', 'mid', 'treble', 'level', 'beat'];
+
+export const AUDIO_TARGET_LABELS: Record<AudioTarget, string> = {
+  expansion: 'Expansion',
+  speed: 'Flow speed',
+  noiseScale: 'Turbulence',
+  size: 'Particle size',
+  colorMix: 'Color mix',
+};
+
+export const DEFAULT_AUDIO_MAPPINGS: AudioMapping[] = [
+  { id: 'bass-expansion', source: 'bass', target: 'expansion', amount: 0.4 },
+  { id: 'beat-size', source: 'beat', target: 'size', amount: 0.8 },
+  { id: 'treble-color', source: 'treble', target: 'colorMix', amount: 0.3 },
+];
+
+// colorMix is an offset; every other target is a multiplier on its base value
+export type AudioModulation = Record<AudioTarget, number>;
+
+export const NO_MODULATION: AudioModulation = { expansion: 1, speed: 1, noiseScale: 1, size: 1, colorMix: 0 };
+
+/** Combines all mappings for the current frame's features. */
+export const modulate = (mappings: AudioMapping[], features: AudioFeatures): AudioModulation => {
+  const result = { ...NO_MODULATION };
+  mappings.forEach(({ source, target, amount }) => {
+    result[target] += features[source] * amount;
+  });
+  // Multipliers never flip sign or collapse the field entirely
+  (['expansion', 'speed', 'noiseScale', 'size'] as const).forEach(key => {
+    result[key] = Math.max(0.05, result[key]);
+  });
+  return result;
+};
+
+const SILENCE: AudioFeatures = { bass: 0, mid: 0, treble: 0, level: 0, beat: 0, onset: false, tempo: null };
+
+const BANDS: Record<'bass' | 'mid' | 'treble', [number, number]> = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  treble: [2000, 8000],
+};
+
+const ONSET_THRESHOLD = 1.4; // Bass flux over its running average
+const ONSET_MIN_INTERVAL_MS = 250;
+const BEAT_DECAY = 6; // Per second
+const TEMPO_HISTORY = 8;
+
+export type AudioSourceKind = 'mic' | 'file';
+
+/**
+ * Wraps an AnalyserNode. `update` is called once per rendered frame and
+ * returns band energies plus onset/tempo estimates.
+ */
+export class AudioAnalyzer {
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private bins: Uint8Array<ArrayBuffer> | null = null;
+  private stream: MediaStream | null = null;
+  private element: HTMLAudioElement | null = null;
+  private sourceNode: AudioNode | null = null;
+
+  private features: AudioFeatures = { ...SILENCE };
+  private fluxAverage = 0;
+  private lastBass = 0;
+  private lastOnset = 0;
+  private onsetIntervals: number[] = [];
+
+  source: { kind: AudioSourceKind; name: string } | null = null;
+
+  get isActive() {
+    return this.source !== null;
+  }
+
+  async startMicrophone() {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true }).catch(() => {
+      throw new Error('Microphone access denied.');
+    });
+    this.stop();
+    const context = this.ensureContext();
+    this.stream = stream;
+    this.sourceNode = context.createMediaStreamSource(stream);
+    // Mic input is analysed only, never played back
+    this.sourceNode.connect(this.analyser!);
+    this.source = { kind: 'mic', name: 'Microphone' };
+  }
+
+  async startFile(file: File) {
+    this.stop();
+    const context = this.ensureContext();
+    const element = new Audio(URL.createObjectURL(file));
+    element.loop = true;
+    this.element = element;
+    this.sourceNode = context.createMediaElementSource(element);
+    this.sourceNode.connect(this.analyser!);
+    this.analyser!.connect(context.destination);
+    try {
+      await element.play();
+    } catch {
+      this.stop();
+      throw new Error(`Could not play "${file.name}".`);
+    }
+    this.source = { kind: 'file', name: file.name };
+  }
+
+  stop() {
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    if (this.element) {
+      this.element.pause();
+      URL.revokeObjectURL(this.element.src);
+      this.element = null;
+    }
+    this.sourceNode?.disconnect();
+    this.sourceNode = null;
+    this.analyser?.disconnect();
+    this.source = null;
+    this.features = { ...SILENCE };
+    this.onsetIntervals = [];
+    this.fluxAverage = 0;
+    this.lastBass = 0;
+  }
+
+  /** Current features without advancing the analysis (for meters). */
+  get current(): AudioFeatures {
+    return this.features;
+  }
+
+  update(delta: number): AudioFeatures {
+    if (!this.analyser || !this.bins || !this.context || !this.source) return SILENCE;
+    this.analyser.getByteFrequencyData(this.bins);
+
+    const hzPerBin = this.context.sampleRate / this.analyser.fftSize;
+    const band = ([lo, hi]: [number, number]) => {
+      const start = Math.max(1, Math.floor(lo / hzPerBin));
+      const end = Math.min(this.bins!.length - 1, Math.ceil(hi / hzPerBin));
+      let sum = 0;
+      for (let i = start; i <= end; i++) sum += this.bins![i];
+      return sum / ((end - start + 1) * 255);
+    };
+
+    const bass = band(BANDS.bass);
+    const mid = band(BANDS.mid);
+    const treble = band(BANDS.treble);
+    const level = (bass + mid + treble) / 3;
+
+    // Onsets: positive bass flux well above its recent average
+    const now = performance.now();
+    const flux = Math.max(0, bass - this.lastBass);
+    this.lastBass = bass;
+    this.fluxAverage += (flux - this.fluxAverage) * 0.1;
+    const onset = flux > 0.02 && flux > this.fluxAverage * ONSET_THRESHOLD && now - this.lastOnset > ONSET_MIN_INTERVAL_MS;
+
+    if (onset) {
+      const interval = now - this.lastOnset;
+      if (this.lastOnset > 0 && interval < 2000) {
+        this.onsetIntervals.push(interval);
+        if (this.onsetIntervals.length > TEMPO_HISTORY) this.onsetIntervals.shift();
+      }
+      this.lastOnset = now;
+    }
+
+    this.features = {
+      bass,
+      mid,
+      treble,
+      level,
+      beat: onset ? 1 : this.features.beat * Math.exp(-BEAT_DECAY * delta),
+      onset,
+      tempo: this.estimateTempo(),
+    };
+    return this.features;
+  }
+
+  private estimateTempo() {
+    if (this.onsetIntervals.length < 4) return null;
+    const sorted = [...this.onsetIntervals].sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    return Math.round(60000 / median);
+  }
+
+  private ensureContext() {
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.analyser = this.context.createAnalyser();
+      this.analyser.fftSize = 2048;
+      this.analyser.smoothingTimeConstant = 0.6;
+      this.bins = new Uint8Array(this.analyser.frequencyBinCount);
+    }
+    // Contexts start suspended until a user gesture; callers run from click handlers
+    void this.context.resume();
+    return this.context;
+  }
+}
+
+// Shared instance read by the renderer each frame
+export const audioAnalyzer = new AudioAnalyzer();
+
+const STORAGE_KEY = 'kinetic-particles.audio-mappings';
+
+const isMapping = (m: unknown): m is AudioMapping => {
+  const v = m as AudioMapping;
+  return typeof v?.id === 'string'
+    && AUDIO_BANDS.includes(v.source)
+    && v.target in AUDIO_TARGET_LABELS
+    && typeof v.amount === 'number';
+};
+
+export const loadAudioMappings = (storage: Pick<Storage, 'getItem'>): AudioMapping[] => {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    return Array.isArray(parsed) && parsed.every(isMapping) ? parsed : DEFAULT_AUDIO_MAPPINGS;
+  } catch {
+    return DEFAULT_AUDIO_MAPPINGS;
+  }
+};
+
+export const saveAudioMappings = (storage: Pick<Storage, 'setItem'>, mappings: AudioMapping[]) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+};
@@ -0,0 +1,235 @@
+// Camera modes and saved viewpoints. The rig keeps a rest pose (where the camera
+// looks from and at); each mode moves the camera relative to it.
+import * as THREE from 'three';
+
+export type CameraMode = 'fixed' | 'orbit' | 'cinematic' | 'dolly';
+
+export const CAMERA_MODES: CameraMode[] = ['fixed', 'orbit', 'cinematic', 'dolly'];
+
+export const CAMERA_MODE_LABELS: Record<CameraMode, string> = {
+  fixed: 'Fixed',
+  orbit: 'Orbit',
+  cinematic: 'Cinematic',
+  dolly: 'Hand dolly',
+};
+
+export interface Viewpoint {
+  id: string;
+  name: string;
+  position: [number, number, number];
+  target: [number, number, number];
+  fov: number;
+}
+
+export interface CameraSettings {
+  mode: CameraMode;
+  viewpoints: Viewpoint[];
+  transitionSeconds: number; // Flight time between viewpoints
+}
+
+// Matches the camera the canvas is created with
+export const DEFAULT_VIEWPOINT: Viewpoint = {
+  id: 'default',
+  name: 'Front',
+  position: [0, 0, 10],
+  target: [0, 0, 0],
+  fov: 60,
+};
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  mode: 'fixed',
+  viewpoints: [],
+  transitionSeconds: 1.5,
+};
+
+// Closest the dolly may bring the camera to its target
+const MIN_DISTANCE = 1.5;
+// Camera travel per unit of hand depth in dolly mode
+const DOLLY_GAIN = 1.5;
+// Cinematic flythrough: slow, incommensurate periods so the path does not visibly repeat
+const CINEMATIC_ORBIT_SPEED = 0.08; // Radians per second
+const CINEMATIC_SWAY = 0.3; // Distance change, relative to the rest distance
+const CINEMATIC_HEIGHT = 0.35; // Height swing, relative to the rest distance
+
+const offset = new THREE.Vector3();
+const forward = new THREE.Vector3();
+
+const easeFlight = (t: number) => t * t * (3 - 2 * t);
+
+interface Flight {
+  fromPosition: THREE.Vector3;
+  fromTarget: THREE.Vector3;
+  fromFov: number;
+  to: Viewpoint;
+  elapsed: number;
+  duration: number;
+}
+
+export interface RigInput {
+  mode: CameraMode;
+  handDepth: number | null; // Primary hand's z, or null without a hand
+}
+
+/**
+ * Moves the camera for the active mode and flies it between viewpoints.
+ * Orbit mode is driven by OrbitControls; the rig only follows it there.
+ */
+export class CameraRig {
+  readonly position = new THREE.Vector3(...DEFAULT_VIEWPOINT.position);
+  readonly target = new THREE.Vector3(...DEFAULT_VIEWPOINT.target);
+  private camera: THREE.PerspectiveCamera | null = null; // Last camera updated
+  private flight: Flight | null = null;
+  private held = false;
+  private mode: CameraMode | null = null;
+  private time = 0; // Seconds in the current mode
+  private dolly = 0; // Smoothed dolly offset
+
+  get isFlying() {
+    return this.flight !== null;
+  }
+
+  /** The live view as a viewpoint, for saving. */
+  viewpoint(name: string): Viewpoint {
+    return {
+      id: crypto.randomUUID(),
+      name,
+      position: (this.camera?.position ?? this.position).toArray() as [number, number, number],
+      target: this.target.toArray() as [number, number, number],
+      fov: this.camera?.fov ?? DEFAULT_VIEWPOINT.fov,
+    };
+  }
+
+  /** Starts a smooth move to `viewpoint`, from wherever the camera is now. */
+  flyTo(viewpoint: Viewpoint, seconds: number) {
+    this.flight = {
+      fromPosition: (this.camera?.position ?? this.position).clone(),
+      fromTarget: this.target.clone(),
+      fromFov: this.camera?.fov ?? viewpoint.fov,
+      to: viewpoint,
+      elapsed: 0,
+      duration: Math.max(0, seconds),
+    };
+  }
+
+  /** Eases the camera back onto the rest pose, e.g. after leaving a moving mode. */
+  settle(seconds: number) {
+    this.flyTo({
+      ...DEFAULT_VIEWPOINT,
+      position: this.position.toArray() as [number, number, number],
+      target: this.target.toArray() as [number, number, number],
+      fov: this.camera?.fov ?? DEFAULT_VIEWPOINT.fov,
+    }, seconds);
+  }
+
+  /** Something else (a timeline camera track) placed the camera this frame; follow it. */
+  hold(camera: THREE.Camera, target: THREE.Vector3) {
+    this.flight = null;
+    this.held = true;
+    this.position.copy(camera.position);
+    this.target.copy(target);
+  }
+
+  update(camera: THREE.PerspectiveCamera, delta: number, input: RigInput) {
+    this.camera = camera;
+    if (input.mode !== this.mode) {
+      // Moving modes start from the rest pose rather than jumping to their current phase
+      this.mode = input.mode;
+      this.time = 0;
+    }
+    this.time += delta;
+    if (this.held) {
+      this.held = false;
+      return;
+    }
+
+    if (this.flight) {
+      const flight = this.flight;
+      flight.elapsed += delta;
+      const t = flight.duration > 0 ? easeFlight(Math.min(1, flight.elapsed / flight.duration)) : 1;
+      this.position.lerpVectors(flight.fromPosition, offset.fromArray(flight.to.position), t);
+      this.target.lerpVectors(flight.fromTarget, offset.fromArray(flight.to.target), t);
+      camera.fov = THREE.MathUtils.lerp(flight.fromFov, flight.to.fov, t);
+      camera.updateProjectionMatrix();
+      if (t >= 1) {
+        this.flight = null;
+        this.time = 0; // The mode picks up from the new rest pose
+      }
+      this.dolly = 0;
+      camera.position.copy(this.position);
+      camera.lookAt(this.target);
+      return;
+    }
+
+    switch (input.mode) {
+      case 'orbit':
+        // OrbitControls already moved the camera; keep the rest pose in step with it
+        this.position.copy(camera.position);
+        return;
+      case 'cinematic': {
+        offset.subVectors(this.position, this.target);
+        const distance = offset.length();
+        const angle = Math.atan2(offset.x, offset.z) + this.time * CINEMATIC_ORBIT_SPEED;
+        const radius = distance * (1 + CINEMATIC_SWAY * Math.sin(this.time * 0.13));
+        camera.position.set(
+          this.target.x + Math.sin(angle) * radius,
+          this.target.y + offset.y + distance * CINEMATIC_HEIGHT * Math.sin(this.time * 0.21),
+          this.target.z + Math.cos(angle) * radius
+        );
+        break;
+      }
+      case 'dolly': {
+        const distance = this.position.distanceTo(this.target);
+        const goal = input.handDepth === null ? 0 : input.handDepth * DOLLY_GAIN;
+        this.dolly = THREE.MathUtils.lerp(this.dolly, Math.min(goal, distance - MIN_DISTANCE), 0.1);
+        forward.subVectors(this.target, this.position).normalize();
+        camera.position.copy(this.position).addScaledVector(forward, this.dolly);
+        break;
+      }
+      default:
+        camera.position.copy(this.position);
+        break;
+    }
+    camera.lookAt(this.target);
+  }
+}
+
+// Shared instance; the camera controller drives it and the panel queues flights
+export const cameraRig = new CameraRig();
+
+const STORAGE_KEY = 'kinetic-particles.camera';
+
+const isViewpoint = (value: unknown): value is Viewpoint => {
+  const v = value as Viewpoint;
+  const isVector = (p: unknown) => Array.isArray(p) && p.length === 3 && p.every(Number.isFinite);
+  return (
+    typeof v?.id === 'string' &&
+    typeof v.name === 'string' &&
+    isVector(v.position) &&
+    isVector(v.target) &&
+    Number.isFinite(v.fov) &&
+    v.fov > 0 &&
+    v.fov < 180
+  );
+};
+
+export const loadCameraSettings = (storage: Pick<Storage, 'getItem'>): CameraSettings => {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_CAMERA_SETTINGS;
+    const parsed = { ...DEFAULT_CAMERA_SETTINGS, ...JSON.parse(raw) };
+    if (!CAMERA_MODES.includes(parsed.mode) || !Array.isArray(parsed.viewpoints)) return DEFAULT_CAMERA_SETTINGS;
+    return {
+      mode: parsed.mode,
+      viewpoints: parsed.viewpoints.filter(isViewpoint),
+      transitionSeconds: Number.isFinite(parsed.transitionSeconds)
+        ? parsed.transitionSeconds
+        : DEFAULT_CAMERA_SETTINGS.transitionSeconds,
+    };
+  } catch {
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+};
+
+export const saveCameraSettings = (storage: Pick<Storage, 'setItem'>, settings: CameraSettings) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,205 @@
+// Still, video and frame-sequence export of the rendered scene. The canvas
+// registers itself via SceneCapture; exports temporarily resize the renderer so
+// output resolution does not depend on the window.
+import * as THREE from 'three';
+import { ZipWriter } from './zip';
+
+export interface CaptureTarget {
+  gl: THREE.WebGLRenderer;
+  scene: THREE.Scene;
+  camera: THREE.Camera;
+  setFrameloop: (frameloop: 'always' | 'never') => void;
+  clock: THREE.Clock; // The render loop's clock; `advance` timestamps continue from it
+  advance: (timestamp: number) => void; // Seconds; runs every useFrame once and renders
+}
+
+export interface Resolution {
+  width: number;
+  height: number;
+}
+
+export interface SequenceOptions extends Resolution {
+  fps: number;
+  frames: number;
+  signal?: AbortSignal;
+  onProgress?: (frame: number) => void;
+}
+
+// Point sprites are sized in pixels; scaled during export so particles keep their on-screen look
+export const pointScale = { value: 1 };
+
+const VIDEO_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const canvasBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas could not be encoded'))), 'image/png')
+  );
+
+export class SceneCapture {
+  private target: CaptureTarget | null = null;
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private busy = false;
+  private renderOverride: (() => void) | null = null;
+  private listeners = new Set<(exporting: boolean) => void>();
+  recordingStartedAt: number | null = null; // Date.now() when the current recording began
+
+  attach(target: CaptureTarget) {
+    this.target = target;
+  }
+
+  detach(target: CaptureTarget) {
+    if (this.target === target) this.target = null;
+  }
+
+  /** Replaces the plain scene render for stills, e.g. with a post-processing chain. */
+  setRenderOverride(render: (() => void) | null) {
+    this.renderOverride = render;
+  }
+
+  get isRecording() {
+    return this.recorder?.state === 'recording';
+  }
+
+  /** True while any export holds the canvas, so nothing else should resize it. */
+  get isExporting() {
+    return this.busy || this.isRecording;
+  }
+
+  /**
+   * Called synchronously whenever `isExporting` changes. Stills render without a frame,
+   * so editor-only objects must hide here rather than on the next `useFrame`.
+   */
+  subscribe(listener: (exporting: boolean) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Renders the current frame at the given size and encodes it as PNG. */
+  screenshot({ width, height }: Resolution): Promise<Blob> {
+    return this.atSize(width, height, target => {
+      if (this.renderOverride) this.renderOverride();
+      else target.gl.render(target.scene, target.camera);
+      // toBlob snapshots the drawing buffer synchronously, before the size is restored
+      return canvasBlob(target.gl.domElement);
+    });
+  }
+
+  /** Starts recording the live canvas to WebM. */
+  startRecording(fps: number) {
+    const target = this.requireTarget();
+    if (this.isRecording) return;
+    if (typeof MediaRecorder === 'undefined') throw new Error('Video recording is not supported in this browser');
+
+    const mimeType = VIDEO_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) throw new Error('This browser cannot record WebM video');
+
+    this.chunks = [];
+    this.recorder = new MediaRecorder(target.gl.domElement.captureStream(fps), {
+      mimeType,
+      videoBitsPerSecond: 16_000_000,
+    });
+    this.recorder.ondataavailable = (e) => e.data.size > 0 && this.chunks.push(e.data);
+    this.recorder.start(1000);
+    this.recordingStartedAt = Date.now();
+    this.notify();
+  }
+
+  /** Stops the recording and resolves with the WebM file. */
+  stopRecording(): Promise<Blob> {
+    const recorder = this.recorder;
+    if (!recorder || recorder.state === 'inactive') return Promise.reject(new Error('Not recording'));
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        recorder.stream.getTracks().forEach(t => t.stop());
+        this.recorder = null;
+        this.recordingStartedAt = null;
+        this.notify();
+        resolve(new Blob(this.chunks, { type: 'video/webm' }));
+        this.chunks = [];
+      };
+      recorder.stop();
+    });
+  }
+
+  /**
+   * Steps the scene at a fixed timestep and returns the frames as a ZIP of PNGs,
+   * so the result does not depend on how fast this machine renders.
+   */
+  recordSequence({ width, height, fps, frames, signal, onProgress }: SequenceOptions): Promise<Blob> {
+    return this.atSize(width, height, async target => {
+      const zip = new ZipWriter();
+      const digits = String(frames).length;
+      target.setFrameloop('never');
+      // `advance` takes absolute clock time, so frames continue from where the live loop stopped
+      const start = target.clock.elapsedTime;
+      try {
+        for (let i = 1; i <= frames; i++) {
+          if (signal?.aborted) throw new Error('Export cancelled');
+          target.advance(start + i / fps);
+          await zip.add(`frame-${String(i).padStart(digits, '0')}.png`, await canvasBlob(target.gl.domElement));
+          onProgress?.(i);
+        }
+        return zip.finish();
+      } finally {
+        // `advance` left the clock's wall-time reference in seconds; resync it so the live loop's next delta is one frame
+        target.clock.oldTime = performance.now();
+        target.setFrameloop('always');
+      }
+    });
+  }
+
+  private requireTarget() {
+    if (!this.target) throw new Error('The scene is not ready yet');
+    return this.target;
+  }
+
+  // Resizes the drawing buffer (not the page layout) for the duration of `task`
+  private async atSize<T>(width: number, height: number, task: (target: CaptureTarget) => Promise<T>): Promise<T> {
+    const target = this.requireTarget();
+    if (this.busy) throw new Error('Another export is running');
+    const { gl, camera } = target;
+
+    const size = gl.getSize(new THREE.Vector2());
+    const pixelRatio = gl.getPixelRatio();
+    const screenHeight = gl.domElement.height;
+    const aspect = camera instanceof THREE.PerspectiveCamera ? camera.aspect : null;
+
+    this.busy = true;
+    this.notify();
+    try {
+      gl.setPixelRatio(1);
+      gl.setSize(width, height, false);
+      const context = gl.getContext();
+      if (context.drawingBufferWidth !== width || context.drawingBufferHeight !== height) {
+        throw new Error(`${width}×${height} exceeds what this GPU can render`);
+      }
+      pointScale.value = height / screenHeight;
+      if (camera instanceof THREE.PerspectiveCamera) {
+        camera.aspect = width / height;
+        camera.updateProjectionMatrix();
+      }
+      return await task(target);
+    } finally {
+      pointScale.value = 1;
+      gl.setPixelRatio(pixelRatio);
+      gl.setSize(size.x, size.y, false);
+      if (camera instanceof THREE.PerspectiveCamera && aspect !== null) {
+        camera.aspect = aspect;
+        camera.updateProjectionMatrix();
+      }
+      this.busy = false;
+      this.notify();
+    }
+  }
+
+  private notify() {
+    const exporting = this.isExporting;
+    this.listeners.forEach(l => l(exporting));
+  }
+}
+
+// Shared instance; the canvas attaches itself on mount
+export const sceneCapture = new SceneCapture();
@@ -0,0 +1,297 @@
+// Collaborative sessions through the relay in server/relay.mjs: hands are shared
+// with everyone in the room and config changes are kept in sync. The relay
+// orders config changes and echoes them to all clients, sender included, so
+// applying them in arrival order makes the last writer win everywhere.
+import { Vector3 } from 'three';
+import { HandGesture, ParticleConfig, useStore } from '../store';
+import { diffConfig } from '../input/session';
+import { validateConfig } from './configSchema';
+
+export interface CollabSettings {
+  url: string; // ws://host:port/room
+  name: string; // Shown to the other participants
+}
+
+export const DEFAULT_COLLAB_SETTINGS: CollabSettings = {
+  url: 'ws://localhost:8787/studio',
+  name: '',
+};
+
+export interface Peer {
+  id: string;
+  name: string;
+  color: string;
+}
+
+// A hand from another participant, acting on the field as an attractor
+export interface RemoteHand {
+  peerId: string;
+  color: string;
+  position: Vector3; // World space
+  gesture: HandGesture;
+}
+
+export type CollabStatus = 'offline' | 'connecting' | 'online';
+
+export interface CollabState {
+  status: CollabStatus;
+  selfId: string | null;
+  peers: Peer[]; // Including this client
+  presenter: string | null; // Peer holding the lock, if any
+}
+
+type WireHand = { p: [number, number, number]; g: HandGesture };
+
+type RelayMessage =
+  | { type: 'welcome'; id: string; color: string; peers: Peer[]; presenter: string | null; config: Partial<ParticleConfig> }
+  | { type: 'join'; peer: Peer }
+  | { type: 'leave'; id: string }
+  | { type: 'hands'; from: string; hands: WireHand[] }
+  | { type: 'config'; from: string; cid: number; changes: Partial<ParticleConfig> }
+  | { type: 'rejected'; cid: number }
+  | { type: 'presenter'; id: string | null };
+
+// Hands go out at about 30 Hz; config edits are batched over the same interval
+const SEND_INTERVAL_MS = 33;
+// Remote hands that stop updating are dropped after this long
+const REMOTE_HAND_TIMEOUT_MS = 500;
+const RECONNECT_MS = 2000;
+
+/** Client side of a collaborative session. */
+export class CollabClient {
+  private socket: WebSocket | null = null;
+  private settings: CollabSettings = DEFAULT_COLLAB_SETTINGS;
+  private unsubscribe: (() => void) | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<(state: CollabState) => void>();
+  private current: CollabState = { status: 'offline', selfId: null, peers: [], presenter: null };
+
+  private outgoing: Partial<ParticleConfig> = {}; // Local edits not sent yet
+  private pending = new Map<keyof ParticleConfig, number>(); // Field -> cid of our latest unacknowledged write
+  private nextCid = 1;
+  private applyingRemote = false;
+  private sentHands = false; // Whether the last hands message had any
+  private remote = new Map<string, { hands: RemoteHand[]; seen: number }>();
+
+  get state() {
+    return this.current;
+  }
+
+  /** True when someone else holds the presenter lock, so local edits are not shared. */
+  get isLockedOut() {
+    return this.current.presenter !== null && this.current.presenter !== this.current.selfId;
+  }
+
+  subscribe(listener: (state: CollabState) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  connect(settings: CollabSettings) {
+    this.disconnect();
+    this.settings = settings;
+
+    this.unsubscribe = useStore.subscribe((state, prev) => {
+      // Selecting another layer is not an edit; only changes to the same layer are shared
+      if (state.config === prev.config || state.selectedLayerId !== prev.selectedLayerId) return;
+      if (this.applyingRemote || this.isLockedOut) return;
+      Object.assign(this.outgoing, diffConfig(prev.config, state.config));
+    });
+    this.timer = setInterval(this.flush, SEND_INTERVAL_MS);
+    this.open();
+  }
+
+  disconnect() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+    this.outgoing = {};
+    this.pending.clear();
+    this.remote.clear();
+    useStore.getState().setRemoteHands([]);
+    this.update({ status: 'offline', selfId: null, peers: [], presenter: null });
+  }
+
+  /** Takes or releases the presenter lock; the relay refuses if someone else holds it. */
+  setPresenter(take: boolean) {
+    this.send({ type: 'lock', take });
+  }
+
+  private open() {
+    this.update({ ...this.current, status: 'connecting' });
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.settings.url);
+    } catch {
+      useStore.getState().setError(`Invalid relay URL "${this.settings.url}".`);
+      this.disconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      if (this.settings.name.trim()) this.send({ type: 'hello', name: this.settings.name.trim() });
+    };
+    socket.onmessage = (e) => {
+      try {
+        this.handle(JSON.parse(e.data) as RelayMessage);
+      } catch (err) {
+        console.warn('Ignoring malformed relay message:', err);
+      }
+    };
+    socket.onclose = () => {
+      this.socket = null;
+      // Writes in flight are lost with the connection and never come back
+      this.pending.clear();
+      this.remote.clear();
+      useStore.getState().setRemoteHands([]);
+      if (this.current.status === 'online') {
+        useStore.getState().setError(`Lost the relay at ${this.settings.url}. Reconnecting...`);
+      }
+      this.update({ status: 'connecting', selfId: null, peers: [], presenter: null });
+      this.retryTimer = setTimeout(() => this.open(), RECONNECT_MS);
+    };
+  }
+
+  private send(message: object) {
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+
+  private flush = () => {
+    if (this.socket?.readyState !== WebSocket.OPEN) return;
+
+    // Idle clients send one empty update when their hands leave, then stay quiet
+    const { hands } = useStore.getState();
+    if (hands.length > 0 || this.sentHands) {
+      this.send({
+        type: 'hands',
+        hands: hands.map((hand): WireHand => ({ p: hand.position.toArray() as [number, number, number], g: hand.gesture })),
+      });
+      this.sentHands = hands.length > 0;
+    }
+
+    if (Object.keys(this.outgoing).length > 0) {
+      const cid = this.nextCid++;
+      (Object.keys(this.outgoing) as (keyof ParticleConfig)[]).forEach(key => this.pending.set(key, cid));
+      this.send({ type: 'config', cid, changes: this.outgoing });
+      this.outgoing = {};
+    }
+
+    this.expireRemoteHands();
+  };
+
+  private handle(message: RelayMessage) {
+    switch (message.type) {
+      case 'welcome':
+        this.update({ status: 'online', selfId: message.id, peers: message.peers, presenter: message.presenter });
+        // Joining an existing room adopts its scene; the first one in seeds it
+        if (Object.keys(message.config).length > 0) this.applyRemote(message.config);
+        else this.outgoing = { ...useStore.getState().config };
+        break;
+      case 'join':
+        this.update({
+          ...this.current,
+          peers: [...this.current.peers.filter(p => p.id !== message.peer.id), message.peer],
+        });
+        break;
+      case 'leave':
+        this.remote.delete(message.id);
+        this.publishRemoteHands();
+        this.update({ ...this.current, peers: this.current.peers.filter(p => p.id !== message.id) });
+        break;
+      case 'hands': {
+        const color = this.current.peers.find(p => p.id === message.from)?.color ?? '#ffffff';
+        this.remote.set(message.from, {
+          seen: performance.now(),
+          hands: message.hands
+            .filter(hand => Array.isArray(hand.p) && hand.p.length === 3 && hand.p.every(Number.isFinite))
+            .map(hand => ({ peerId: message.from, color, position: new Vector3(...hand.p), gesture: hand.g })),
+        });
+        this.publishRemoteHands();
+        break;
+      }
+      case 'config':
+        if (message.from === this.current.selfId) {
+          // Our own write came back in order; fields we have not touched since are settled
+          (Object.keys(message.changes) as (keyof ParticleConfig)[]).forEach(key => {
+            if (this.pending.get(key) === message.cid) this.pending.delete(key);
+          });
+          return;
+        }
+        // Fields with a newer local write in flight will be overwritten by it anyway
+        this.applyRemote(Object.fromEntries(
+          Object.entries(message.changes).filter(([key]) => !this.pending.has(key as keyof ParticleConfig))
+        ));
+        break;
+      case 'rejected':
+        this.pending.forEach((cid, key) => cid === message.cid && this.pending.delete(key));
+        break;
+      case 'presenter':
+        this.update({ ...this.current, presenter: message.id });
+        break;
+      default:
+        break;
+    }
+  }
+
+  private applyRemote(changes: Partial<ParticleConfig>) {
+    const { config, issues } = validateConfig(changes);
+    if (issues.length > 0) console.warn('Adjusted shared config:', issues);
+    if (Object.keys(config).length === 0) return;
+    this.applyingRemote = true;
+    try {
+      useStore.getState().setConfig(config);
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
+
+  private expireRemoteHands() {
+    const now = performance.now();
+    let expired = false;
+    this.remote.forEach((entry, id) => {
+      if (now - entry.seen > REMOTE_HAND_TIMEOUT_MS && entry.hands.length > 0) {
+        this.remote.set(id, { ...entry, hands: [] });
+        expired = true;
+      }
+    });
+    if (expired) this.publishRemoteHands();
+  }
+
+  private publishRemoteHands() {
+    useStore.getState().setRemoteHands([...this.remote.values()].flatMap(entry => entry.hands));
+  }
+
+  private update(state: CollabState) {
+    this.current = state;
+    this.listeners.forEach(l => l(state));
+  }
+}
+
+export const collabClient = new CollabClient();
+
+const STORAGE_KEY = 'kinetic-particles.collab';
+
+export const loadCollabSettings = (storage: Pick<Storage, 'getItem'>): CollabSettings => {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_COLLAB_SETTINGS, ...JSON.parse(raw) } : DEFAULT_COLLAB_SETTINGS;
+  } catch {
+    return DEFAULT_COLLAB_SETTINGS;
+  }
+};
+
+export const saveCollabSettings = (storage: Pick<Storage, 'setItem'>, settings: CollabSettings) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,115 @@
+// Provider-neutral contract for turning prompts into particle configs, plus the
+// prompt text and response checking every implementation shares.
+import type { ParticleConfig } from '../store';
+import { PROCEDURAL_SHAPES } from '../simulation/shapes';
+import { CONFIG_FIELDS, CONFIG_SCHEMA, ConfigValidationError, validateConfig } from './configSchema';
+
+export type GeneratorId = 'gemini' | 'openai' | 'offline' | 'mock';
+
+// The layer a theme is generated for, in a scene with other layers
+export interface LayerContext {
+  name: string;
+  others: string[]; // Short descriptions of the other visible layers
+}
+
+export interface GenerateOptions {
+  signal?: AbortSignal; // Aborted on timeout or when a newer request replaces this one
+  layer?: LayerContext;
+}
+
+// One completed exchange with the director, replayed as conversation context
+export interface DirectorExchange {
+  message: string;
+  reply: string;
+  changes: Partial<ParticleConfig>;
+}
+
+export interface DirectorReply {
+  reply: string; // Short explanation of what changed
+  changes: Partial<ParticleConfig>; // Only the fields that differ from the current config
+  issues: string[]; // Validation adjustments made to the model's output
+}
+
+export interface ConfigGenerator {
+  readonly id: GeneratorId;
+  readonly label: string;
+  /** A complete theme from a free-text description. */
+  generate(prompt: string, options?: GenerateOptions): Promise<Partial<ParticleConfig>>;
+  /** A diff against `current` for a refinement request in an ongoing conversation. */
+  direct(history: DirectorExchange[], current: ParticleConfig, message: string, options?: GenerateOptions): Promise<DirectorReply>;
+}
+
+const layerNote = (layer?: LayerContext) =>
+  layer
+    ? `\n   This is the "${layer.name}" layer of a scene that also shows ${layer.others.join(', ') || 'nothing else yet'}.
+   Style only this layer, and make it complement the others rather than repeat them.`
+    : '';
+
+export const themePrompt = (prompt: string, layer?: LayerContext) =>
+  `Generate a particle system configuration based on this description: "${prompt}".
+   Think about colors, speed, and chaos (noise).
+   If the user mentions fire, use reds/oranges and high speed.
+   If water, blues and smooth motion.
+   If space, purples/blacks and slow motion.
+   Pick a shape that suits the theme; use "text" with a short shapeText only if the user asks for words.
+   Use colorStops for palettes with more than two colors, and pick a colorMode that suits the motion.
+   Turn on post effects (bloom, trails, depthOfField, chromaticAberration) only when they suit the mood.${layerNote(layer)}`;
+
+export const DIRECTOR_INSTRUCTIONS = `You are the art director of a real-time particle visualization.
+Each user turn includes the current configuration as JSON followed by a request.
+Respond with a one-sentence reply and "changes": ONLY the fields that should change.
+Treat relative requests ("a bit slower", "more orange", "fewer particles") as adjustments
+to the current values: "a bit" is roughly 10-20%, "much" roughly 50%.
+Keep fields the user did not mention unchanged unless the request clearly implies them.`;
+
+export const directorPrompt = (current: ParticleConfig, message: string) =>
+  `Current config: ${JSON.stringify(current)}\nRequest: ${message}`;
+
+/** Plain-text field reference for models without structured output. */
+export const describeConfigFields = () =>
+  CONFIG_FIELDS.map(key => {
+    const field = CONFIG_SCHEMA[key];
+    switch (field.type) {
+      case 'number': return `- ${key} (number, ${field.min} to ${field.max}): ${field.description}`;
+      case 'color': return `- ${key} (hex color like "#ff8800"): ${field.description}`;
+      case 'enum': return `- ${key} (one of ${(key === 'shape' ? PROCEDURAL_SHAPES : field.options).join(', ')}): ${field.description}`;
+      case 'string': return `- ${key} (text, max ${field.maxLength} chars): ${field.description}`;
+      case 'boolean': return `- ${key} (true or false): ${field.description}`;
+      case 'colors': return `- ${key} (array of up to ${field.maxItems} hex colors): ${field.description}`;
+    }
+  }).join('\n');
+
+/** Validates a generated theme; throws when nothing usable came back. */
+export const checkGeneratedConfig = (data: unknown, source: string): Partial<ParticleConfig> => {
+  const { config, issues } = validateConfig(data, { allowedShapes: PROCEDURAL_SHAPES });
+  if (Object.keys(config).length === 0) {
+    throw new ConfigValidationError(issues, `${source} returned an unusable config`);
+  }
+  if (issues.length > 0) console.warn(`Adjusted ${source} config:`, issues);
+  // A theme that only names two colors replaces any multi-stop gradient
+  if ((config.color1 || config.color2) && !config.colorStops) config.colorStops = [];
+  return config;
+};
+
+/** Validates a director response and drops fields that would not change anything. */
+export const checkDirectorReply = (data: unknown, current: ParticleConfig, source: string): DirectorReply => {
+  const raw = (data ?? {}) as { reply?: unknown; changes?: unknown };
+  const { config, issues } = validateConfig(raw.changes ?? {}, { allowedShapes: PROCEDURAL_SHAPES });
+  if (issues.length > 0) console.warn(`Adjusted ${source} director changes:`, issues);
+
+  const changes = Object.fromEntries(
+    // Compared as JSON so unchanged color lists count as no-ops too
+    Object.entries(config).filter(([key, value]) => JSON.stringify(current[key as keyof ParticleConfig]) !== JSON.stringify(value))
+  ) as Partial<ParticleConfig>;
+  return { reply: typeof raw.reply === 'string' ? raw.reply : 'Done.', changes, issues };
+};
+
+/** Parses model text as JSON, tolerating ```json fences around it. */
+export const parseModelJson = (text: string, source: string): unknown => {
+  const body = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new Error(`${source} did not return valid JSON`);
+  }
+};
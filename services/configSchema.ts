@@ -0,0 +1,300 @@
+// Single description of every ParticleConfig field: type, range, default and meaning.
+// Manual edits, AI responses, shared links and imports are all checked against it.
+import type { ColorModeId, EmitterId, FlowFieldId, HandForceMode, ParticleConfig, ToneMappingId } from '../store';
+import { PROCEDURAL_SHAPES, SHAPE_LABELS, ShapeId } from '../simulation/shapes';
+import { MAX_GRADIENT_STOPS } from '../simulation/palettes';
+
+interface BaseField {
+  label: string;
+  description: string; // Also sent to the AI as the field's documentation
+}
+
+export type FieldSchema =
+  | BaseField & { type: 'number'; min: number; max: number; step: number; integer?: boolean; default: number }
+  | BaseField & { type: 'color'; default: string }
+  | BaseField & { type: 'enum'; options: readonly string[]; default: string }
+  | BaseField & { type: 'string'; maxLength: number; default: string }
+  | BaseField & { type: 'boolean'; default: boolean }
+  | BaseField & { type: 'colors'; maxItems: number; default: string[] };
+
+export const COLOR_MODES: ColorModeId[] = ['axis', 'radius', 'speed', 'hand', 'age', 'image'];
+export const FLOW_FIELDS: FlowFieldId[] = ['waves', 'curl'];
+export const HAND_FORCES: HandForceMode[] = ['repel', 'attract', 'vortex'];
+export const EMITTERS: EmitterId[] = ['none', 'point', 'surface', 'hand'];
+const TONE_MAPPINGS: ToneMappingId[] = ['none', 'filmic', 'agx', 'neutral'];
+
+export type ConfigSchema = { [K in keyof ParticleConfig]: FieldSchema };
+
+export const CONFIG_SCHEMA: ConfigSchema = {
+  color1: { type: 'color', label: 'Color A', description: 'Primary hex color', default: '#00ffff' },
+  color2: { type: 'color', label: 'Color B', description: 'Secondary hex color', default: '#ff00ff' },
+  colorStops: {
+    type: 'colors', label: 'Gradient stops', maxItems: MAX_GRADIENT_STOPS - 2, default: [],
+    description: 'Extra hex colors between color1 and color2, in order, for multi-color gradients',
+  },
+  colorMode: {
+    type: 'enum', label: 'Color by', options: COLOR_MODES, default: 'axis',
+    description: "What picks each particle's gradient color: position along an axis, distance from the center, speed, distance to the hand, age (across the lifetime when an emitter is on), or an uploaded image",
+  },
+  colorAxis: {
+    type: 'enum', label: 'Axis', options: ['x', 'y', 'z'], default: 'x',
+    description: "Axis the gradient runs along in 'axis' mode",
+  },
+  colorRange: {
+    type: 'number', label: 'Color spread', description: 'Distance, speed or seconds covered by the whole gradient',
+    min: 0.5, max: 20, step: 0.1, default: 5,
+  },
+  particleSize: {
+    type: 'number', label: 'Particle size', description: 'Size of particles',
+    min: 0.02, max: 1, step: 0.01, default: 0.15,
+  },
+  speed: {
+    type: 'number', label: 'Speed', description: 'Animation speed',
+    min: 0.1, max: 5, step: 0.1, default: 1.0,
+  },
+  noiseScale: {
+    type: 'number', label: 'Noise', description: 'Chaos factor',
+    min: 0.1, max: 3, step: 0.05, default: 1.0,
+  },
+  flowField: {
+    type: 'enum', label: 'Flow field', options: FLOW_FIELDS, default: 'waves',
+    description: "Ambient motion: 'waves' is a gentle sine drift, 'curl' is swirling, smoke-like curl noise",
+  },
+  flowStrength: {
+    type: 'number', label: 'Flow strength', description: 'How hard the flow field pushes the particles',
+    min: 0, max: 5, step: 0.05, default: 0.8,
+  },
+  interactionRadius: {
+    type: 'number', label: 'Hand radius', description: 'How far the hand affects particles',
+    min: 0.5, max: 6, step: 0.1, default: 2.0,
+  },
+  handForce: {
+    type: 'enum', label: 'Hand force', options: HAND_FORCES, default: 'repel',
+    description: 'What the hand does to nearby particles: push them away, pull them in, or spin them around it',
+  },
+  handStrength: {
+    type: 'number', label: 'Hand strength', description: 'How hard the hand pushes, pulls or spins particles',
+    min: 0, max: 40, step: 0.5, default: 12,
+  },
+  particleCount: {
+    type: 'number', label: 'Particles', description: 'Number of particles',
+    min: 1000, max: 200000, step: 500, integer: true, default: 8000,
+  },
+  damping: {
+    type: 'number', label: 'Damping', description: 'Drag on particle motion; low is floaty, high is sluggish',
+    min: 0.5, max: 8, step: 0.1, default: 2.5,
+  },
+  stiffness: {
+    type: 'number', label: 'Stiffness', description: 'How strongly particles spring back to their shape',
+    min: 0, max: 15, step: 0.1, default: 4.0,
+  },
+  shape: {
+    type: 'enum', label: 'Shape', description: 'Target shape the particles form',
+    options: Object.keys(SHAPE_LABELS) as ShapeId[], default: 'sphere',
+  },
+  shapeText: {
+    type: 'string', label: 'Text', description: "Short word rendered when shape is 'text'",
+    maxLength: 12, default: 'HELLO',
+  },
+  morphDuration: {
+    type: 'number', label: 'Morph time', description: 'Seconds to morph into the new shape',
+    min: 0, max: 5, step: 0.1, default: 1.5,
+  },
+  emitter: {
+    type: 'enum', label: 'Emitter', options: EMITTERS, default: 'none',
+    description: "Where particles are born: 'none' keeps every particle on the shape forever; 'point' emits from the center, 'surface' from the shape itself, 'hand' from the index fingertip",
+  },
+  emissionRate: {
+    type: 'number', label: 'Emission rate', description: 'Particles born per second; capped by how many particles are alive over one lifetime',
+    min: 50, max: 100000, step: 50, default: 2000,
+  },
+  lifetime: {
+    type: 'number', label: 'Lifetime', description: 'Seconds a particle lives before fading out and being reborn',
+    min: 0.2, max: 20, step: 0.1, default: 3,
+  },
+  initialVelocity: {
+    type: 'number', label: 'Launch speed', description: 'Speed newborn particles leave the emitter with',
+    min: 0, max: 20, step: 0.1, default: 2,
+  },
+  bloom: { type: 'boolean', label: 'Bloom', description: 'Glow around bright particles', default: false },
+  bloomIntensity: {
+    type: 'number', label: 'Bloom intensity', description: 'Strength of the bloom glow',
+    min: 0, max: 3, step: 0.05, default: 1.0,
+  },
+  bloomThreshold: {
+    type: 'number', label: 'Bloom threshold', description: 'Brightness above which pixels bloom; lower blooms more',
+    min: 0, max: 1, step: 0.01, default: 0.2,
+  },
+  bloomRadius: {
+    type: 'number', label: 'Bloom radius', description: 'How far the bloom spreads',
+    min: 0, max: 1, step: 0.01, default: 0.5,
+  },
+  trails: { type: 'boolean', label: 'Trails', description: 'Motion trails from blending in previous frames', default: false },
+  trailDecay: {
+    type: 'number', label: 'Trail length', description: 'How much of the previous frame stays; higher is longer trails',
+    min: 0.5, max: 0.98, step: 0.01, default: 0.85,
+  },
+  depthOfField: {
+    type: 'boolean', label: 'Depth of field', description: 'Blur particles away from the hand depth', default: false,
+  },
+  dofStrength: {
+    type: 'number', label: 'Blur', description: 'How quickly particles blur away from the focus depth',
+    min: 0, max: 1, step: 0.01, default: 0.4,
+  },
+  chromaticAberration: {
+    type: 'boolean', label: 'Chromatic aberration', description: 'Split the color channels like a cheap lens', default: false,
+  },
+  aberrationAmount: {
+    type: 'number', label: 'Aberration', description: 'Distance between the color channels',
+    min: 0, max: 1, step: 0.01, default: 0.3,
+  },
+  toneMapping: {
+    type: 'enum', label: 'Tone mapping', description: "Highlight roll-off; 'filmic' is ACES",
+    options: TONE_MAPPINGS, default: 'none',
+  },
+  exposure: {
+    type: 'number', label: 'Exposure', description: 'Brightness before tone mapping',
+    min: 0.2, max: 3, step: 0.05, default: 1.0,
+  },
+};
+
+// Post-processing fields, grouped under the toggle that enables them
+export const EFFECT_GROUPS: { toggle: keyof ParticleConfig; params: (keyof ParticleConfig)[] }[] = [
+  { toggle: 'bloom', params: ['bloomIntensity', 'bloomThreshold', 'bloomRadius'] },
+  { toggle: 'trails', params: ['trailDecay'] },
+  { toggle: 'depthOfField', params: ['dofStrength'] },
+  { toggle: 'chromaticAberration', params: ['aberrationAmount'] },
+];
+
+export const CONFIG_FIELDS = Object.keys(CONFIG_SCHEMA) as (keyof ParticleConfig)[];
+
+export const defaultConfig = (): ParticleConfig =>
+  Object.fromEntries(CONFIG_FIELDS.map(key => [key, CONFIG_SCHEMA[key].default])) as unknown as ParticleConfig;
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Color inputs only accept the 6-digit form
+const expandHex = (hex: string) => (hex.length === 4 ? `#${hex[1]}${hex[1]}${hex[2]}${hex[2]}${hex[3]}${hex[3]}` : hex);
+
+// Result of checking one field; `value` is undefined when the input is unusable
+interface FieldCheck {
+  value?: unknown;
+  issue?: string;
+}
+
+const checkField = (key: keyof ParticleConfig, raw: unknown, allowedShapes?: readonly string[]): FieldCheck => {
+  const field = CONFIG_SCHEMA[key];
+  switch (field.type) {
+    case 'number': {
+      const n = typeof raw === 'string' ? parseFloat(raw) : raw;
+      if (typeof n !== 'number' || !Number.isFinite(n)) return { issue: `${key}: expected a number, got ${JSON.stringify(raw)}` };
+      const rounded = field.integer ? Math.round(n) : n;
+      const clamped = Math.min(field.max, Math.max(field.min, rounded));
+      if (clamped !== rounded) {
+        return { value: clamped, issue: `${key}: ${n} is outside ${field.min}-${field.max}, clamped to ${clamped}` };
+      }
+      return { value: clamped };
+    }
+    case 'color': {
+      if (typeof raw !== 'string' || !HEX_COLOR.test(raw.trim())) return { issue: `${key}: ${JSON.stringify(raw)} is not a hex color` };
+      return { value: expandHex(raw.trim().toLowerCase()) };
+    }
+    case 'enum': {
+      const options = key === 'shape' && allowedShapes ? allowedShapes : field.options;
+      if (typeof raw !== 'string' || !options.includes(raw)) {
+        return { issue: `${key}: ${JSON.stringify(raw)} is not one of ${options.join(', ')}` };
+      }
+      return { value: raw };
+    }
+    case 'string': {
+      if (typeof raw !== 'string') return { issue: `${key}: expected text, got ${JSON.stringify(raw)}` };
+      if (raw.length > field.maxLength) {
+        return { value: raw.slice(0, field.maxLength), issue: `${key}: longer than ${field.maxLength} characters, truncated` };
+      }
+      return { value: raw };
+    }
+    case 'colors': {
+      if (!Array.isArray(raw)) return { issue: `${key}: expected a list of hex colors` };
+      const colors = raw.filter(c => typeof c === 'string' && HEX_COLOR.test(c.trim())).map(c => expandHex(c.trim().toLowerCase()));
+      if (colors.length !== raw.length || colors.length > field.maxItems) {
+        return {
+          value: colors.slice(0, field.maxItems),
+          issue: `${key}: kept ${Math.min(colors.length, field.maxItems)} of ${raw.length} colors (max ${field.maxItems}, hex only)`,
+        };
+      }
+      return { value: colors };
+    }
+    case 'boolean': {
+      if (typeof raw === 'boolean') return { value: raw };
+      if (raw === 'true' || raw === 'false') return { value: raw === 'true' };
+      return { issue: `${key}: expected true or false, got ${JSON.stringify(raw)}` };
+    }
+  }
+};
+
+export interface ValidationResult {
+  config: Partial<ParticleConfig>; // Only the usable (possibly clamped) fields
+  issues: string[]; // Human-readable description of everything dropped or adjusted
+  invalid: string[]; // The subset for known fields whose value was unusable and dropped
+}
+
+/**
+ * Checks untrusted input (AI output, shared links, imported files) against the schema.
+ * Unknown keys and unusable values are dropped; out-of-range numbers are clamped.
+ */
+export const validateConfig = (data: unknown, options: { allowedShapes?: readonly string[] } = {}): ValidationResult => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { config: {}, issues: ['expected a JSON object'], invalid: ['expected a JSON object'] };
+  }
+  const config: Record<string, unknown> = {};
+  const issues: string[] = [];
+  const invalid: string[] = [];
+  Object.entries(data).forEach(([key, raw]) => {
+    if (!Object.hasOwn(CONFIG_SCHEMA, key)) {
+      issues.push(`${key}: unknown field, ignored`);
+      return;
+    }
+    const { value, issue } = checkField(key as keyof ParticleConfig, raw, options.allowedShapes);
+    if (issue) issues.push(issue);
+    if (value !== undefined) config[key] = value;
+    else if (issue) invalid.push(issue);
+  });
+  return { config: config as Partial<ParticleConfig>, issues, invalid };
+};
+
+/** Clamps trusted edits (sliders, MIDI) into range, silently. */
+export const clampConfig = (partial: Partial<ParticleConfig>): Partial<ParticleConfig> =>
+  validateConfig(partial).config;
+
+export class ConfigValidationError extends Error {
+  constructor(readonly issues: string[], context: string) {
+    super(`${context}: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+const randomHex = () => `#${Math.floor(Math.random() * 0xffffff).toString(16).padStart(6, '0')}`;
+
+/** Random valid value for one field. Custom-asset shapes are never picked. */
+export const randomFieldValue = <K extends keyof ParticleConfig>(key: K): ParticleConfig[K] => {
+  const field = CONFIG_SCHEMA[key];
+  switch (field.type) {
+    case 'number': {
+      const steps = Math.round((field.max - field.min) / field.step);
+      const value = field.min + Math.round(Math.random() * steps) * field.step;
+      return Number(value.toFixed(4)) as ParticleConfig[K];
+    }
+    case 'color':
+      return randomHex() as ParticleConfig[K];
+    case 'enum': {
+      const options = key === 'shape' ? PROCEDURAL_SHAPES : field.options;
+      return options[Math.floor(Math.random() * options.length)] as ParticleConfig[K];
+    }
+    case 'string':
+      return field.default as ParticleConfig[K];
+    case 'boolean':
+      return (Math.random() < 0.5) as ParticleConfig[K];
+    case 'colors':
+      return Array.from({ length: Math.floor(Math.random() * 3) }, randomHex) as ParticleConfig[K];
+  }
+};
@@ -0,0 +1,55 @@
+// Conversation state for the AI director: each turn records the diff it applied
+// plus the config before and after, so any point in the chat can be restored.
+import { ParticleConfig, useStore } from '../store';
+import { directConfig } from './aiProvider';
+
+export interface DirectorTurn {
+  id: string;
+  message: string;
+  reply: string;
+  changes: Partial<ParticleConfig>;
+  before: ParticleConfig;
+  after: ParticleConfig;
+  undone: boolean; // Reverted via undo; kept visible but excluded from context
+}
+
+// Older turns are dropped from the prompt to keep requests small
+const CONTEXT_TURNS = 10;
+
+/** Sends a message, applies the returned diff and appends the turn. */
+export const sendDirectorMessage = async (message: string) => {
+  const { config, directorTurns } = useStore.getState();
+  const context = directorTurns.filter(t => !t.undone).slice(-CONTEXT_TURNS);
+
+  const { reply, changes } = await directConfig(context, config, message);
+
+  // The config may have moved on while waiting (hands, MIDI, sliders); apply on top of the latest
+  const { config: before, setConfig, setDirectorTurns } = useStore.getState();
+  setConfig(changes);
+  const turn: DirectorTurn = {
+    id: crypto.randomUUID(),
+    message,
+    reply,
+    changes,
+    before,
+    after: useStore.getState().config,
+    undone: false,
+  };
+  setDirectorTurns([...useStore.getState().directorTurns, turn]);
+};
+
+/** Reverts the most recent turn that is still applied. */
+export const undoDirectorTurn = () => {
+  const { directorTurns, setDirectorTurns, setConfig } = useStore.getState();
+  const last = [...directorTurns].reverse().find(t => !t.undone);
+  if (!last) return;
+  setConfig(last.before);
+  setDirectorTurns(directorTurns.map(t => (t.id === last.id ? { ...t, undone: true } : t)));
+};
+
+/** Restores the config as it was before or after a turn. */
+export const restoreDirectorTurn = (id: string, point: 'before' | 'after') => {
+  const { directorTurns, setConfig } = useStore.getState();
+  const turn = directorTurns.find(t => t.id === id);
+  if (turn) setConfig(turn[point]);
+};
@@ -0,0 +1,24 @@
+// Browser file helpers shared by the import/export features
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // Give the browser a tick to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadJson = (data: unknown, fileName: string) => {
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), fileName);
+};
+
+/** Reads and parses a user-selected JSON file. */
+export const readJsonFile = async (file: File): Promise<unknown> => {
+  try {
+    return JSON.parse(await file.text());
+  } catch {
+    throw new Error(`"${file.name}" is not valid JSON`);
+  }
+};
@@ -0,0 +1,90 @@
+// Force objects placed in the scene: point attractors, gravity wells, vortex
+// lines, wind and colliders. They live in world space and act on every layer.
+export type ForceKind = 'attractor' | 'gravity' | 'vortex' | 'wind' | 'plane' | 'sphere';
+
+export const FORCE_KINDS: ForceKind[] = ['attractor', 'gravity', 'vortex', 'wind', 'plane', 'sphere'];
+
+export const FORCE_LABELS: Record<ForceKind, string> = {
+  attractor: 'Attractor',
+  gravity: 'Gravity well',
+  vortex: 'Vortex',
+  wind: 'Wind',
+  plane: 'Plane collider',
+  sphere: 'Sphere collider',
+};
+
+export interface ForceObject {
+  id: string;
+  kind: ForceKind;
+  enabled: boolean;
+  position: [number, number, number]; // World space; a point on the plane for plane colliders
+  direction: [number, number, number]; // Vortex axis, wind direction or plane normal; normalized when applied
+  strength: number; // Negative attractors repel and negative vortices spin the other way; bounce (0-1) for colliders
+  radius: number; // Reach, 0 for unlimited; the size of sphere colliders
+  falloff: number; // Exponent: how fast the force fades toward the edge of its reach (or with distance when unlimited)
+}
+
+export const MAX_FORCES = 8;
+
+export const isCollider = (kind: ForceKind) => kind === 'plane' || kind === 'sphere';
+
+// Which settings a kind uses, for the editor
+export const FORCE_USES: Record<ForceKind, { direction: boolean; radius: boolean; falloff: boolean }> = {
+  attractor: { direction: false, radius: true, falloff: true },
+  gravity: { direction: false, radius: true, falloff: true },
+  vortex: { direction: true, radius: true, falloff: true },
+  wind: { direction: true, radius: true, falloff: true },
+  plane: { direction: true, radius: false, falloff: false },
+  sphere: { direction: false, radius: true, falloff: false },
+};
+
+type ForceDefaults = Pick<ForceObject, 'direction' | 'strength' | 'radius' | 'falloff'>;
+
+const DEFAULTS: Record<ForceKind, ForceDefaults> = {
+  attractor: { direction: [0, 1, 0], strength: 6, radius: 4, falloff: 1 },
+  // Unlimited reach with a squared falloff: an inverse-square pull
+  gravity: { direction: [0, 1, 0], strength: 10, radius: 0, falloff: 2 },
+  // Axis toward the default camera, so it swirls in the screen plane
+  vortex: { direction: [0, 0, 1], strength: 6, radius: 4, falloff: 1 },
+  wind: { direction: [1, 0, 0], strength: 2, radius: 0, falloff: 0 },
+  plane: { direction: [0, 1, 0], strength: 0.5, radius: 0, falloff: 0 },
+  sphere: { direction: [0, 1, 0], strength: 0.5, radius: 1.5, falloff: 0 },
+};
+
+export const createForce = (kind: ForceKind, position: [number, number, number]): ForceObject => ({
+  id: crypto.randomUUID(),
+  kind,
+  enabled: true,
+  position,
+  ...DEFAULTS[kind],
+});
+
+const STORAGE_KEY = 'kinetic-particles.forces';
+
+const isForce = (value: unknown): value is ForceObject => {
+  const f = value as ForceObject;
+  const isVector = (v: unknown) => Array.isArray(v) && v.length === 3 && v.every(Number.isFinite);
+  return (
+    typeof f?.id === 'string' &&
+    FORCE_KINDS.includes(f.kind) &&
+    isVector(f.position) &&
+    isVector(f.direction) &&
+    [f.strength, f.radius, f.falloff].every(Number.isFinite)
+  );
+};
+
+export const loadForces = (storage: Pick<Storage, 'getItem'>): ForceObject[] => {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter(isForce).slice(0, MAX_FORCES).map(f => ({ ...f, enabled: f.enabled !== false }))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveForces = (storage: Pick<Storage, 'setItem'>, forces: ForceObject[]) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(forces));
+};
@@ -1,41 +1,124 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { GoogleGenAI, Schema, Type } from "@google/genai";
 import { ParticleConfig } from '../store';
+import { PROCEDURAL_SHAPES } from '../simulation/shapes';
+import { CONFIG_FIELDS, CONFIG_SCHEMA } from './configSchema';
+import {
+  checkDirectorReply,
+  checkGeneratedConfig,
+  ConfigGenerator,
+  DIRECTOR_INSTRUCTIONS,
+  DirectorExchange,
+  DirectorReply,
+  directorPrompt,
+  GenerateOptions,
+  parseModelJson,
+  themePrompt
+} from './configGenerator';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-export const generateParticleConfig = async (prompt: string): Promise<Partial<ParticleConfig>> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Generate a particle system configuration based on this description: "${prompt}". 
-                 Think about colors, speed, and chaos (noise).
-                 If the user mentions fire, use reds/oranges and high speed.
-                 If water, blues and smooth motion.
-                 If space, purples/blacks and slow motion.`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            color1: { type: Type.STRING, description: "Primary hex color" },
-            color2: { type: Type.STRING, description: "Secondary hex color" },
-            particleSize: { type: Type.NUMBER, description: "Size of particles (0.05 to 0.5)" },
-            speed: { type: Type.NUMBER, description: "Animation speed (0.1 to 5.0)" },
-            noiseScale: { type: Type.NUMBER, description: "Chaos factor (0.1 to 3.0)" },
-            interactionRadius: { type: Type.NUMBER, description: "How far the hand affects particles (1.0 to 5.0)" },
-            particleCount: { type: Type.NUMBER, description: "Number of particles (1000 to 15000)" }
+const MODEL = "gemini-2.5-flash";
+
+// Response schema derived from the shared config schema so ranges are stated once
+const responseProperties = (): Record<string, Schema> =>
+  Object.fromEntries(CONFIG_FIELDS.map(key => {
+    const field = CONFIG_SCHEMA[key];
+    switch (field.type) {
+      case 'number':
+        return [key, { type: Type.NUMBER, description: `${field.description} (${field.min} to ${field.max})` }];
+      case 'enum':
+        // Uploaded mesh/image shapes cannot be produced from a prompt
+        return [key, { type: Type.STRING, enum: key === 'shape' ? PROCEDURAL_SHAPES : [...field.options], description: field.description }];
+      case 'string':
+        return [key, { type: Type.STRING, description: `${field.description} (max ${field.maxLength} chars)` }];
+      case 'boolean':
+        return [key, { type: Type.BOOLEAN, description: field.description }];
+      case 'colors':
+        return [key, { type: Type.ARRAY, items: { type: Type.STRING }, maxItems: String(field.maxItems), description: field.description }];
+      default:
+        return [key, { type: Type.STRING, description: field.description }];
+    }
+  }));
+
+/**
+ * Google Gemini with structured JSON output. The client is created on first
+ * use so a missing key only matters when this provider is actually selected.
+ */
+export class GeminiGenerator implements ConfigGenerator {
+  readonly id = 'gemini' as const;
+  readonly label = 'Gemini';
+  private client: GoogleGenAI | null = null;
+
+  constructor(private readonly apiKey: string | undefined) {}
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<Partial<ParticleConfig>> {
+    try {
+      const response = await this.ai().models.generateContent({
+        model: MODEL,
+        contents: themePrompt(prompt, options.layer),
+        config: {
+          abortSignal: options.signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: responseProperties(),
+            required: ["color1", "color2", "particleSize", "speed", "noiseScale"],
+          },
+        },
+      });
+
+      if (response.text) {
+        return checkGeneratedConfig(parseModelJson(response.text, this.label), this.label);
+      }
+      throw new Error("No response text from Gemini");
+    } catch (error) {
+      console.error("Gemini API Error:", error);
+      throw error;
+    }
+  }
+
+  async direct(
+    history: DirectorExchange[],
+    current: ParticleConfig,
+    message: string,
+    options: GenerateOptions = {}
+  ): Promise<DirectorReply> {
+    try {
+      const response = await this.ai().models.generateContent({
+        model: MODEL,
+        contents: [
+          ...history.flatMap(turn => [
+            { role: 'user', parts: [{ text: turn.message }] },
+            { role: 'model', parts: [{ text: JSON.stringify({ reply: turn.reply, changes: turn.changes }) }] },
+          ]),
+          { role: 'user', parts: [{ text: directorPrompt(current, message) }] },
+        ],
+        config: {
+          abortSignal: options.signal,
+          systemInstruction: DIRECTOR_INSTRUCTIONS,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              reply: { type: Type.STRING, description: "One sentence describing the change" },
+              changes: { type: Type.OBJECT, properties: responseProperties() },
+            },
+            required: ["reply", "changes"],
           },
-          required: ["color1", "color2", "particleSize", "speed", "noiseScale"],
         },
-      },
-    });
+      });
+
+      if (!response.text) throw new Error("No response text from Gemini");
+      return checkDirectorReply(parseModelJson(response.text, this.label), current, this.label);
+    } catch (error) {
+      console.error("Gemini API Error:", error);
+      throw error;
+    }
+  }
 
-    if (response.text) {
-      return JSON.parse(response.text) as Partial<ParticleConfig>;
+  private ai() {
+    if (!this.apiKey) {
+      throw new Error("No Gemini API key. Set GEMINI_API_KEY in .env.local or enter one in the AI tab.");
     }
-    throw new Error("No response text from Gemini");
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw error;
+    this.client ??= new GoogleGenAI({ apiKey: this.apiKey });
+    return this.client;
   }
-};
\ No newline at end of file
+}
@@ -0,0 +1,73 @@
+// Particle layers: independent systems drawn into one scene, each with its own
+// config, transform and blend mode. The store mirrors the selected layer's
+// config as `config`, so editors, presets, the timeline and the AI act on it.
+import type { ParticleConfig } from '../store';
+import type { LayerContext } from './configGenerator';
+
+export type BlendModeId = 'additive' | 'normal' | 'subtractive';
+
+export const BLEND_MODES: BlendModeId[] = ['additive', 'normal', 'subtractive'];
+
+export interface ParticleLayer {
+  id: string;
+  name: string;
+  config: ParticleConfig;
+  visible: boolean;
+  interactive: boolean; // Hands push, rotate and burst this layer
+  blend: BlendModeId;
+  position: [number, number, number];
+  scale: number;
+}
+
+// Later layers draw on top of earlier ones
+export const MAX_LAYERS = 6;
+
+// Screen-space effects apply to the whole frame, so every layer carries the same values
+export const SCENE_FIELDS: (keyof ParticleConfig)[] = [
+  'bloom', 'bloomIntensity', 'bloomThreshold', 'bloomRadius',
+  'trails', 'trailDecay',
+  'chromaticAberration', 'aberrationAmount',
+  'toneMapping', 'exposure',
+];
+
+export const createLayer = (name: string, config: ParticleConfig): ParticleLayer => ({
+  id: crypto.randomUUID(),
+  name,
+  config,
+  visible: true,
+  interactive: true,
+  blend: 'additive',
+  position: [0, 0, 0],
+  scale: 1,
+});
+
+/** Next unused "Layer N" name. */
+export const nextLayerName = (layers: ParticleLayer[]) => {
+  const names = new Set(layers.map(layer => layer.name));
+  let n = layers.length + 1;
+  while (names.has(`Layer ${n}`)) n++;
+  return `Layer ${n}`;
+};
+
+/** Moves layer `id` by `offset` places, clamped to the list. */
+export const moveLayer = (layers: ParticleLayer[], id: string, offset: number) => {
+  const from = layers.findIndex(layer => layer.id === id);
+  if (from < 0) return layers;
+  const to = Math.max(0, Math.min(layers.length - 1, from + offset));
+  const next = [...layers];
+  next.splice(to, 0, ...next.splice(from, 1));
+  return next;
+};
+
+const summarize = (layer: ParticleLayer) =>
+  `"${layer.name}" (${layer.config.shape}, ${layer.config.color1} to ${layer.config.color2})`;
+
+/** What a theme prompt should know about the other layers it has to fit in with. */
+export const layerContext = (layers: ParticleLayer[], targetId: string): LayerContext | undefined => {
+  const target = layers.find(layer => layer.id === targetId);
+  if (!target || layers.length < 2) return undefined;
+  return {
+    name: target.name,
+    others: layers.filter(layer => layer.id !== targetId && layer.visible).map(summarize),
+  };
+};
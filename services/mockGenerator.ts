@@ -0,0 +1,53 @@
+import { ParticleConfig } from '../store';
+import { ConfigGenerator, DirectorExchange, DirectorReply, GenerateOptions } from './configGenerator';
+
+export interface MockGeneratorOptions {
+  config?: Partial<ParticleConfig>; // Returned by generate()
+  reply?: Omit<DirectorReply, 'issues'>; // Returned by direct()
+  delayMs?: number;
+  error?: string; // When set, every call rejects with this message
+}
+
+/**
+ * Deterministic stand-in for working on the UI without a model: canned
+ * responses after an optional delay, honouring cancellation.
+ */
+export class MockGenerator implements ConfigGenerator {
+  readonly id = 'mock' as const;
+  readonly label = 'Mock';
+
+  constructor(private readonly options: MockGeneratorOptions = {}) {}
+
+  async generate(_prompt: string, options: GenerateOptions = {}): Promise<Partial<ParticleConfig>> {
+    await this.respond(options.signal);
+    return this.options.config ?? { color1: '#ffffff', color2: '#888888', speed: 1 };
+  }
+
+  async direct(
+    _history: DirectorExchange[],
+    _current: ParticleConfig,
+    _message: string,
+    options: GenerateOptions = {}
+  ): Promise<DirectorReply> {
+    await this.respond(options.signal);
+    const reply = this.options.reply ?? { reply: 'Mock change.', changes: { speed: 0.5 } };
+    return { ...reply, issues: [] };
+  }
+
+  private respond(signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const timer = setTimeout(() => {
+        if (this.options.error) reject(new Error(this.options.error));
+        else resolve();
+      }, this.options.delayMs ?? 0);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      }, { once: true });
+    });
+  }
+}
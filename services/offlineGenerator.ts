@@ -0,0 +1,227 @@
+import { ParticleConfig } from '../store';
+import { PROCEDURAL_SHAPES, ShapeId } from '../simulation/shapes';
+import { mixOklab } from '../simulation/palettes';
+import {
+  checkDirectorReply,
+  checkGeneratedConfig,
+  ConfigGenerator,
+  DirectorExchange,
+  DirectorReply,
+  GenerateOptions
+} from './configGenerator';
+
+interface Mood {
+  keywords: string[];
+  config: Partial<ParticleConfig>;
+}
+
+// Checked in order; every matching mood contributes, later ones overriding earlier fields
+const MOODS: Mood[] = [
+  {
+    keywords: ['fire', 'flame', 'lava', 'ember', 'inferno', 'volcano', 'heat', 'sun'],
+    config: { color1: '#ff4500', color2: '#ffd700', speed: 2.5, noiseScale: 1.8, damping: 2, shape: 'sphere' },
+  },
+  {
+    keywords: ['water', 'ocean', 'sea', 'rain', 'wave', 'river', 'aqua', 'underwater'],
+    config: { color1: '#0040ff', color2: '#00ffcc', speed: 0.7, noiseScale: 0.6, damping: 1.5, shape: 'torus' },
+  },
+  {
+    keywords: ['space', 'galaxy', 'cosmic', 'star', 'nebula', 'universe', 'void', 'astral'],
+    config: { color1: '#6a0dad', color2: '#ff69b4', speed: 0.4, noiseScale: 0.8, shape: 'galaxy', bloom: true },
+  },
+  {
+    keywords: ['forest', 'nature', 'leaf', 'jungle', 'spring', 'garden', 'moss'],
+    config: { color1: '#00ff66', color2: '#ccff00', speed: 0.8, noiseScale: 1.0, shape: 'helix' },
+  },
+  {
+    keywords: ['ice', 'snow', 'winter', 'frost', 'cold', 'glacier', 'crystal'],
+    config: { color1: '#ffffff', color2: '#66ccff', speed: 0.5, noiseScale: 0.4, stiffness: 8, shape: 'cube' },
+  },
+  {
+    keywords: ['cyber', 'neon', 'synth', 'tron', 'digital', 'matrix', 'grid'],
+    config: { color1: '#00ffff', color2: '#ff00ff', speed: 1.5, noiseScale: 0.7, shape: 'cube', bloom: true, chromaticAberration: true },
+  },
+  {
+    keywords: ['dna', 'spiral', 'twist', 'vortex', 'tornado'],
+    config: { shape: 'helix', handForce: 'vortex' },
+  },
+  {
+    keywords: ['fountain', 'spray', 'spark', 'firework', 'geyser', 'emit'],
+    config: { emitter: 'point', emissionRate: 4000, lifetime: 2.5, initialVelocity: 6, stiffness: 0.5 },
+  },
+  {
+    keywords: ['smoke', 'steam', 'mist', 'evaporate', 'dissolve', 'ash'],
+    config: { emitter: 'surface', emissionRate: 2000, lifetime: 4, initialVelocity: 1, stiffness: 0.3, flowField: 'curl', flowStrength: 1.5 },
+  },
+  {
+    keywords: ['calm', 'peace', 'zen', 'relax', 'gentle', 'dream', 'soft', 'slow'],
+    config: { speed: 0.4, noiseScale: 0.4, damping: 4 },
+  },
+  {
+    keywords: ['chaos', 'storm', 'explosion', 'energy', 'wild', 'angry', 'electric', 'fast'],
+    config: { speed: 3.5, noiseScale: 2.5, damping: 1 },
+  },
+  {
+    keywords: ['rainbow', 'prism', 'spectrum', 'pride'],
+    config: { color1: '#ff0000', color2: '#8b00ff', colorStops: ['#ff8800', '#ffee00', '#00dd44', '#0088ff'] },
+  },
+  {
+    keywords: ['glow', 'bright', 'shine', 'shining', 'radiant', 'luminous'],
+    config: { bloom: true, bloomIntensity: 1.5 },
+  },
+  {
+    keywords: ['trail', 'comet', 'ghost', 'streak', 'smear', 'echo'],
+    config: { trails: true },
+  },
+  {
+    keywords: ['blur', 'bokeh', 'focus', 'cinematic', 'film', 'movie'],
+    config: { depthOfField: true, toneMapping: 'filmic' },
+  },
+];
+
+const COLOR_WORDS: Record<string, string> = {
+  red: '#ff2020',
+  orange: '#ff8800',
+  yellow: '#ffee00',
+  gold: '#ffd700',
+  green: '#00ff66',
+  teal: '#00ccaa',
+  cyan: '#00ffff',
+  blue: '#2060ff',
+  purple: '#8a2be2',
+  violet: '#8a2be2',
+  pink: '#ff69b4',
+  magenta: '#ff00ff',
+  white: '#ffffff',
+  silver: '#c0c0c0',
+};
+
+const words = (text: string) => text.toLowerCase().match(/[a-z]+/g) ?? [];
+
+const matches = (tokens: string[], keywords: string[]) =>
+  tokens.some(token => keywords.some(k => token.startsWith(k)));
+
+const colorsIn = (tokens: string[]) => tokens.filter(t => Object.hasOwn(COLOR_WORDS, t)).map(t => COLOR_WORDS[t]);
+
+const shapeIn = (tokens: string[]): ShapeId | undefined =>
+  PROCEDURAL_SHAPES.find(shape => shape !== 'text' && tokens.includes(shape));
+
+// Quoted words become the text shape: make it say "hello"
+const quotedText = (text: string) => text.match(/["“']([^"”']{1,12})["”']/)?.[1];
+
+interface Adjustment {
+  test: RegExp;
+  apply: (config: ParticleConfig, amount: number) => Partial<ParticleConfig>;
+  describe: string;
+}
+
+// Relative refinements understood by the offline director
+const ADJUSTMENTS: Adjustment[] = [
+  { test: /\b(slower|slow down|calmer speed)\b/, apply: (c, a) => ({ speed: c.speed * (1 - a) }), describe: 'slowed the flow' },
+  { test: /\b(faster|speed up|quicker)\b/, apply: (c, a) => ({ speed: c.speed * (1 + a) }), describe: 'sped up the flow' },
+  { test: /\b(calmer|smoother|less chaotic|gentler)\b/, apply: (c, a) => ({ noiseScale: c.noiseScale * (1 - a) }), describe: 'smoothed the motion' },
+  { test: /\b(wilder|more chaotic|more chaos|rougher|more turbulent)\b/, apply: (c, a) => ({ noiseScale: c.noiseScale * (1 + a) }), describe: 'added turbulence' },
+  { test: /\b(bigger|larger) (particles|dots|points)\b/, apply: (c, a) => ({ particleSize: c.particleSize * (1 + a) }), describe: 'enlarged the particles' },
+  { test: /\b(smaller|tinier) (particles|dots|points)\b/, apply: (c, a) => ({ particleSize: c.particleSize * (1 - a) }), describe: 'shrank the particles' },
+  { test: /\b(more|denser) particles\b/, apply: (c, a) => ({ particleCount: Math.round(c.particleCount * (1 + a * 1.5)) }), describe: 'added particles' },
+  { test: /\b(fewer|less|sparser) particles\b/, apply: (c, a) => ({ particleCount: Math.round(c.particleCount * (1 - a * 1.5)) }), describe: 'removed particles' },
+  { test: /\b(looser|floatier|floppier)\b/, apply: (c, a) => ({ stiffness: c.stiffness * (1 - a) }), describe: 'loosened the shape' },
+  { test: /\b(tighter|firmer|stiffer)\b/, apply: (c, a) => ({ stiffness: c.stiffness * (1 + a) }), describe: 'tightened the shape' },
+];
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+/**
+ * Keyword and mood rules; needs no network or key. Used directly or as the
+ * fallback when the selected provider is unreachable.
+ */
+export class OfflineGenerator implements ConfigGenerator {
+  readonly id = 'offline' as const;
+  readonly label = 'Offline rules';
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<Partial<ParticleConfig>> {
+    // Yield once so cancellation behaves like the network providers
+    await sleep(0, options.signal);
+    const tokens = words(prompt);
+    const config: Partial<ParticleConfig> = {};
+
+    MOODS.forEach(mood => {
+      if (matches(tokens, mood.keywords)) Object.assign(config, mood.config);
+    });
+
+    // Named colors become the gradient, in the order given
+    const colors = colorsIn(tokens);
+    if (colors[0]) config.color1 = colors[0];
+    if (colors.length > 1) {
+      config.color2 = colors[colors.length - 1];
+      config.colorStops = colors.slice(1, -1);
+    } else if (colors[0]) {
+      config.color2 = mixOklab(colors[0], '#ffffff', 0.5);
+    }
+
+    const shape = shapeIn(tokens);
+    if (shape) config.shape = shape;
+    const text = quotedText(prompt);
+    if (text) Object.assign(config, { shape: 'text', shapeText: text.toUpperCase() });
+
+    if (Object.keys(config).length === 0) {
+      throw new Error(`No offline theme matches "${prompt}". Try words like fire, ocean, space, ice or a color.`);
+    }
+    return checkGeneratedConfig(config, this.label);
+  }
+
+  async direct(
+    _history: DirectorExchange[],
+    current: ParticleConfig,
+    message: string,
+    options: GenerateOptions = {}
+  ): Promise<DirectorReply> {
+    await sleep(0, options.signal);
+    const text = message.toLowerCase();
+    const amount = /\b(much|a lot|way|far)\b/.test(text) ? 0.5 : 0.2;
+    const changes: Partial<ParticleConfig> = {};
+    const notes: string[] = [];
+
+    ADJUSTMENTS.forEach(adjustment => {
+      if (!adjustment.test.test(text)) return;
+      Object.assign(changes, adjustment.apply({ ...current, ...changes }, amount));
+      notes.push(adjustment.describe);
+    });
+
+    // "more orange": pull both colors toward the named one
+    const tokens = words(text);
+    const colors = colorsIn(tokens);
+    if (colors.length > 0) {
+      const pull = amount === 0.5 ? 0.7 : 0.4;
+      changes.color1 = mixOklab(current.color1, colors[0], pull);
+      changes.color2 = mixOklab(current.color2, colors[colors.length - 1], pull);
+      notes.push(`shifted colors toward ${tokens.filter(t => Object.hasOwn(COLOR_WORDS, t)).join(' and ')}`);
+    }
+
+    const shape = shapeIn(tokens);
+    if (shape) {
+      changes.shape = shape;
+      notes.push(`morphed into a ${shape}`);
+    }
+
+    // Nothing relative recognized: treat the message as a fresh theme
+    if (notes.length === 0) {
+      try {
+        Object.assign(changes, await this.generate(message, options));
+        notes.push('applied a new theme');
+      } catch {
+        return { reply: "I didn't recognize that. Try slower, faster, calmer, more particles or a color.", changes: {}, issues: [] };
+      }
+    }
+
+    const reply = notes.join(', ');
+    return checkDirectorReply({ reply: reply[0].toUpperCase() + reply.slice(1) + '.', changes }, current, this.label);
+  }
+}
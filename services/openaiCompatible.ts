@@ -0,0 +1,102 @@
+import { ParticleConfig } from '../store';
+import {
+  checkDirectorReply,
+  checkGeneratedConfig,
+  ConfigGenerator,
+  describeConfigFields,
+  DIRECTOR_INSTRUCTIONS,
+  DirectorExchange,
+  DirectorReply,
+  directorPrompt,
+  GenerateOptions,
+  parseModelJson,
+  themePrompt
+} from './configGenerator';
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface OpenAiSettings {
+  baseUrl: string; // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  model: string;
+  apiKey: string; // Optional for local servers
+}
+
+/**
+ * Any server speaking the OpenAI chat-completions API (OpenAI, Ollama,
+ * LM Studio, llama.cpp, vLLM...). Field ranges are described in the system
+ * prompt since structured output support varies between servers.
+ */
+export class OpenAiCompatibleGenerator implements ConfigGenerator {
+  readonly id = 'openai' as const;
+  readonly label: string;
+
+  constructor(private readonly settings: OpenAiSettings) {
+    this.label = settings.model || 'OpenAI-compatible';
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<Partial<ParticleConfig>> {
+    const text = await this.complete([
+      { role: 'system', content: `Reply with a single JSON object using these fields:\n${describeConfigFields()}` },
+      { role: 'user', content: themePrompt(prompt, options.layer) },
+    ], options.signal);
+    return checkGeneratedConfig(parseModelJson(text, this.label), this.label);
+  }
+
+  async direct(
+    history: DirectorExchange[],
+    current: ParticleConfig,
+    message: string,
+    options: GenerateOptions = {}
+  ): Promise<DirectorReply> {
+    const text = await this.complete([
+      {
+        role: 'system',
+        content: `${DIRECTOR_INSTRUCTIONS}\nReply with a JSON object {"reply": string, "changes": object}. Fields:\n${describeConfigFields()}`,
+      },
+      ...history.flatMap((turn): ChatMessage[] => [
+        { role: 'user', content: turn.message },
+        { role: 'assistant', content: JSON.stringify({ reply: turn.reply, changes: turn.changes }) },
+      ]),
+      { role: 'user', content: directorPrompt(current, message) },
+    ], options.signal);
+    return checkDirectorReply(parseModelJson(text, this.label), current, this.label);
+  }
+
+  private async complete(messages: ChatMessage[], signal?: AbortSignal): Promise<string> {
+    const { baseUrl, model, apiKey } = this.settings;
+    if (!baseUrl) throw new Error('No base URL set for the OpenAI-compatible provider.');
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature: 0.7,
+          response_format: { type: 'json_object' },
+        }),
+      });
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      throw new Error(`Could not reach ${baseUrl}. Is the server running and allowing CORS?`);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`${this.label} request failed (${response.status})${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') throw new Error(`No response text from ${this.label}`);
+    return content;
+  }
+}
@@ -0,0 +1,171 @@
+// Frame timing and the adaptive quality governor. The monitor is fed from the
+// render loop; the governor steps through QUALITY_LEVELS to hold the target rate.
+
+export interface PerformanceSettings {
+  governor: boolean; // Adapt quality automatically
+  targetFps: number;
+  showStats: boolean; // On-screen stats overlay
+}
+
+export const DEFAULT_PERFORMANCE_SETTINGS: PerformanceSettings = {
+  governor: true,
+  targetFps: 60,
+  showStats: false,
+};
+
+export interface QualityLevel {
+  countScale: number; // Share of the configured particle count that is simulated and drawn
+  dpr: number; // Upper bound; never above the screen's own pixel ratio
+  effectScale: number; // Resolution of the bloom buffers relative to the frame
+}
+
+// Best first. Resolution goes before particles, since particle count is what the user asked for.
+export const QUALITY_LEVELS: QualityLevel[] = [
+  { countScale: 1, dpr: 2, effectScale: 1 },
+  { countScale: 1, dpr: 1.5, effectScale: 1 },
+  { countScale: 1, dpr: 1, effectScale: 0.5 },
+  { countScale: 0.75, dpr: 1, effectScale: 0.5 },
+  { countScale: 0.5, dpr: 1, effectScale: 0.5 },
+  { countScale: 0.35, dpr: 0.75, effectScale: 0.5 },
+  { countScale: 0.25, dpr: 0.75, effectScale: 0.25 },
+];
+
+// Particle buffers are preallocated in these sizes and only ever grow, so count
+// changes within a tier just move the draw range instead of rebuilding the simulation
+const CAPACITY_TIERS = [16384, 65536, 262144];
+
+export const particleCapacity = (count: number) =>
+  CAPACITY_TIERS.find(tier => tier >= count) ?? CAPACITY_TIERS[CAPACITY_TIERS.length - 1];
+
+const MIN_ACTIVE_PARTICLES = 1000;
+
+/** Particles actually simulated toward the shape and drawn at the given quality level. */
+export const activeParticleCount = (count: number, level: number, capacity: number) =>
+  Math.min(capacity, Math.max(MIN_ACTIVE_PARTICLES, Math.round(count * QUALITY_LEVELS[level].countScale)));
+
+export interface FrameStats {
+  fps: number;
+  frameMs: number; // Average over the last window
+  worstMs: number; // Longest frame in the last window
+  particles: number; // Currently drawn, across all layers
+  capacity: number; // Preallocated, across all layers
+  dpr: number;
+  level: number; // Index into QUALITY_LEVELS
+  drawCalls: number;
+}
+
+// Stats are published once per window so the overlay does not re-render per frame
+const WINDOW_SECONDS = 0.5;
+
+/** Collects frame times from the render loop and publishes averaged stats. */
+export class FrameMonitor {
+  private elapsed = 0;
+  private frames = 0;
+  private worst = 0;
+  private listeners = new Set<(stats: FrameStats) => void>();
+
+  stats: FrameStats = { fps: 0, frameMs: 0, worstMs: 0, particles: 0, capacity: 0, dpr: 1, level: 0, drawCalls: 0 };
+  // Reported by each particle layer whenever its buffers or draw range change
+  private layers = new Map<string, { particles: number; capacity: number }>();
+
+  /** Records a layer's drawn and allocated particles; null when the layer goes away. */
+  reportLayer(id: string, counts: { particles: number; capacity: number } | null) {
+    if (counts) this.layers.set(id, counts);
+    else this.layers.delete(id);
+  }
+
+  /** Returns true when a new window was published. */
+  record(delta: number, extra: Pick<FrameStats, 'dpr' | 'level' | 'drawCalls'>): boolean {
+    this.elapsed += delta;
+    this.frames++;
+    this.worst = Math.max(this.worst, delta);
+    if (this.elapsed < WINDOW_SECONDS) return false;
+
+    this.stats = {
+      ...extra,
+      particles: [...this.layers.values()].reduce((sum, layer) => sum + layer.particles, 0),
+      capacity: [...this.layers.values()].reduce((sum, layer) => sum + layer.capacity, 0),
+      fps: this.frames / this.elapsed,
+      frameMs: (this.elapsed / this.frames) * 1000,
+      worstMs: this.worst * 1000,
+    };
+    this.elapsed = 0;
+    this.frames = 0;
+    this.worst = 0;
+    this.listeners.forEach(l => l(this.stats));
+    return true;
+  }
+
+  subscribe(listener: (stats: FrameStats) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const frameMonitor = new FrameMonitor();
+
+// Windows below target before stepping down, and at target before probing up
+const DOWN_WINDOWS = 3;
+const UP_WINDOWS = 10;
+// Backoff after a step up had to be undone, so the governor does not oscillate
+const MAX_UP_WINDOWS = 120;
+
+/**
+ * Picks a quality level from published frame stats. Steps down quickly when the
+ * rate drops below target and probes upward slowly while it holds.
+ */
+export class QualityGovernor {
+  level = 0;
+  private below = 0;
+  private above = 0;
+  private upWindows = UP_WINDOWS;
+  private probing = false; // The last change was a step up
+
+  /** Returns the new level when it changed, otherwise null. */
+  update(fps: number, targetFps: number): number | null {
+    // Refresh rates jitter a little around the target, so allow some slack
+    const ok = fps >= targetFps * 0.92;
+    this.below = ok ? 0 : this.below + 1;
+    this.above = ok ? this.above + 1 : 0;
+
+    if (this.below >= DOWN_WINDOWS && this.level < QUALITY_LEVELS.length - 1) {
+      if (this.probing) this.upWindows = Math.min(this.upWindows * 2, MAX_UP_WINDOWS);
+      return this.set(this.level + 1, false);
+    }
+    if (this.above >= this.upWindows && this.level > 0) {
+      return this.set(this.level - 1, true);
+    }
+    if (this.probing && this.above >= DOWN_WINDOWS) this.probing = false;
+    return null;
+  }
+
+  reset() {
+    this.upWindows = UP_WINDOWS;
+    return this.set(0, false);
+  }
+
+  private set(level: number, probing: boolean) {
+    this.level = level;
+    this.probing = probing;
+    this.below = 0;
+    this.above = 0;
+    return level;
+  }
+}
+
+const STORAGE_KEY = 'kinetic-particles.performance';
+
+export const loadPerformanceSettings = (storage: Pick<Storage, 'getItem'>): PerformanceSettings => {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_PERFORMANCE_SETTINGS, ...JSON.parse(raw) } : DEFAULT_PERFORMANCE_SETTINGS;
+  } catch {
+    return DEFAULT_PERFORMANCE_SETTINGS;
+  }
+};
+
+export const savePerformanceSettings = (storage: Pick<Storage, 'setItem'>, settings: PerformanceSettings) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,194 @@
+// Saved particle configs: persistence, file/URL sharing and crossfading between them.
+import { ParticleConfig, useStore } from '../store';
+import { mixOklab } from '../simulation/palettes';
+import { ConfigValidationError, defaultConfig, validateConfig } from './configSchema';
+
+export interface Preset {
+  id: string;
+  name: string;
+  createdAt: string;
+  origin: 'user' | 'ai'; // 'ai' entries form the generation history
+  prompt?: string; // Prompt an 'ai' preset was generated from
+  config: ParticleConfig;
+}
+
+// Oldest AI results are dropped beyond this; user presets are never trimmed
+export const MAX_HISTORY = 30;
+
+export const createPreset = (name: string, config: ParticleConfig): Preset => ({
+  id: crypto.randomUUID(),
+  name,
+  createdAt: new Date().toISOString(),
+  origin: 'user',
+  config,
+});
+
+/** Adds a generated config to the history, trimming the oldest AI entries. */
+export const withHistoryEntry = (presets: Preset[], prompt: string, config: ParticleConfig): Preset[] => {
+  const entry: Preset = { ...createPreset(prompt, config), origin: 'ai', prompt };
+  const next = [entry, ...presets];
+  const history = next.filter(p => p.origin === 'ai');
+  if (history.length <= MAX_HISTORY) return next;
+  const dropped = new Set(history.slice(MAX_HISTORY).map(p => p.id));
+  return next.filter(p => !dropped.has(p.id));
+};
+
+const isPreset = (p: unknown): p is Preset => {
+  const v = p as Preset;
+  return typeof v?.id === 'string'
+    && typeof v.name === 'string'
+    && (v.origin === 'user' || v.origin === 'ai')
+    && typeof v.config === 'object' && v.config !== null;
+};
+
+/**
+ * Reads a preset list, skipping entries that are malformed or hold unusable values.
+ * Throws only when nothing usable is left of a non-empty list.
+ */
+export const parsePresets = (data: unknown): Preset[] => {
+  const list = Array.isArray(data) ? data : (data as { presets?: unknown })?.presets;
+  if (!Array.isArray(list)) throw new Error('Expected an array of presets');
+
+  const skipped: string[] = [];
+  const presets = list.flatMap((preset, i): Preset[] => {
+    if (!isPreset(preset)) {
+      skipped.push(`Preset #${i + 1} is malformed`);
+      return [];
+    }
+    // Fields missing from older files fall back to defaults; fields from newer builds are ignored
+    const { config, invalid } = validateConfig(preset.config);
+    if (invalid.length > 0) {
+      skipped.push(new ConfigValidationError(invalid, `Preset #${i + 1} ("${preset.name}")`).message);
+      return [];
+    }
+    return [{ ...preset, config: { ...defaultConfig(), ...config } }];
+  });
+  if (skipped.length > 0) {
+    if (presets.length === 0) throw new Error(skipped[0]);
+    console.warn(`Skipped ${skipped.length} unusable presets:`, skipped);
+  }
+  return presets;
+};
+
+const STORAGE_KEY = 'kinetic-particles.presets';
+// Where an unreadable library is moved, so saving new presets does not overwrite it
+const BACKUP_KEY = 'kinetic-particles.presets.unreadable';
+
+export const loadPresets = (storage: Pick<Storage, 'getItem' | 'setItem'>): Preset[] => {
+  let raw: string | null = null;
+  try {
+    raw = storage.getItem(STORAGE_KEY);
+    return raw ? parsePresets(JSON.parse(raw)) : [];
+  } catch (err) {
+    if (raw) {
+      console.warn(`Could not read saved presets, keeping a copy under ${BACKUP_KEY}:`, err);
+      try {
+        storage.setItem(BACKUP_KEY, raw);
+      } catch (backupErr) {
+        console.warn('Could not back up saved presets:', backupErr);
+      }
+    }
+    return [];
+  }
+};
+
+export const savePresets = (storage: Pick<Storage, 'setItem'>, presets: Preset[]) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+// --- URL sharing: #preset=<base64url JSON of { name, config }> ---
+
+const HASH_PREFIX = '#preset=';
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+export const presetShareUrl = (preset: Pick<Preset, 'name' | 'config'>) => {
+  const payload = toBase64Url(JSON.stringify({ name: preset.name, config: preset.config }));
+  return `${location.origin}${location.pathname}${HASH_PREFIX}${payload}`;
+};
+
+/** Reads a shared preset from a location hash; null when the hash holds none. */
+export const decodePresetHash = (hash: string): { name: string; config: Partial<ParticleConfig> } | null => {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  try {
+    const data = JSON.parse(fromBase64Url(hash.slice(HASH_PREFIX.length)));
+    const { config, issues } = validateConfig(data?.config);
+    if (issues.length > 0) console.warn('Adjusted shared preset:', issues);
+    if (Object.keys(config).length === 0) return null;
+    return { name: typeof data.name === 'string' ? data.name : 'Shared preset', config };
+  } catch {
+    return null;
+  }
+};
+
+// --- Crossfading ---
+
+/**
+ * Config `t` (0-1) of the way from `from` to `to`. Numbers are lerped and colors
+ * blended in OKLab; discrete fields (shape, text, particle count) switch at the start
+ * since the shape has its own morph and a count change regenerates the target shape.
+ */
+export const interpolateConfig = (from: ParticleConfig, to: ParticleConfig, t: number): ParticleConfig => {
+  const result: Record<string, unknown> = { ...to };
+  (Object.keys(to) as (keyof ParticleConfig)[]).forEach(key => {
+    if (key === 'particleCount') return;
+    const a = from[key];
+    const b = to[key];
+    if (typeof a === 'number' && typeof b === 'number') {
+      result[key] = a + (b - a) * t;
+    } else if (typeof a === 'string' && typeof b === 'string' && a.startsWith('#') && b.startsWith('#')) {
+      result[key] = mixOklab(a, b, t);
+    } else if (Array.isArray(a) && Array.isArray(b) && a.length === b.length) {
+      result[key] = a.map((c, i) => mixOklab(c, b[i], t));
+    }
+  });
+  return result as unknown as ParticleConfig;
+};
+
+let cancelActive: (() => void) | null = null;
+
+/** Fades the store's config toward `target` over `seconds`; a new fade cancels the previous one. */
+export const crossfadeTo = (target: Partial<ParticleConfig>, seconds: number) => {
+  cancelActive?.();
+  const { config, setConfig } = useStore.getState();
+  const from = config;
+  const to = { ...config, ...target };
+
+  if (seconds <= 0) {
+    setConfig(to);
+    return;
+  }
+
+  const start = performance.now();
+  let frameId = requestAnimationFrame(function tick(now) {
+    const t = Math.min(1, (now - start) / (seconds * 1000));
+    // Ease in-out so the fade does not start or stop abruptly
+    const eased = t * t * (3 - 2 * t);
+    setConfig(t < 1 ? interpolateConfig(from, to, eased) : to);
+    if (t < 1) {
+      frameId = requestAnimationFrame(tick);
+    } else {
+      cancelActive = null;
+    }
+  });
+  cancelActive = () => {
+    cancelAnimationFrame(frameId);
+    cancelActive = null;
+  };
+};
+
+/** Saves the current config (just set from a generation) into the history. */
+export const recordGeneration = (prompt: string) => {
+  const { presets, setPresets, config } = useStore.getState();
+  setPresets(withHistoryEntry(presets, prompt, config));
+};
@@ -0,0 +1,297 @@
+// Keyframed show control: tracks of config values (plus expansion and camera)
+// sampled on the render clock, with live hand override.
+import { ParticleConfig } from '../store';
+import { mixOklab } from '../simulation/palettes';
+import { CONFIG_SCHEMA, validateConfig } from './configSchema';
+
+export type Easing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'step';
+
+export const EASINGS: Easing[] = ['linear', 'easeIn', 'easeOut', 'easeInOut', 'step'];
+
+const EASE: Record<Easing, (u: number) => number> = {
+  linear: u => u,
+  easeIn: u => u * u,
+  easeOut: u => 1 - (1 - u) * (1 - u),
+  easeInOut: u => u * u * (3 - 2 * u),
+  step: u => (u < 1 ? 0 : 1),
+};
+
+// Config fields that can be animated; particleCount is left out as each change regenerates the shape
+export const CONFIG_TRACKS = [
+  'color1', 'color2', 'particleSize', 'speed', 'noiseScale', 'flowStrength',
+  'interactionRadius', 'handStrength', 'damping', 'stiffness', 'shape', 'shapeText',
+  'emissionRate', 'lifetime', 'initialVelocity',
+  'bloomIntensity', 'trailDecay', 'dofStrength', 'aberrationAmount', 'exposure',
+] as const satisfies readonly (keyof ParticleConfig)[];
+
+export type ConfigTrackId = typeof CONFIG_TRACKS[number];
+export type TrackId = ConfigTrackId | 'expansion' | 'cameraDistance' | 'cameraOrbit';
+
+export const TRACK_LABELS: Record<TrackId, string> = {
+  ...Object.fromEntries(CONFIG_TRACKS.map(id => [id, CONFIG_SCHEMA[id].label])) as Record<ConfigTrackId, string>,
+  expansion: 'Expansion',
+  cameraDistance: 'Camera distance',
+  cameraOrbit: 'Camera orbit',
+};
+
+export interface Keyframe {
+  id: string;
+  time: number; // Seconds from the start
+  value: number | string;
+  easing: Easing; // Curve used when arriving at this keyframe from the previous one
+}
+
+export interface Track {
+  id: TrackId;
+  keyframes: Keyframe[]; // Sorted by time
+}
+
+export interface Timeline {
+  version: 1;
+  name: string;
+  duration: number; // Seconds
+  loop: boolean;
+  handOverride: boolean; // Hold playback while a hand is in view
+  tracks: Track[];
+}
+
+export const EMPTY_TIMELINE: Timeline = {
+  version: 1,
+  name: 'Untitled show',
+  duration: 30,
+  loop: true,
+  handOverride: true,
+  tracks: [],
+};
+
+export interface TimelineSample {
+  config: Partial<ParticleConfig>;
+  expansion?: number;
+  cameraDistance?: number;
+  cameraOrbit?: number; // Degrees around the vertical axis
+}
+
+const isColor = (v: unknown): v is string => typeof v === 'string' && v.startsWith('#');
+
+const sampleTrack = (track: Track, time: number): number | string | undefined => {
+  const keys = track.keyframes;
+  if (keys.length === 0) return undefined;
+  if (time <= keys[0].time) return keys[0].value;
+
+  for (let i = 1; i < keys.length; i++) {
+    const next = keys[i];
+    if (time > next.time) continue;
+    const prev = keys[i - 1];
+    const span = next.time - prev.time;
+    const u = EASE[next.easing](span > 0 ? (time - prev.time) / span : 1);
+
+    if (typeof prev.value === 'number' && typeof next.value === 'number') {
+      return prev.value + (next.value - prev.value) * u;
+    }
+    if (isColor(prev.value) && isColor(next.value)) return mixOklab(prev.value, next.value, u);
+    // Shapes and text switch once the keyframe is reached
+    return u >= 1 ? next.value : prev.value;
+  }
+  return keys[keys.length - 1].value;
+};
+
+/** Values of every track at `time`. */
+export const sampleTimeline = (timeline: Timeline, time: number): TimelineSample => {
+  const sample: TimelineSample = { config: {} };
+  timeline.tracks.forEach(track => {
+    const value = sampleTrack(track, time);
+    if (value === undefined) return;
+    if (track.id === 'expansion' || track.id === 'cameraDistance' || track.id === 'cameraOrbit') {
+      if (typeof value === 'number') sample[track.id] = value;
+    } else {
+      (sample.config as Record<string, unknown>)[track.id] = value;
+    }
+  });
+  return sample;
+};
+
+/** Inserts or replaces (same time) a keyframe, keeping the track sorted. */
+export const upsertKeyframe = (timeline: Timeline, trackId: TrackId, keyframe: Keyframe): Timeline => {
+  const existing = timeline.tracks.find(t => t.id === trackId);
+  const keyframes = [
+    ...(existing?.keyframes ?? []).filter(k => k.id !== keyframe.id && Math.abs(k.time - keyframe.time) > 1e-3),
+    keyframe,
+  ].sort((a, b) => a.time - b.time);
+  const track: Track = { id: trackId, keyframes };
+  return {
+    ...timeline,
+    tracks: existing ? timeline.tracks.map(t => (t.id === trackId ? track : t)) : [...timeline.tracks, track],
+  };
+};
+
+export const removeKeyframe = (timeline: Timeline, trackId: TrackId, keyframeId: string): Timeline => ({
+  ...timeline,
+  tracks: timeline.tracks
+    .map(t => (t.id === trackId ? { ...t, keyframes: t.keyframes.filter(k => k.id !== keyframeId) } : t))
+    .filter(t => t.keyframes.length > 0),
+});
+
+// A keyframe's value checked against its track: numbers for expansion and camera,
+// otherwise whatever the config field accepts (number, color or shape). Undefined when unusable.
+const keyframeValue = (trackId: TrackId, value: unknown): number | string | undefined => {
+  if (trackId === 'expansion' || trackId === 'cameraDistance' || trackId === 'cameraOrbit') {
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+  }
+  return validateConfig({ [trackId]: value }).config[trackId];
+};
+
+export const parseTimeline = (data: unknown): Timeline => {
+  const tl = data as Timeline;
+  if (tl?.version !== 1 || !Array.isArray(tl.tracks) || !Number.isFinite(tl.duration) || tl.duration <= 0) {
+    throw new Error('Not a timeline (version 1)');
+  }
+  tl.tracks.forEach(track => {
+    if (!Object.hasOwn(TRACK_LABELS, track.id)) throw new Error(`Unknown track "${track.id}"`);
+    if (!Array.isArray(track.keyframes)) throw new Error(`Track "${track.id}" has no keyframes`);
+  });
+  return {
+    ...EMPTY_TIMELINE,
+    ...tl,
+    tracks: tl.tracks.map(track => ({
+      id: track.id,
+      // Keyframes with no usable time or value are dropped rather than sampled as NaN
+      keyframes: track.keyframes
+        .flatMap(k => {
+          const value = keyframeValue(track.id, k?.value);
+          if (!Number.isFinite(k?.time) || value === undefined) return [];
+          return [{
+            id: typeof k.id === 'string' ? k.id : crypto.randomUUID(),
+            time: k.time,
+            value,
+            easing: EASINGS.includes(k.easing) ? k.easing : 'linear',
+          }];
+        })
+        .sort((a, b) => a.time - b.time),
+    })).filter(track => track.keyframes.length > 0),
+  };
+};
+
+const STORAGE_KEY = 'kinetic-particles.timeline';
+
+export const loadTimeline = (storage: Pick<Storage, 'getItem'>): Timeline => {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    return raw ? parseTimeline(JSON.parse(raw)) : EMPTY_TIMELINE;
+  } catch {
+    return EMPTY_TIMELINE;
+  }
+};
+
+export const saveTimeline = (storage: Pick<Storage, 'setItem'>, timeline: Timeline) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(timeline));
+};
+
+export interface TimelinePlaybackState {
+  time: number;
+  playing: boolean;
+  overridden: boolean; // Held by a hand in view
+}
+
+// Seconds without a hand before playback resumes
+const RESUME_DELAY = 2;
+// Influence fades in/out over roughly 1/RATE seconds
+const INFLUENCE_RATE = 2;
+
+/**
+ * Playback clock advanced from the render loop. While a hand is in view the
+ * clock holds and the timeline's influence fades out so gestures take over.
+ */
+export class TimelinePlayer {
+  private time = 0;
+  private playing = false;
+  private handIdle = Infinity;
+  private needsApply = false; // Seeking while paused previews once
+  private sample: TimelineSample | null = null;
+  private listeners = new Set<(state: TimelinePlaybackState) => void>();
+
+  // 0 = hands in control, 1 = timeline in control
+  influence = 1;
+  // Live camera reading, so the panel can key the current view
+  camera = { distance: 10, orbit: 0 };
+
+  /** Expansion multiplier for the scene, easing back to 1 while hands are in control. */
+  get expansion() {
+    return 1 + ((this.sample?.expansion ?? 1) - 1) * this.influence;
+  }
+
+  get state(): TimelinePlaybackState {
+    return { time: this.time, playing: this.playing, overridden: this.influence < 0.5 };
+  }
+
+  subscribe(listener: (state: TimelinePlaybackState) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  play() {
+    this.playing = true;
+    this.notify();
+  }
+
+  pause() {
+    this.playing = false;
+    this.notify();
+  }
+
+  stop() {
+    this.playing = false;
+    this.time = 0;
+    this.sample = null;
+    this.notify();
+  }
+
+  seek(time: number) {
+    this.time = Math.max(0, time);
+    this.needsApply = true;
+    this.notify();
+  }
+
+  /**
+   * Moves the clock by `delta` seconds. Returns the sample to apply this frame,
+   * or null when the timeline should leave the scene alone.
+   */
+  advance(timeline: Timeline, delta: number, handsPresent: boolean): TimelineSample | null {
+    this.handIdle = handsPresent ? 0 : this.handIdle + delta;
+    const held = timeline.handOverride && this.handIdle < RESUME_DELAY;
+    const target = held || !this.playing ? 0 : 1;
+    const wasOverridden = this.state.overridden;
+    this.influence += (target - this.influence) * Math.min(1, delta * INFLUENCE_RATE);
+
+    if (this.playing && !held) {
+      this.time += delta;
+      if (this.time >= timeline.duration) {
+        if (timeline.loop) {
+          this.time %= Math.max(timeline.duration, 1e-3);
+        } else {
+          this.time = timeline.duration;
+          this.playing = false;
+        }
+      }
+      this.notify();
+    } else if (wasOverridden !== this.state.overridden) {
+      this.notify();
+    }
+
+    if ((this.playing && !held) || this.needsApply) {
+      this.needsApply = false;
+      this.sample = sampleTimeline(timeline, this.time);
+      return this.sample;
+    }
+    return null;
+  }
+
+  private notify() {
+    const state = this.state;
+    this.listeners.forEach(l => l(state));
+  }
+}
+
+// Shared instance driven by the scene and controlled from the timeline panel
+export const timelinePlayer = new TimelinePlayer();
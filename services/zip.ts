@@ -0,0 +1,84 @@
+// Minimal uncompressed (store) ZIP writer for bundling exported frames. PNGs are
+// already compressed, and composing Blobs lets the browser page frames to disk.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+interface Entry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+// DOS date/time fields; a fixed timestamp keeps archives reproducible
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1; // 1980-01-01
+
+export class ZipWriter {
+  private parts: BlobPart[] = [];
+  private entries: Entry[] = [];
+  private offset = 0;
+
+  async add(fileName: string, blob: Blob) {
+    const name = new TextEncoder().encode(fileName);
+    const crc = crc32(new Uint8Array(await blob.arrayBuffer()));
+    if (this.offset + blob.size > 0xffffffff) throw new Error('Archive exceeds 4 GB; export fewer or smaller frames');
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true); // Version needed
+    header.setUint16(10, DOS_TIME, true);
+    header.setUint16(12, DOS_DATE, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, blob.size, true);
+    header.setUint32(22, blob.size, true);
+    header.setUint16(26, name.length, true);
+
+    this.entries.push({ name, crc, size: blob.size, offset: this.offset });
+    this.parts.push(header.buffer, name, blob);
+    this.offset += 30 + name.length + blob.size;
+  }
+
+  finish(): Blob {
+    const central: BlobPart[] = [];
+    let centralSize = 0;
+    this.entries.forEach(entry => {
+      const record = new DataView(new ArrayBuffer(46));
+      record.setUint32(0, 0x02014b50, true);
+      record.setUint16(4, 20, true); // Version made by
+      record.setUint16(6, 20, true); // Version needed
+      record.setUint16(12, DOS_TIME, true);
+      record.setUint16(14, DOS_DATE, true);
+      record.setUint32(16, entry.crc, true);
+      record.setUint32(20, entry.size, true);
+      record.setUint32(24, entry.size, true);
+      record.setUint16(28, entry.name.length, true);
+      record.setUint32(42, entry.offset, true);
+      central.push(record.buffer, entry.name);
+      centralSize += 46 + entry.name.length;
+    });
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, this.offset, true);
+
+    return new Blob([...this.parts, ...central, end.buffer], { type: 'application/zip' });
+  }
+}
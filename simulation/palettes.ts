@@ -0,0 +1,103 @@
+// Named color schemes the scene can cycle through, gradient helpers and OKLab blending
+import * as THREE from 'three';
+
+export interface ColorPalette {
+  name: string;
+  color1: string;
+  color2: string;
+  colorStops: string[]; // Between color1 and color2
+}
+
+// Size of the particle shader's stop array, color1 and color2 included
+export const MAX_GRADIENT_STOPS = 8;
+
+export const PALETTES: ColorPalette[] = [
+  { name: 'Neon', color1: '#00ffff', color2: '#ff00ff', colorStops: [] },
+  { name: 'Ember', color1: '#ff4500', color2: '#ffd700', colorStops: [] },
+  { name: 'Ocean', color1: '#0040ff', color2: '#00ffcc', colorStops: [] },
+  { name: 'Nebula', color1: '#6a0dad', color2: '#ff69b4', colorStops: [] },
+  { name: 'Forest', color1: '#00ff66', color2: '#ccff00', colorStops: [] },
+  { name: 'Ice', color1: '#ffffff', color2: '#66ccff', colorStops: [] },
+  { name: 'Sunset', color1: '#2b1055', color2: '#ffd166', colorStops: ['#d53369', '#ff8c42'] },
+  { name: 'Aurora', color1: '#00ff87', color2: '#ff00c8', colorStops: ['#00c2ff', '#7b2ff7'] },
+  { name: 'Rainbow', color1: '#ff0000', color2: '#8b00ff', colorStops: ['#ff8800', '#ffee00', '#00dd44', '#0088ff'] },
+];
+
+/** Full gradient, first to last stop. */
+export const gradientStops = (config: Pick<ColorPalette, 'color1' | 'color2' | 'colorStops'>) =>
+  [config.color1, ...config.colorStops, config.color2];
+
+/** CSS background previewing a gradient. */
+export const gradientCss = (stops: string[], angle = 90) => `linear-gradient(${angle}deg, ${stops.join(', ')})`;
+
+/** Palette following the one matching the current gradient, wrapping around. */
+export const nextPalette = (current: Pick<ColorPalette, 'color1' | 'color2' | 'colorStops'>): ColorPalette => {
+  const key = gradientStops(current).join().toLowerCase();
+  const index = PALETTES.findIndex(p => gradientStops(p).join().toLowerCase() === key);
+  return PALETTES[(index + 1) % PALETTES.length];
+};
+
+type Rgb = [number, number, number];
+
+const parseHex = (hex: string): Rgb => {
+  const h = hex.replace('#', '');
+  const full = h.length === 3 ? h.split('').map(c => c + c).join('') : h.padEnd(6, '0');
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16) / 255) as Rgb;
+};
+
+const toHex = (rgb: Rgb) =>
+  '#' + rgb.map(c => Math.round(Math.min(1, Math.max(0, c)) * 255).toString(16).padStart(2, '0')).join('');
+
+const toLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+const toGamma = (c: number) => (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+
+// sRGB <-> OKLab (https://bottosson.github.io/posts/oklab/)
+const srgbToOklab = (rgb: Rgb): Rgb => {
+  const [r, g, b] = rgb.map(toLinear);
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  return [
+    0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+  ];
+};
+
+const oklabToSrgb = ([L, a, b]: Rgb): Rgb => {
+  const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (L - 0.0894841775 * a - 1.2914855480 * b) ** 3;
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s,
+  ].map(toGamma) as Rgb;
+};
+
+/** Blends two hex colors in OKLab so midpoints keep perceived brightness. */
+export const mixOklab = (from: string, to: string, t: number): string => {
+  const a = srgbToOklab(parseHex(from));
+  const b = srgbToOklab(parseHex(to));
+  return toHex(oklabToSrgb(a.map((v, i) => v + (b[i] - v) * t) as Rgb));
+};
+
+// Longest side of the sampled color image; particles cannot resolve more detail
+const COLOR_IMAGE_SIZE = 256;
+
+/** Loads an image file as a small texture for the 'image' color mode. */
+export const loadColorImage = async (file: File): Promise<THREE.Texture> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, COLOR_IMAGE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D unavailable');
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace; // Decoded like the hex gradient colors
+  return texture;
+};
@@ -0,0 +1,492 @@
+import * as THREE from 'three';
+import type { EmitterId, FlowFieldId, HandForceMode } from '../store';
+import { ForceKind, MAX_FORCES } from '../services/forces';
+import { curlNoiseChunk } from './noise';
+import { GPUComputationRenderer, Variable } from 'three/examples/jsm/misc/GPUComputationRenderer.js';
+
+// Maximum number of hands acting on the field at once, local and remote together
+export const MAX_HANDS = 8;
+
+// Share of the particles reborn at the origin of a burst
+const BURST_SHARE = 0.15;
+
+// Included in both passes. They read the same previous state, so they agree on
+// which particles are (re)born this frame without passing a flag between them.
+const lifecycleChunk = `
+  uniform float uTime;
+  uniform float uDelta;
+  uniform float uEpoch; // Births before this are spread over the emission cycle again
+  uniform int uEmitter; // 0 = none, 1 = from uEmitterOrigin, 2 = from the rest shape
+  uniform vec3 uEmitterOrigin;
+  uniform float uPeriod; // Seconds between two births of the same particle
+  uniform float uExpansion;
+  uniform vec3 uBurstOrigin;
+  uniform float uBurstStrength; // One-frame radial impulse, 0 when idle
+  uniform float uBurstSeed; // Picks which particles a burst emits
+  uniform sampler2D tRestFrom;
+  uniform sampler2D tRestTo;
+  uniform float uMorph;
+
+  vec4 restAt(vec2 uv) {
+    vec4 restFrom = texture2D(tRestFrom, uv); // w holds the per-particle random seed
+    vec4 restTo = texture2D(tRestTo, uv);
+    // Smoothstep-eased morph between the previous and the new target shape
+    return vec4(mix(restFrom.xyz, restTo.xyz, smoothstep(0.0, 1.0, uMorph)), restFrom.w);
+  }
+
+  // x = birth time on the simulation clock; y = 0 when alive, 1 when emitted, 2 when burst this frame
+  vec2 lifecycle(float birth, float seed) {
+    if (birth < uEpoch) birth = uEmitter > 0 ? uEpoch - seed * uPeriod : uEpoch;
+    float born = 0.0;
+    if (uEmitter > 0 && uTime - birth >= uPeriod) {
+      birth += floor((uTime - birth) / uPeriod) * uPeriod;
+      born = 1.0;
+    }
+    if (uBurstStrength > 0.0 && fract(seed * 31.7 + uBurstSeed) < ${BURST_SHARE}) {
+      birth = uTime;
+      born = 2.0;
+    }
+    return vec2(birth, born);
+  }
+
+  vec3 spawnPosition(vec3 rest, float born) {
+    if (born > 1.5) return uBurstOrigin;
+    return uEmitter == 2 ? rest * uExpansion : uEmitterOrigin;
+  }
+`;
+
+// Force objects, in both passes: the velocity pass bounces particles off colliders
+// and the position pass pushes any that still got inside back onto the surface
+const forceChunk = `
+  uniform vec4 uForcePos[${MAX_FORCES}]; // xyz position, w = kind (see FORCE_INDEX), 0 when unused
+  uniform vec4 uForceDir[${MAX_FORCES}]; // xyz unit direction, w = strength (bounce for colliders)
+  uniform vec2 uForceShape[${MAX_FORCES}]; // Radius (0 = unlimited), falloff exponent
+
+  // Share of a force felt at distance d
+  float reach(float d, vec2 shape) {
+    if (shape.x > 0.0) return d < shape.x ? pow(1.0 - d / shape.x, shape.y) : 0.0;
+    return 1.0 / pow(1.0 + d, shape.y);
+  }
+
+  vec3 bounce(vec3 p, vec3 v) {
+    vec3 next = p + v * uDelta;
+    for (int i = 0; i < ${MAX_FORCES}; i++) {
+      int kind = int(uForcePos[i].w + 0.5);
+      float restitution = uForceDir[i].w;
+      vec3 n = uForceDir[i].xyz;
+      if (kind == 4) {
+        if (dot(next - uForcePos[i].xyz, n) < 0.0 && dot(v, n) < 0.0) v -= (1.0 + restitution) * dot(v, n) * n;
+      } else if (kind == 5) {
+        vec3 rel = next - uForcePos[i].xyz;
+        float d = length(rel);
+        if (d < uForceShape[i].x && d > 0.0001) {
+          n = rel / d;
+          if (dot(v, n) < 0.0) v -= (1.0 + restitution) * dot(v, n) * n;
+        }
+      }
+    }
+    return v;
+  }
+
+  vec3 collide(vec3 p) {
+    for (int i = 0; i < ${MAX_FORCES}; i++) {
+      int kind = int(uForcePos[i].w + 0.5);
+      if (kind == 4) {
+        float h = dot(p - uForcePos[i].xyz, uForceDir[i].xyz);
+        if (h < 0.0) p -= uForceDir[i].xyz * h;
+      } else if (kind == 5) {
+        vec3 rel = p - uForcePos[i].xyz;
+        float d = length(rel);
+        if (d < uForceShape[i].x && d > 0.0001) p = uForcePos[i].xyz + rel / d * uForceShape[i].x;
+      }
+    }
+    return p;
+  }
+`;
+
+// Velocity pass: integrates every force acting on a particle.
+// GPUComputationRenderer injects `texturePosition`, `textureVelocity` and `resolution`.
+const velocityShader = `
+  ${lifecycleChunk}
+  ${forceChunk}
+  ${curlNoiseChunk}
+  uniform float uSpeed;
+  uniform int uFlowField; // 0 = waves, 1 = curl noise
+  uniform float uFlowStrength;
+  uniform float uNoiseScale;
+  uniform float uDamping;
+  uniform float uStiffness;
+  uniform float uInitialVelocity;
+  uniform vec4 uHands[${MAX_HANDS}]; // xyz position, w = 1 for a local hand, 2 for a remote attractor, 0 when unused
+  uniform float uInteractRadius;
+  uniform int uHandMode; // 0 = repel, 1 = attract, 2 = vortex
+  uniform float uHandStrength;
+  uniform vec3 uHandAxis; // Vortex axis: toward the camera
+
+  const float HAND_SWIRL = 2.0;
+  // Share of a vortex's spin that also pulls toward its axis, so particles orbit instead of flying off
+  const float VORTEX_PULL = 0.3;
+
+  float hash(vec2 p) {
+    return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+  }
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec4 state = texture2D(texturePosition, uv);
+    vec3 pos = state.xyz;
+    vec3 vel = texture2D(textureVelocity, uv).xyz;
+    vec4 rest = restAt(uv);
+
+    float time = uTime * uSpeed;
+
+    // Ambient flow field
+    vec3 acc;
+    if (uFlowField == 1) {
+      acc = curlNoise(pos * uNoiseScale * 0.4 + vec3(0.0, 0.0, time * 0.05)) * 0.35;
+    } else {
+      acc = vec3(
+        sin(time * 0.1 + pos.y * uNoiseScale + rest.w * 6.0),
+        cos(time * 0.1 + pos.x * uNoiseScale + rest.w * 6.0),
+        sin(time * 0.15 + pos.x * uNoiseScale)
+      );
+    }
+    acc *= uFlowStrength;
+
+    // Spring back to the (expanded) rest shape
+    acc += (rest.xyz * uExpansion - pos) * uStiffness;
+
+    // Hands push, pull or spin, with some swirl; remote hands always pull
+    for (int i = 0; i < ${MAX_HANDS}; i++) {
+      if (uHands[i].w < 0.5) continue;
+      vec3 offset = pos - uHands[i].xyz;
+      float dist = length(offset);
+      if (dist < uInteractRadius && dist > 0.0001) {
+        vec3 dir = offset / dist;
+        float force = (uInteractRadius - dist) / uInteractRadius;
+        vec3 curl = cross(dir, vec3(0.0, 1.0, 0.0));
+        vec3 push;
+        if (uHands[i].w > 1.5 || uHandMode == 1) push = -dir;
+        else if (uHandMode == 2) push = cross(uHandAxis, dir) - dir * VORTEX_PULL;
+        else push = dir;
+        acc += push * force * uHandStrength;
+        acc += curl * force * HAND_SWIRL;
+      }
+    }
+
+    // Force objects: 1 = attractor or gravity well, 2 = vortex line, 3 = wind
+    for (int i = 0; i < ${MAX_FORCES}; i++) {
+      int kind = int(uForcePos[i].w + 0.5);
+      vec3 axis = uForceDir[i].xyz;
+      float strength = uForceDir[i].w;
+      vec3 toward = uForcePos[i].xyz - pos;
+      if (kind == 1) {
+        float d = length(toward);
+        if (d > 0.0001) acc += toward / d * strength * reach(d, uForceShape[i]);
+      } else if (kind == 2) {
+        vec3 radial = -toward - axis * dot(-toward, axis);
+        float d = length(radial);
+        if (d > 0.0001) {
+          vec3 away = radial / d;
+          acc += (cross(axis, away) * strength - away * abs(strength) * VORTEX_PULL) * reach(d, uForceShape[i]);
+        }
+      } else if (kind == 3) {
+        // Gusty: the push rises and falls as waves travel downwind
+        float gust = 0.75 + 0.25 * sin(uTime * 1.3 - dot(pos, axis) * 0.7);
+        acc += axis * strength * gust * reach(length(toward), uForceShape[i]);
+      }
+    }
+
+    vel += acc * uDelta;
+
+    // Burst: impulse away from the origin, fading with distance
+    if (uBurstStrength > 0.0) {
+      vec3 away = pos - uBurstOrigin;
+      float d = length(away);
+      vel += (d > 0.0001 ? away / d : vec3(0.0, 1.0, 0.0)) * uBurstStrength * exp(-d * 0.25);
+    }
+
+    // Drag
+    vel *= exp(-uDamping * uDelta);
+
+    vel = bounce(pos, vel);
+
+    // Newborn particles leave their source in a random direction, or outward from the surface
+    float born = lifecycle(state.w, rest.w).y;
+    if (born > 0.5) {
+      float z = hash(uv + fract(uTime)) * 2.0 - 1.0;
+      float a = hash(uv.yx + fract(uTime * 1.37)) * 6.2831853;
+      vec3 dir = vec3(sqrt(1.0 - z * z) * vec2(cos(a), sin(a)), z);
+      if (born < 1.5 && uEmitter == 2 && length(rest.xyz) > 0.0001) dir = normalize(normalize(rest.xyz) + dir * 0.3);
+      float launch = born > 1.5 ? uBurstStrength * (0.6 + 0.4 * rest.w) : uInitialVelocity * (0.5 + 0.5 * rest.w);
+      vel = dir * launch;
+    }
+
+    gl_FragColor = vec4(vel, 1.0);
+  }
+`;
+
+// Position pass: explicit step using the freshly integrated velocity, or a jump to
+// the source for newborn particles; w holds the birth time on the simulation clock
+const positionShader = `
+  ${lifecycleChunk}
+  ${forceChunk}
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec4 pos = texture2D(texturePosition, uv);
+    vec3 vel = texture2D(textureVelocity, uv).xyz;
+    vec4 rest = restAt(uv);
+    vec2 life = lifecycle(pos.w, rest.w);
+    vec3 next = life.y > 0.5 ? spawnPosition(rest.xyz, life.y) : pos.xyz + vel * uDelta;
+    gl_FragColor = vec4(collide(next), life.x);
+  }
+`;
+
+// Large frame gaps (tab switches, hitches) would otherwise blow up the spring
+const MAX_DELTA = 1 / 30;
+
+export interface SimulationStepParams {
+  time: number;
+  delta: number;
+  speed: number;
+  noiseScale: number;
+  flowField: FlowFieldId;
+  flowStrength: number;
+  damping: number;
+  stiffness: number;
+  expansion: number;
+  interactionRadius: number;
+  hands: THREE.Vector3[]; // In the particle object's local space
+  attractors: THREE.Vector3[]; // Remote hands, local space; they always pull. Both lists share MAX_HANDS slots
+  handForce: HandForceMode;
+  handStrength: number;
+  handAxis: THREE.Vector3; // Local space, unit length
+  forces: ForceSlot[]; // Enabled force objects in local space, at most MAX_FORCES
+  emitter: EmitterId;
+  emitterOrigin: THREE.Vector3; // Local space, for the 'point' and 'hand' emitters
+  emissionRate: number; // Particles per second across `activeCount`
+  lifetime: number;
+  initialVelocity: number;
+  activeCount: number; // Particles drawn; the rest of the buffer cycles unseen
+}
+
+/** A force object converted into the particle object's local space. */
+export interface ForceSlot {
+  kind: ForceKind;
+  position: THREE.Vector3;
+  direction: THREE.Vector3; // Unit length
+  strength: number;
+  radius: number;
+  falloff: number;
+}
+
+// Attractors and gravity wells differ only in their defaults
+const FORCE_INDEX: Record<ForceKind, number> = { attractor: 1, gravity: 1, vortex: 2, wind: 3, plane: 4, sphere: 5 };
+
+const HAND_MODE_INDEX: Record<HandForceMode, number> = { repel: 0, attract: 1, vortex: 2 };
+
+// 'point' and 'hand' both emit from a single origin
+const EMITTER_INDEX: Record<EmitterId, number> = { none: 0, point: 1, surface: 2, hand: 1 };
+
+const easeMorph = (t: number) => t * t * (3 - 2 * t);
+
+/** Side of the square state textures holding `count` particles. */
+export const simulationTextureSize = (count: number) => Math.max(1, Math.ceil(Math.sqrt(count)));
+
+/**
+ * Persistent per-particle position/velocity state, stored in float render
+ * targets and advanced on the GPU with ping-pong passes each frame.
+ */
+export class ParticleSimulation {
+  readonly size: number;
+  readonly count: number;
+
+  private gpu: GPUComputationRenderer;
+  private positionVar: Variable;
+  private velocityVar: Variable;
+  private restFromTexture: THREE.DataTexture;
+  private restToTexture: THREE.DataTexture;
+  private morphProgress = 1;
+  private morphDuration = 0;
+  private pendingBurst: { origin: THREE.Vector3; strength: number } | null = null;
+  private emitting: boolean | null = null;
+
+  constructor(renderer: THREE.WebGLRenderer, restPositions: Float32Array, randoms: Float32Array) {
+    this.count = restPositions.length / 3;
+    this.size = simulationTextureSize(this.count);
+    this.gpu = new GPUComputationRenderer(this.size, this.size, renderer);
+
+    const position0 = this.gpu.createTexture();
+    const velocity0 = this.gpu.createTexture();
+    this.restFromTexture = this.gpu.createTexture();
+    this.restToTexture = this.gpu.createTexture();
+
+    const from = this.restFromTexture.image.data as Float32Array;
+    const to = this.restToTexture.image.data as Float32Array;
+    const pos = position0.image.data as Float32Array;
+    for (let i = 0; i < this.count; i++) {
+      for (let k = 0; k < 3; k++) {
+        from[i * 4 + k] = to[i * 4 + k] = pos[i * 4 + k] = restPositions[i * 3 + k];
+      }
+      from[i * 4 + 3] = randoms[i * 3];
+    }
+    this.restFromTexture.needsUpdate = true;
+    this.restToTexture.needsUpdate = true;
+
+    this.velocityVar = this.gpu.addVariable('textureVelocity', velocityShader, velocity0);
+    this.positionVar = this.gpu.addVariable('texturePosition', positionShader, position0);
+    this.gpu.setVariableDependencies(this.velocityVar, [this.positionVar, this.velocityVar]);
+    this.gpu.setVariableDependencies(this.positionVar, [this.positionVar, this.velocityVar]);
+
+    // The lifecycle uniforms are the same objects in both passes, so one write updates both
+    const lifecycle = {
+      uTime: { value: 0 },
+      uDelta: { value: 0 },
+      uEpoch: { value: 0 },
+      uEmitter: { value: 0 },
+      uEmitterOrigin: { value: new THREE.Vector3() },
+      uPeriod: { value: 1 },
+      uExpansion: { value: 1 },
+      uBurstOrigin: { value: new THREE.Vector3() },
+      uBurstStrength: { value: 0 },
+      uBurstSeed: { value: 0 },
+      tRestFrom: { value: this.restFromTexture },
+      tRestTo: { value: this.restToTexture },
+      uMorph: { value: 1 },
+      uForcePos: { value: Array.from({ length: MAX_FORCES }, () => new THREE.Vector4()) },
+      uForceDir: { value: Array.from({ length: MAX_FORCES }, () => new THREE.Vector4()) },
+      uForceShape: { value: Array.from({ length: MAX_FORCES }, () => new THREE.Vector2()) },
+    };
+    Object.assign(this.velocityVar.material.uniforms, lifecycle, {
+      uSpeed: { value: 1 },
+      uFlowField: { value: 0 },
+      uFlowStrength: { value: 1 },
+      uNoiseScale: { value: 1 },
+      uDamping: { value: 1 },
+      uStiffness: { value: 1 },
+      uInitialVelocity: { value: 0 },
+      uHands: { value: Array.from({ length: MAX_HANDS }, () => new THREE.Vector4()) },
+      uInteractRadius: { value: 1 },
+      uHandMode: { value: 0 },
+      uHandStrength: { value: 0 },
+      uHandAxis: { value: new THREE.Vector3(0, 0, 1) },
+    });
+    Object.assign(this.positionVar.material.uniforms, lifecycle);
+
+    const error = this.gpu.init();
+    if (error !== null) {
+      throw new Error(`Particle simulation init failed: ${error}`);
+    }
+  }
+
+  /** Texture holding current positions (xyz) and birth times (w) for the point renderer. */
+  get positionTexture(): THREE.Texture {
+    return this.gpu.getCurrentRenderTarget(this.positionVar).texture;
+  }
+
+  /** Texture holding current velocities (xyz). */
+  get velocityTexture(): THREE.Texture {
+    return this.gpu.getCurrentRenderTarget(this.velocityVar).texture;
+  }
+
+  /**
+   * Starts blending the rest shape toward `restPositions` over `duration` seconds.
+   * An in-flight morph is frozen where it is and becomes the new starting shape.
+   */
+  morphTo(restPositions: Float32Array, duration: number) {
+    const from = this.restFromTexture.image.data as Float32Array;
+    const to = this.restToTexture.image.data as Float32Array;
+    const t = easeMorph(this.morphProgress);
+
+    for (let i = 0; i < this.count; i++) {
+      for (let k = 0; k < 3; k++) {
+        const j = i * 4 + k;
+        from[j] = from[j] + (to[j] - from[j]) * t;
+        to[j] = restPositions[i * 3 + k];
+      }
+    }
+    this.restFromTexture.needsUpdate = true;
+    this.restToTexture.needsUpdate = true;
+
+    this.morphDuration = Math.max(0, duration);
+    this.morphProgress = this.morphDuration > 0 ? 0 : 1;
+  }
+
+  /**
+   * Queues a radial impulse (local space) applied on the next step. A share of
+   * the particles is reborn at the origin and flies out as a shockwave.
+   */
+  burst(origin: THREE.Vector3, strength: number) {
+    this.pendingBurst = { origin: origin.clone(), strength };
+  }
+
+  step(params: SimulationStepParams) {
+    // Clamped both ways: a stalled tab or a clock jump must not throw particles across the scene
+    const delta = Math.min(Math.max(params.delta, 0), MAX_DELTA);
+    const u = this.velocityVar.material.uniforms;
+
+    if (this.morphProgress < 1) {
+      this.morphProgress = Math.min(1, this.morphProgress + delta / this.morphDuration);
+    }
+    u.uMorph.value = this.morphProgress;
+
+    u.uTime.value = params.time;
+    u.uDelta.value = delta;
+    u.uSpeed.value = params.speed;
+    u.uNoiseScale.value = params.noiseScale;
+    u.uDamping.value = params.damping;
+    u.uStiffness.value = params.stiffness;
+    u.uExpansion.value = params.expansion;
+    u.uInteractRadius.value = params.interactionRadius;
+    u.uFlowField.value = params.flowField === 'curl' ? 1 : 0;
+    u.uFlowStrength.value = params.flowStrength;
+    u.uHandMode.value = HAND_MODE_INDEX[params.handForce];
+    u.uHandStrength.value = params.handStrength;
+    u.uHandAxis.value.copy(params.handAxis);
+    (u.uForcePos.value as THREE.Vector4[]).forEach((slot, i) => {
+      const force = params.forces[i];
+      if (!force) {
+        slot.w = 0;
+        return;
+      }
+      slot.set(force.position.x, force.position.y, force.position.z, FORCE_INDEX[force.kind]);
+      u.uForceDir.value[i].set(force.direction.x, force.direction.y, force.direction.z, force.strength);
+      u.uForceShape.value[i].set(force.radius, force.falloff);
+    });
+    u.uBurstStrength.value = this.pendingBurst?.strength ?? 0;
+    if (this.pendingBurst) {
+      u.uBurstOrigin.value.copy(this.pendingBurst.origin);
+      u.uBurstSeed.value = Math.random();
+    }
+    this.pendingBurst = null;
+
+    // Turning emission on or off restarts the cycle; births are spread over one period from here
+    const emitting = params.emitter !== 'none';
+    if (emitting !== this.emitting) {
+      this.emitting = emitting;
+      u.uEpoch.value = params.time;
+    }
+    u.uEmitter.value = EMITTER_INDEX[params.emitter];
+    u.uEmitterOrigin.value.copy(params.emitterOrigin);
+    // One particle slot is reused every period; a low rate leaves slots empty between lives
+    u.uPeriod.value = Math.max(params.lifetime, params.activeCount / Math.max(params.emissionRate, 1e-3));
+    u.uInitialVelocity.value = params.initialVelocity;
+    const slots = [...params.hands.map(hand => ({ hand, kind: 1 })), ...params.attractors.map(hand => ({ hand, kind: 2 }))];
+    (u.uHands.value as THREE.Vector4[]).forEach((slot, i) => {
+      const entry = slots[i];
+      if (entry) slot.set(entry.hand.x, entry.hand.y, entry.hand.z, entry.kind);
+      else slot.w = 0;
+    });
+
+    this.gpu.compute();
+  }
+
+  dispose() {
+    this.gpu.dispose();
+    this.velocityVar.material.dispose();
+    this.positionVar.material.dispose();
+    this.restFromTexture.dispose();
+    this.restToTexture.dispose();
+  }
+}
@@ -0,0 +1,392 @@
+// Target shape library. Every generator returns `count` xyz triplets
+// sized to roughly fit the same 4-6 unit radius as the original sphere shell.
+
+export type ShapeId = 'sphere' | 'torus' | 'cube' | 'helix' | 'galaxy' | 'text' | 'mesh' | 'image';
+
+// Shapes that can be produced from config alone (no uploaded asset)
+export const PROCEDURAL_SHAPES: ShapeId[] = ['sphere', 'torus', 'cube', 'helix', 'galaxy', 'text'];
+
+export const SHAPE_LABELS: Record<ShapeId, string> = {
+  sphere: 'Sphere',
+  torus: 'Torus',
+  cube: 'Cube Lattice',
+  helix: 'Helix',
+  galaxy: 'Galaxy',
+  text: 'Text',
+  mesh: 'Mesh (OBJ/PLY)',
+  image: 'Silhouette (PNG)',
+};
+
+// Points sampled from an uploaded asset, resampled to the particle count on demand
+export interface CustomShape {
+  kind: 'mesh' | 'image';
+  name: string;
+  points: Float32Array;
+}
+
+export interface ShapeOptions {
+  text?: string;
+  custom?: CustomShape | null;
+}
+
+const TARGET_RADIUS = 5;
+// Upper bound on stored samples for uploaded assets
+const CUSTOM_SAMPLE_COUNT = 20000;
+
+const jitter = (amount: number) => (Math.random() - 0.5) * amount;
+
+const sphere = (out: Float32Array, count: number) => {
+  for (let i = 0; i < count; i++) {
+    const theta = Math.random() * Math.PI * 2;
+    const phi = Math.acos((Math.random() * 2) - 1);
+    const radius = 4 + Math.random() * 2;
+
+    out[i * 3] = radius * Math.sin(phi) * Math.cos(theta);
+    out[i * 3 + 1] = radius * Math.sin(phi) * Math.sin(theta);
+    out[i * 3 + 2] = radius * Math.cos(phi);
+  }
+};
+
+const torus = (out: Float32Array, count: number) => {
+  const R = 4;
+  for (let i = 0; i < count; i++) {
+    const u = Math.random() * Math.PI * 2;
+    const v = Math.random() * Math.PI * 2;
+    const r = 1 + Math.random() * 0.4;
+
+    out[i * 3] = (R + r * Math.cos(v)) * Math.cos(u);
+    out[i * 3 + 1] = (R + r * Math.cos(v)) * Math.sin(u);
+    out[i * 3 + 2] = r * Math.sin(v);
+  }
+};
+
+const cube = (out: Float32Array, count: number) => {
+  const perSide = Math.max(2, Math.ceil(Math.cbrt(count)));
+  const spacing = 8 / (perSide - 1);
+  for (let i = 0; i < count; i++) {
+    const x = i % perSide;
+    const y = Math.floor(i / perSide) % perSide;
+    const z = Math.floor(i / (perSide * perSide));
+
+    out[i * 3] = -4 + x * spacing + jitter(0.05);
+    out[i * 3 + 1] = -4 + y * spacing + jitter(0.05);
+    out[i * 3 + 2] = -4 + z * spacing + jitter(0.05);
+  }
+};
+
+const helix = (out: Float32Array, count: number) => {
+  const turns = 4;
+  for (let i = 0; i < count; i++) {
+    const t = Math.random();
+    const strand = i % 2 === 0 ? 0 : Math.PI;
+    const angle = t * turns * Math.PI * 2 + strand;
+
+    out[i * 3] = Math.cos(angle) * 3 + jitter(0.4);
+    out[i * 3 + 1] = (t - 0.5) * 12;
+    out[i * 3 + 2] = Math.sin(angle) * 3 + jitter(0.4);
+  }
+};
+
+const galaxy = (out: Float32Array, count: number) => {
+  const arms = 3;
+  for (let i = 0; i < count; i++) {
+    const radius = Math.pow(Math.random(), 0.6) * 6;
+    const arm = (i % arms) / arms * Math.PI * 2;
+    const spin = radius * 0.8;
+    // Thicker near the core, tighter along the outer arms
+    const scatter = (1 - radius / 6) * 0.6 + 0.2;
+
+    out[i * 3] = Math.cos(arm + spin) * radius + jitter(scatter);
+    out[i * 3 + 1] = jitter(scatter * 0.5);
+    out[i * 3 + 2] = Math.sin(arm + spin) * radius + jitter(scatter);
+  }
+};
+
+/**
+ * Samples `count` points from the opaque pixels of a mask.
+ * `isInside` decides per pixel; result is centered and scaled to the target width.
+ */
+const sampleMask = (
+  image: ImageData,
+  count: number,
+  isInside: (data: Uint8ClampedArray, index: number) => boolean
+): Float32Array => {
+  const { width, height, data } = image;
+  const inside: number[] = [];
+  for (let i = 0; i < width * height; i++) {
+    if (isInside(data, i * 4)) inside.push(i);
+  }
+  if (inside.length === 0) {
+    throw new Error('Shape mask is empty');
+  }
+
+  const scale = (TARGET_RADIUS * 2) / Math.max(width, height);
+  const out = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const pixel = inside[Math.floor(Math.random() * inside.length)];
+    const px = (pixel % width) + Math.random();
+    const py = Math.floor(pixel / width) + Math.random();
+
+    out[i * 3] = (px - width / 2) * scale;
+    out[i * 3 + 1] = (height / 2 - py) * scale;
+    out[i * 3 + 2] = jitter(0.6);
+  }
+  return out;
+};
+
+const text = (out: Float32Array, count: number, value: string) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 512;
+  canvas.height = 256;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D unavailable');
+
+  const label = value.trim() || 'HELLO';
+  // Shrink the font until the label fits the canvas width
+  let fontSize = 200;
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  while (fontSize > 20 && ctx.measureText(label).width > canvas.width * 0.95) {
+    fontSize -= 10;
+    ctx.font = `bold ${fontSize}px sans-serif`;
+  }
+  ctx.fillStyle = '#fff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(label, canvas.width / 2, canvas.height / 2);
+
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  out.set(sampleMask(image, count, (data, i) => data[i + 3] > 128));
+};
+
+const resample = (out: Float32Array, count: number, source: Float32Array) => {
+  const sourceCount = source.length / 3;
+  for (let i = 0; i < count; i++) {
+    const j = Math.floor(Math.random() * sourceCount);
+    out[i * 3] = source[j * 3] + jitter(0.05);
+    out[i * 3 + 1] = source[j * 3 + 1] + jitter(0.05);
+    out[i * 3 + 2] = source[j * 3 + 2] + jitter(0.05);
+  }
+};
+
+/**
+ * Generates rest positions for a shape.
+ * Falls back to the sphere when an asset-based shape has no asset loaded.
+ */
+export const generateShape = (shape: ShapeId, count: number, options: ShapeOptions = {}): Float32Array => {
+  const out = new Float32Array(count * 3);
+
+  switch (shape) {
+    case 'torus':
+      torus(out, count);
+      break;
+    case 'cube':
+      cube(out, count);
+      break;
+    case 'helix':
+      helix(out, count);
+      break;
+    case 'galaxy':
+      galaxy(out, count);
+      break;
+    case 'text':
+      text(out, count, options.text ?? '');
+      break;
+    case 'mesh':
+    case 'image':
+      if (options.custom && options.custom.kind === shape) {
+        resample(out, count, options.custom.points);
+      } else {
+        sphere(out, count);
+      }
+      break;
+    case 'sphere':
+    default:
+      sphere(out, count);
+      break;
+  }
+  return out;
+};
+
+// --- Uploaded assets ---
+
+interface Triangle { a: number; b: number; c: number; }
+
+const parseObj = (source: string) => {
+  const vertices: number[] = [];
+  const triangles: Triangle[] = [];
+
+  for (const line of source.split('\n')) {
+    const parts = line.trim().split(/\s+/);
+    if (parts[0] === 'v') {
+      vertices.push(parseFloat(parts[1]), parseFloat(parts[2]), parseFloat(parts[3]));
+    } else if (parts[0] === 'f') {
+      // Face entries look like "v", "v/vt" or "v/vt/vn"; negative indices are relative
+      const idx = parts.slice(1).map(p => {
+        const n = parseInt(p.split('/')[0], 10);
+        return n < 0 ? vertices.length / 3 + n : n - 1;
+      });
+      // Fan-triangulate polygons
+      for (let k = 1; k < idx.length - 1; k++) {
+        triangles.push({ a: idx[0], b: idx[k], c: idx[k + 1] });
+      }
+    }
+  }
+  return { vertices, triangles };
+};
+
+const parsePly = (source: string) => {
+  const lines = source.split('\n');
+  if (!lines[0]?.trim().startsWith('ply')) throw new Error('Not a PLY file');
+
+  let vertexCount = 0;
+  let faceCount = 0;
+  let headerEnd = 0;
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line.startsWith('format') && !line.includes('ascii')) {
+      throw new Error('Only ASCII PLY files are supported');
+    }
+    if (line.startsWith('element vertex')) vertexCount = parseInt(line.split(/\s+/)[2], 10);
+    if (line.startsWith('element face')) faceCount = parseInt(line.split(/\s+/)[2], 10);
+    if (line === 'end_header') {
+      headerEnd = i + 1;
+      break;
+    }
+  }
+
+  const vertices: number[] = [];
+  const triangles: Triangle[] = [];
+  if (lines.length < headerEnd + vertexCount + faceCount) throw new Error('PLY file is truncated');
+  for (let i = 0; i < vertexCount; i++) {
+    const parts = lines[headerEnd + i].trim().split(/\s+/).map(Number);
+    vertices.push(parts[0], parts[1], parts[2]);
+  }
+  for (let i = 0; i < faceCount; i++) {
+    const parts = lines[headerEnd + vertexCount + i].trim().split(/\s+/).map(Number);
+    const n = parts[0];
+    for (let k = 2; k < n; k++) {
+      triangles.push({ a: parts[1], b: parts[k], c: parts[k + 1] });
+    }
+  }
+  return { vertices, triangles };
+};
+
+// A vertex is usable when it exists and all three coordinates are numbers
+const isValidVertex = (vertices: number[], i: number) =>
+  Number.isInteger(i) && i >= 0 && i * 3 + 2 < vertices.length &&
+  Number.isFinite(vertices[i * 3]) && Number.isFinite(vertices[i * 3 + 1]) && Number.isFinite(vertices[i * 3 + 2]);
+
+/** Recenters points on their bounding box and scales them to the target radius. */
+const normalizePoints = (points: Float32Array) => {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < points.length; i++) {
+    min[i % 3] = Math.min(min[i % 3], points[i]);
+    max[i % 3] = Math.max(max[i % 3], points[i]);
+  }
+  const center = min.map((m, i) => (m + max[i]) / 2);
+  const extent = Math.max(...max.map((m, i) => m - min[i])) || 1;
+  const scale = (TARGET_RADIUS * 2) / extent;
+  for (let i = 0; i < points.length; i++) {
+    points[i] = (points[i] - center[i % 3]) * scale;
+  }
+  return points;
+};
+
+/**
+ * Parses an OBJ or ASCII PLY file and samples points uniformly over its surface.
+ * Meshes without faces (point clouds) are sampled from their vertices.
+ */
+export const sampleMeshFile = (fileName: string, source: string): CustomShape => {
+  const parsed = fileName.toLowerCase().endsWith('.ply') ? parsePly(source) : parseObj(source);
+  const { vertices } = parsed;
+  if (vertices.length === 0) throw new Error('Mesh has no vertices');
+
+  // Faces pointing past the vertex list or at unreadable vertices would put NaNs in the rest texture
+  const triangles = parsed.triangles.filter(t => [t.a, t.b, t.c].every(i => isValidVertex(vertices, i)));
+  if (parsed.triangles.length > 0 && triangles.length === 0) {
+    throw new Error('Mesh has no valid faces: every face refers to a missing or unreadable vertex');
+  }
+
+  const points = new Float32Array(CUSTOM_SAMPLE_COUNT * 3);
+  const v = (i: number, axis: number) => vertices[i * 3 + axis];
+
+  if (triangles.length === 0) {
+    const cloud = Array.from({ length: Math.floor(vertices.length / 3) }, (_, i) => i)
+      .filter(i => isValidVertex(vertices, i))
+      .flatMap(i => [v(i, 0), v(i, 1), v(i, 2)]);
+    if (cloud.length === 0) throw new Error('Mesh has no readable vertices');
+    resample(points, CUSTOM_SAMPLE_COUNT, new Float32Array(cloud));
+  } else {
+    // Area-weighted triangle selection via cumulative distribution
+    const cumulative = new Float32Array(triangles.length);
+    let total = 0;
+    triangles.forEach((t, i) => {
+      const ab = [0, 1, 2].map(k => v(t.b, k) - v(t.a, k));
+      const ac = [0, 1, 2].map(k => v(t.c, k) - v(t.a, k));
+      const cross = [
+        ab[1] * ac[2] - ab[2] * ac[1],
+        ab[2] * ac[0] - ab[0] * ac[2],
+        ab[0] * ac[1] - ab[1] * ac[0],
+      ];
+      total += Math.hypot(cross[0], cross[1], cross[2]) / 2;
+      cumulative[i] = total;
+    });
+
+    for (let i = 0; i < CUSTOM_SAMPLE_COUNT; i++) {
+      const r = Math.random() * total;
+      let lo = 0;
+      let hi = triangles.length - 1;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (cumulative[mid] < r) lo = mid + 1;
+        else hi = mid;
+      }
+      const t = triangles[lo];
+      // Uniform barycentric sample
+      let s = Math.random();
+      let q = Math.random();
+      if (s + q > 1) {
+        s = 1 - s;
+        q = 1 - q;
+      }
+      for (let k = 0; k < 3; k++) {
+        points[i * 3 + k] = v(t.a, k) + s * (v(t.b, k) - v(t.a, k)) + q * (v(t.c, k) - v(t.a, k));
+      }
+    }
+  }
+
+  return { kind: 'mesh', name: fileName, points: normalizePoints(points) };
+};
+
+/**
+ * Samples points from a PNG silhouette. Transparent images use alpha;
+ * fully opaque images treat dark pixels as the shape.
+ */
+export const sampleImageFile = async (file: File): Promise<CustomShape> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, 512 / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D unavailable');
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  let hasTransparency = false;
+  for (let i = 3; i < image.data.length; i += 4) {
+    if (image.data[i] < 250) {
+      hasTransparency = true;
+      break;
+    }
+  }
+
+  const points = sampleMask(image, CUSTOM_SAMPLE_COUNT, (data, i) =>
+    hasTransparency
+      ? data[i + 3] > 128
+      : (data[i] + data[i + 1] + data[i + 2]) / 3 < 128
+  );
+  return { kind: 'image', name: file.name, points };
+};
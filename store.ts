@@ -1,31 +1,217 @@
 import { create } from 'zustand';
-import { Vector3 } from 'three';
+import { Texture, Vector3 } from 'three';
+import type { CustomShape, ShapeId } from './simulation/shapes';
+import { GestureSample, loadCustomGestures, saveCustomGestures } from './input/gestures';
+import { GestureBinding, loadBindings, saveBindings } from './input/bindings';
+import { loadTrackingFilter, saveTrackingFilter, TrackingFilterConfig } from './input/filters';
+import { HandCalibration, loadHandCalibration, saveHandCalibration } from './input/handPipeline';
+import { DiagnosticsSettings, loadDiagnosticsSettings, saveDiagnosticsSettings } from './input/diagnostics';
+import { loadWebcamSettings, saveWebcamSettings, WebcamSettings } from './input/webcam';
+import type { SessionPlayer } from './input/session';
+import { AudioMapping, loadAudioMappings, saveAudioMappings } from './services/audio';
+import { loadPresets, Preset, savePresets } from './services/presets';
+import { clampConfig, defaultConfig } from './services/configSchema';
+import type { DirectorTurn } from './services/director';
+import { AiSettings, loadAiSettings, saveAiSettings } from './services/aiProvider';
+import { loadTimeline, saveTimeline, Timeline } from './services/timeline';
+import { CollabSettings, loadCollabSettings, RemoteHand, saveCollabSettings } from './services/collab';
+import { CameraSettings, loadCameraSettings, saveCameraSettings } from './services/camera';
+import { ForceKind, ForceObject, loadForces, saveForces } from './services/forces';
+import { createLayer, MAX_LAYERS, moveLayer, nextLayerName, ParticleLayer, SCENE_FIELDS } from './services/layers';
+import { loadPerformanceSettings, PerformanceSettings, savePerformanceSettings } from './services/performance';
 
 export interface ParticleConfig {
-  color1: string;
-  color2: string;
+  color1: string; // First gradient stop
+  color2: string; // Last gradient stop
+  colorStops: string[]; // Extra stops between color1 and color2
+  colorMode: ColorModeId; // What places a particle on the gradient
+  colorAxis: 'x' | 'y' | 'z'; // For the 'axis' mode
+  colorRange: number; // Distance, speed or seconds the gradient spans
   particleSize: number;
   speed: number;
   noiseScale: number;
+  flowField: FlowFieldId; // Ambient motion when nothing else pushes
+  flowStrength: number;
   interactionRadius: number;
+  handForce: HandForceMode; // What the hand does to nearby particles unless a binding overrides it
+  handStrength: number;
   particleCount: number;
+  damping: number; // Velocity drag per second
+  stiffness: number; // Spring pull back to the rest shape
+  shape: ShapeId;
+  shapeText: string; // Label rendered by the 'text' shape
+  morphDuration: number; // Seconds to blend from the previous shape
+
+  // Lifecycle
+  emitter: EmitterId; // Where particles are born; 'none' keeps them on the shape for good
+  emissionRate: number; // Particles born per second
+  lifetime: number; // Seconds a particle lives
+  initialVelocity: number; // Launch speed of a newborn particle
+
+  // Post-processing
+  bloom: boolean;
+  bloomIntensity: number;
+  bloomThreshold: number; // Brightness above which pixels glow
+  bloomRadius: number;
+  trails: boolean;
+  trailDecay: number; // Share of the previous frame kept each frame
+  depthOfField: boolean; // Focused on the hand's depth, or the object's center with no hand
+  dofStrength: number;
+  chromaticAberration: boolean;
+  aberrationAmount: number;
+  toneMapping: ToneMappingId;
+  exposure: number;
+}
+
+export type ColorModeId = 'axis' | 'radius' | 'speed' | 'hand' | 'age' | 'image';
+
+export type FlowFieldId = 'waves' | 'curl';
+
+export type HandForceMode = 'repel' | 'attract' | 'vortex';
+
+export type EmitterId = 'none' | 'point' | 'surface' | 'hand';
+
+export type ToneMappingId = 'none' | 'filmic' | 'agx' | 'neutral';
+
+export type HandGesture =
+  | 'OPEN'
+  | 'CLOSED'
+  | 'NEUTRAL'
+  | 'PINCH'
+  | 'POINT'
+  | 'VICTORY'
+  | 'THUMBS_UP'
+  | 'SWIPE_LEFT'
+  | 'SWIPE_RIGHT'
+  | 'SWIPE_UP'
+  | 'SWIPE_DOWN'
+  | 'CIRCLE'
+  | `CUSTOM:${string}` // User-trained pose, by label
+  | null;
+
+export type Handedness = 'Left' | 'Right';
+
+// Normalized MediaPipe landmark: x/y in 0-1 image space, z relative to the wrist
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface TrackedHand {
+  handedness: Handedness; // From the user's point of view
+  landmarks: Landmark[]; // 21 points
+  gesture: HandGesture;
+  pinchStrength: number; // 0 (apart) to 1 (thumb and index touching)
+  position: Vector3; // Index fingertip in world space
 }
 
-export type HandGesture = 'OPEN' | 'CLOSED' | 'NEUTRAL' | null;
+// Where hand input currently comes from
+export type InputSource = 'webcam' | 'mouse' | 'gamepad' | 'midi' | 'websocket' | 'playback';
 
 interface AppState {
   // Hand tracking state
-  handPosition: Vector3 | null; // Normalized -1 to 1 range approx
+  hands: TrackedHand[];
   isHandDetected: boolean;
-  gesture: HandGesture;
-  setHandPosition: (pos: Vector3 | null) => void;
-  setIsHandDetected: (detected: boolean) => void;
-  setGesture: (g: HandGesture) => void;
+  setHands: (hands: TrackedHand[]) => void;
+  inputSource: InputSource;
+  setInputSource: (source: InputSource) => void;
+  websocketUrl: string; // External tracker endpoint for the 'websocket' source
+  setWebsocketUrl: (url: string) => void;
+  // Which camera the webcam tracker opens, persisted locally
+  webcamSettings: WebcamSettings;
+  setWebcamSettings: (settings: Partial<WebcamSettings>) => void;
+
+  // Loaded session recording; drives the store while inputSource is 'playback'
+  sessionPlayer: SessionPlayer | null;
+  setSessionPlayer: (player: SessionPlayer | null) => void;
+
+  // Landmark smoothing/prediction applied before hands reach the store
+  trackingFilter: TrackingFilterConfig;
+  setTrackingFilter: (config: Partial<TrackingFilterConfig>) => void;
+  // Camera-to-world mapping fitted to the user's reach, persisted locally
+  handCalibration: HandCalibration;
+  setHandCalibration: (calibration: Partial<HandCalibration>) => void;
+  // Skeleton overlays, persisted locally
+  diagnosticsSettings: DiagnosticsSettings;
+  setDiagnosticsSettings: (settings: Partial<DiagnosticsSettings>) => void;
+
+  // Recorded samples for user-trained gestures, persisted locally
+  customGestureSamples: GestureSample[];
+  setCustomGestureSamples: (samples: GestureSample[]) => void;
+
+  // Gesture-to-action bindings, persisted locally
+  bindings: GestureBinding[];
+  setBindings: (bindings: GestureBinding[]) => void;
+
+  // Audio band -> parameter modulation, persisted locally
+  audioMappings: AudioMapping[];
+  setAudioMappings: (mappings: AudioMapping[]) => void;
+
+  // Saved configs plus the history of AI generations, persisted locally
+  presets: Preset[];
+  setPresets: (presets: Preset[]) => void;
+
+  // Which AI provider themes the scene, persisted locally
+  aiSettings: AiSettings;
+  setAiSettings: (settings: Partial<AiSettings>) => void;
+
+  // Conversation with the AI director (session only)
+  directorTurns: DirectorTurn[];
+  setDirectorTurns: (turns: DirectorTurn[]) => void;
+
+  // Keyframed show played back over the config, persisted locally
+  timeline: Timeline;
+  setTimeline: (timeline: Timeline) => void;
 
-  // Particle System Config
+  // Frame-rate target and stats overlay, persisted locally
+  performance: PerformanceSettings;
+  setPerformance: (settings: Partial<PerformanceSettings>) => void;
+  // Index into QUALITY_LEVELS chosen by the governor (0 = full quality)
+  qualityLevel: number;
+  setQualityLevel: (level: number) => void;
+
+  // Camera mode and saved viewpoints, persisted locally
+  cameraSettings: CameraSettings;
+  setCameraSettings: (settings: Partial<CameraSettings>) => void;
+
+  // Hands of other participants in a collaborative session
+  remoteHands: RemoteHand[];
+  setRemoteHands: (hands: RemoteHand[]) => void;
+  // Relay address and display name, persisted locally
+  collabSettings: CollabSettings;
+  setCollabSettings: (settings: Partial<CollabSettings>) => void;
+
+  // Force objects acting on every layer, persisted locally
+  forces: ForceObject[];
+  setForces: (forces: ForceObject[]) => void;
+  // Kind of force the next pinch drops at the hand (session only)
+  placingForce: ForceKind | null;
+  setPlacingForce: (kind: ForceKind | null) => void;
+  showForceGizmos: boolean;
+  setShowForceGizmos: (show: boolean) => void;
+
+  // Particle System Config: the selected layer's config, mirrored for editors
   config: ParticleConfig;
   setConfig: (config: Partial<ParticleConfig>) => void;
 
+  // Layers drawn bottom to top; `config` edits the selected one (session only)
+  layers: ParticleLayer[];
+  selectedLayerId: string;
+  selectLayer: (id: string) => void;
+  addLayer: (config?: ParticleConfig) => void;
+  removeLayer: (id: string) => void;
+  moveLayer: (id: string, offset: number) => void;
+  updateLayer: (id: string, patch: Partial<Omit<ParticleLayer, 'id' | 'config'>>) => void;
+
+  // Points sampled from the last uploaded mesh or silhouette
+  customShape: CustomShape | null;
+  setCustomShape: (shape: CustomShape | null) => void;
+
+  // Uploaded image sampled by the 'image' color mode (session only)
+  colorImage: { name: string; texture: Texture } | null;
+  setColorImage: (image: { name: string; texture: Texture } | null) => void;
+
   // UI State
   isConfiguring: boolean;
   setIsConfiguring: (v: boolean) => void;
@@ -35,26 +221,169 @@ interface AppState {
   setError: (e: string | null) => void;
 }
 
-const DEFAULT_CONFIG: ParticleConfig = {
-  color1: '#00ffff',
-  color2: '#ff00ff',
-  particleSize: 0.15,
-  speed: 1.0,
-  noiseScale: 1.0,
-  interactionRadius: 2.0,
-  particleCount: 8000
-};
+const DEFAULT_CONFIG: ParticleConfig = defaultConfig();
+const BASE_LAYER = createLayer('Layer 1', DEFAULT_CONFIG);
 
 export const useStore = create<AppState>((set) => ({
-  handPosition: null,
+  hands: [],
   isHandDetected: false,
-  gesture: null,
-  setHandPosition: (pos) => set({ handPosition: pos }),
-  setIsHandDetected: (detected) => set({ isHandDetected: detected }),
-  setGesture: (g) => set({ gesture: g }),
+  setHands: (hands) => set({ hands, isHandDetected: hands.length > 0 }),
+  inputSource: 'webcam',
+  setInputSource: (source) => set({ inputSource: source, hands: [], isHandDetected: false }),
+  websocketUrl: 'ws://localhost:8765',
+  setWebsocketUrl: (url) => set({ websocketUrl: url }),
+  webcamSettings: loadWebcamSettings(localStorage),
+  setWebcamSettings: (settings) => set((state) => {
+    const webcamSettings = { ...state.webcamSettings, ...settings };
+    saveWebcamSettings(localStorage, webcamSettings);
+    return { webcamSettings };
+  }),
+
+  sessionPlayer: null,
+  setSessionPlayer: (player) => set((state) => {
+    state.sessionPlayer?.dispose();
+    return { sessionPlayer: player };
+  }),
+
+  trackingFilter: loadTrackingFilter(localStorage),
+  setTrackingFilter: (config) => set((state) => {
+    const trackingFilter = { ...state.trackingFilter, ...config };
+    saveTrackingFilter(localStorage, trackingFilter);
+    return { trackingFilter };
+  }),
+  handCalibration: loadHandCalibration(localStorage),
+  setHandCalibration: (calibration) => set((state) => {
+    const handCalibration = { ...state.handCalibration, ...calibration };
+    saveHandCalibration(localStorage, handCalibration);
+    return { handCalibration };
+  }),
+  diagnosticsSettings: loadDiagnosticsSettings(localStorage),
+  setDiagnosticsSettings: (settings) => set((state) => {
+    const diagnosticsSettings = { ...state.diagnosticsSettings, ...settings };
+    saveDiagnosticsSettings(localStorage, diagnosticsSettings);
+    return { diagnosticsSettings };
+  }),
+
+  customGestureSamples: loadCustomGestures(localStorage),
+  setCustomGestureSamples: (samples) => {
+    saveCustomGestures(localStorage, samples);
+    set({ customGestureSamples: samples });
+  },
+
+  bindings: loadBindings(localStorage),
+  setBindings: (bindings) => {
+    saveBindings(localStorage, bindings);
+    set({ bindings });
+  },
+
+  audioMappings: loadAudioMappings(localStorage),
+  setAudioMappings: (mappings) => {
+    saveAudioMappings(localStorage, mappings);
+    set({ audioMappings: mappings });
+  },
+
+  presets: loadPresets(localStorage),
+  setPresets: (presets) => {
+    savePresets(localStorage, presets);
+    set({ presets });
+  },
+
+  aiSettings: loadAiSettings(localStorage),
+  setAiSettings: (settings) => set((state) => {
+    const aiSettings = { ...state.aiSettings, ...settings };
+    saveAiSettings(localStorage, aiSettings);
+    return { aiSettings };
+  }),
+
+  directorTurns: [],
+  setDirectorTurns: (turns) => set({ directorTurns: turns }),
+
+  timeline: loadTimeline(localStorage),
+  setTimeline: (timeline) => {
+    saveTimeline(localStorage, timeline);
+    set({ timeline });
+  },
+
+  performance: loadPerformanceSettings(localStorage),
+  setPerformance: (settings) => set((state) => {
+    const performance = { ...state.performance, ...settings };
+    savePerformanceSettings(localStorage, performance);
+    return { performance };
+  }),
+  qualityLevel: 0,
+  setQualityLevel: (level) => set({ qualityLevel: level }),
+
+  cameraSettings: loadCameraSettings(localStorage),
+  setCameraSettings: (settings) => set((state) => {
+    const cameraSettings = { ...state.cameraSettings, ...settings };
+    saveCameraSettings(localStorage, cameraSettings);
+    return { cameraSettings };
+  }),
+
+  remoteHands: [],
+  setRemoteHands: (hands) => set({ remoteHands: hands }),
+  collabSettings: loadCollabSettings(localStorage),
+  setCollabSettings: (settings) => set((state) => {
+    const collabSettings = { ...state.collabSettings, ...settings };
+    saveCollabSettings(localStorage, collabSettings);
+    return { collabSettings };
+  }),
+
+  forces: loadForces(localStorage),
+  setForces: (forces) => {
+    saveForces(localStorage, forces);
+    set({ forces });
+  },
+  placingForce: null,
+  setPlacingForce: (kind) => set({ placingForce: kind }),
+  showForceGizmos: true,
+  setShowForceGizmos: (show) => set({ showForceGizmos: show }),
+
+  config: BASE_LAYER.config,
+  // Every write is clamped to the schema so no caller can push the simulation out of range
+  setConfig: (newConfig) => set((state) => {
+    const changes = clampConfig(newConfig);
+    const config = { ...state.config, ...changes };
+    const shared = Object.fromEntries(Object.entries(changes).filter(([key]) => SCENE_FIELDS.includes(key as keyof ParticleConfig)));
+    const layers = state.layers.map(layer => {
+      if (layer.id === state.selectedLayerId) return { ...layer, config };
+      // Untouched layers keep their identity so they do not re-render
+      return Object.keys(shared).length > 0 ? { ...layer, config: { ...layer.config, ...shared } } : layer;
+    });
+    return { config, layers };
+  }),
+
+  layers: [BASE_LAYER],
+  selectedLayerId: BASE_LAYER.id,
+  selectLayer: (id) => set((state) => {
+    const layer = state.layers.find(l => l.id === id);
+    return layer ? { selectedLayerId: id, config: layer.config } : {};
+  }),
+  addLayer: (config) => set((state) => {
+    if (state.layers.length >= MAX_LAYERS) return {};
+    const scene = Object.fromEntries(SCENE_FIELDS.map(key => [key, state.config[key]]));
+    const layer = createLayer(nextLayerName(state.layers), { ...(config ?? defaultConfig()), ...scene });
+    return { layers: [...state.layers, layer], selectedLayerId: layer.id, config: layer.config };
+  }),
+  removeLayer: (id) => set((state) => {
+    if (state.layers.length <= 1) return {};
+    const layers = state.layers.filter(l => l.id !== id);
+    if (id !== state.selectedLayerId) return { layers };
+    return { layers, selectedLayerId: layers[0].id, config: layers[0].config };
+  }),
+  moveLayer: (id, offset) => set((state) => ({ layers: moveLayer(state.layers, id, offset) })),
+  updateLayer: (id, patch) => set((state) => ({
+    layers: state.layers.map(layer => (layer.id === id ? { ...layer, ...patch } : layer)),
+  })),
+
+  customShape: null,
+  setCustomShape: (shape) => set({ customShape: shape }),
 
-  config: DEFAULT_CONFIG,
-  setConfig: (newConfig) => set((state) => ({ config: { ...state.config, ...newConfig } })),
+  colorImage: null,
+  setColorImage: (image) => set((state) => {
+    state.colorImage?.texture.dispose();
+    return { colorImage: image };
+  }),
 
   isConfiguring: false,
   setIsConfiguring: (v) => set({ isConfiguring: v }),
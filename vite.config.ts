@@ -1,7 +1,30 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// MediaPipe's wasm runtime, served at /mediapipe/wasm in dev and copied into the build,
+// so hand tracking loads without a CDN and always matches the installed JS bundle
+const mediapipeWasm = (): Plugin => {
+  const wasmDir = path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/wasm');
+  return {
+    name: 'mediapipe-wasm',
+    configureServer(server) {
+      server.middlewares.use('/mediapipe/wasm', (req, res, next) => {
+        const file = path.join(wasmDir, path.basename(new URL(req.url ?? '', 'http://localhost').pathname));
+        if (!fs.statSync(file, { throwIfNoEntry: false })?.isFile()) return next();
+        res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+        fs.createReadStream(file).on('error', next).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const name of fs.readdirSync(wasmDir)) {
+        this.emitFile({ type: 'asset', fileName: `mediapipe/wasm/${name}`, source: fs.readFileSync(path.join(wasmDir, name)) });
+      }
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +32,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), mediapipeWasm()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)